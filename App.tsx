@@ -1,246 +1,344 @@
-import React, { useState } from 'react';
-import { Upload, FileText, User, Mail, CheckCircle, AlertCircle, Loader2, MessageSquare, Clock, Plus, Menu, X, Settings, LogOut, History } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Loader2, MessageSquare, Clock, Plus, Menu, X, Settings, LogOut, History, Sparkles, Target, Check, Building, Users, Mail } from 'lucide-react';
 import IntegratedChat from './components/IntegratedChat';
 import LoginModal from './components/LoginModal';
 import UserSettingsModal from './components/UserSettingsModal';
+import TeamModal from './components/TeamModal';
 import ForgotPasswordModal from './components/ForgotPasswordModal';
-import { useAuth } from './hooks/useAuth';
-import { useChatHistory, ChatMessage } from './hooks/useChatHistory';
+import ResetPasswordModal from './components/ResetPasswordModal';
+import VerifyEmailModal from './components/VerifyEmailModal';
+import JourneyProgress from './components/JourneyProgress';
+import DeliverablesView from './components/DeliverablesView';
+import CompetitorEditor from './components/CompetitorEditor';
+import ExportMenu from './components/ExportMenu';
+import NotFoundPage from './components/NotFoundPage';
+import { useAuth, SESSION_END_MESSAGES } from './hooks/useAuth';
+import { useBrands, BRAND_ROLE_LABELS } from './hooks/useBrands';
+import { useBrandTeam, TeamMember } from './hooks/useBrandTeam';
+import { useChatHistory, ChatMessage, ChatConversation } from './hooks/useChatHistory';
 import { useN8NChatHistory } from './hooks/useN8NChatHistory';
-
-interface FormData {
-  firstName: string;
-  lastName: string;
-  brandName: string;
-  email: string;
-  file: File | null;
-}
-
-interface FormErrors {
-  firstName?: string;
-  lastName?: string;
-  brandName?: string;
-  email?: string;
-  file?: string;
-}
+import { useBrandJourney } from './hooks/useBrandJourney';
+import { useDeliverables } from './hooks/useDeliverables';
+import { useCompetitors } from './hooks/useCompetitors';
+import { useRoute } from './hooks/useRoute';
+import { retrieveHistory } from './lib/n8nClient';
+import { AgentEnvelope } from './lib/agentResponse';
+import { extractDeliverables, getDeliverableLabel, DeliverableVersion } from './lib/deliverables';
+import { CompetitorDraft, REQUIRED_COMPETITORS } from './lib/competitors';
+import { downloadExport, ExportFormat, ExportMessage } from './lib/exportDocument';
+import { PUBLIC_ROUTES, Route } from './lib/routes';
+import { buildHistoryTimeline, fromChatMessages, fromN8NMessages, fromWebhookResponse, HISTORY_SOURCE_LABELS, TimelineMessage } from './lib/historyService';
 
 function App() {
-  const { user, isAuthenticated, login, logout, isLoading: authLoading } = useAuth();
-  const { conversations, loadConversationMessages } = useChatHistory();
-  const { loadN8NChatHistory, isLoading: isLoadingN8NHistory } = useN8NChatHistory();
-  const [formData, setFormData] = useState<FormData>({
-    firstName: '',
-    lastName: '',
-    brandName: '',
-    email: '',
-    file: null,
-  });
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
-  const [submitMessage, setSubmitMessage] = useState('');
-  const [showUploadForm, setShowUploadForm] = useState(false);
+  const {
+    user,
+    isAuthenticated,
+    login,
+    logout,
+    isLoading: authLoading,
+    isInitializing: authInitializing,
+    sessionEnded,
+    isPasswordRecovery,
+    authLinkError,
+    completePasswordReset,
+    cancelPasswordRecovery,
+    clearAuthLinkError,
+    authLinkMessage,
+    clearAuthLinkMessage,
+    pendingVerification,
+    resendVerification,
+    dismissVerification,
+  } = useAuth();
+  const { brands, activeBrand, canEdit, selectBrand, createBrand, invitations, acceptInvitation, declineInvitation } = useBrands();
+  const {
+    members,
+    pendingInvitations,
+    isOwner,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+    getMemberName,
+  } = useBrandTeam();
+  const {
+    conversations,
+    currentConversationId,
+    currentSessionId,
+    loadConversationMessages,
+    loadConversationTree,
+    setActiveMessage,
+    persistMessage,
+    resolveCurrentConversationId,
+    startNewConversation,
+    selectConversation,
+    findConversation,
+  } = useChatHistory();
+  const { loadN8NChatHistory } = useN8NChatHistory();
+  const { journey, markDocumentSubmitted, markDeliverableReceived, recordProgress, checkPhaseAccess, checkDocumentAccess } = useBrandJourney();
+  const { versions: deliverableVersions, isLoading: deliverablesLoading, saveDeliverables } = useDeliverables();
+  const {
+    competitors,
+    addCompetitor,
+    updateCompetitor,
+    deleteCompetitor,
+    addAssets: addCompetitorAssets,
+    removeAsset: removeCompetitorAsset,
+    getAssetUrl: getCompetitorAssetUrl,
+    buildCompetitorPayload,
+  } = useCompetitors();
+  const { route, location, navigate } = useRoute();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [showLoginModal, setShowLoginModal] = useState(false);
-  const [showSettingsModal, setShowSettingsModal] = useState(false);
-  const [showForgotPasswordModal, setShowForgotPasswordModal] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [respondingInvitationId, setRespondingInvitationId] = useState<string | null>(null);
+  const [newBrandName, setNewBrandName] = useState('');
+  const [isCreatingBrand, setIsCreatingBrand] = useState(false);
   const [loginError, setLoginError] = useState('');
+  // Bumping the key remounts the chat with the messages of the selected conversation, all branches
+  // of it, and the branch to show
+  const [chatSession, setChatSession] = useState<{ key: number; messages: Array<ChatMessage | TimelineMessage>; activeMessageId?: string | null }>({ key: 0, messages: [] });
+  const [loadingConversationId, setLoadingConversationId] = useState<string | null>(null);
+  // A /chat/:id that doesn't exist or belongs to a brand the user isn't in
+  const [missingConversationId, setMissingConversationId] = useState<string | null>(null);
+  const [isLoadingTimeline, setIsLoadingTimeline] = useState(false);
   const [userId] = useState(() => {
     return user?.id || 'user_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
   });
 
-  // Update form data when user changes or when upload form opens
-  React.useEffect(() => {
-    if (user && showUploadForm) {
-      setFormData(prev => ({
-        ...prev,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        brandName: user.brandName,
-        email: user.email,
-      }));
-      // Clear any existing errors when prefilling
-      setErrors({});
+  // Closing a page-level modal returns to the conversation underneath
+  const chatRoute: Route = { name: 'chat', conversationId: currentConversationId ?? undefined };
+
+  // Logged-out visitors log in first and come back afterwards; logged-in ones skip the login screens
+  useEffect(() => {
+    if (authInitializing) return;
+
+    if (!isAuthenticated && !PUBLIC_ROUTES.includes(route.name)) {
+      navigate({ name: 'login', returnTo: location === '/' ? undefined : location }, { replace: true });
+    } else if (isAuthenticated && !isPasswordRecovery && (route.name === 'login' || route.name === 'signup' || route.name === 'forgot-password')) {
+      navigate(route.name === 'login' && route.returnTo ? route.returnTo : '/', { replace: true });
+    }
+  }, [authInitializing, isAuthenticated, isPasswordRecovery, location]);
+
+  // A reset link signs the user in for recovery only, so they stay on the reset screen until it's done
+  useEffect(() => {
+    if (isPasswordRecovery && route.name !== 'reset-password') {
+      navigate({ name: 'reset-password' }, { replace: true });
+    } else if (!isPasswordRecovery && !authInitializing && route.name === 'reset-password') {
+      navigate(isAuthenticated ? '/' : { name: 'login' }, { replace: true });
     }
-  }, [user, showUploadForm]);
+  }, [isPasswordRecovery, authInitializing, isAuthenticated, route.name]);
 
-  const handleLoadAllHistory = async (): Promise<any[]> => {
-    if (!user || !isAuthenticated) return [];
-    
-    try {
-      // Load all conversations and their messages
-      const allMessages: any[] = [];
-      
-      for (const conversation of conversations) {
-        const messages = await loadConversationMessages(conversation.id);
-        // Add conversation separator
-        if (allMessages.length > 0) {
-          allMessages.push({
-            id: `separator-${conversation.id}`,
-            content: `--- ${conversation.title} (${conversation.createdAt.toLocaleDateString()}) ---`,
-            sender: 'bot' as const,
-            timestamp: conversation.createdAt,
-          });
+  // The URL decides the conversation, so links, bookmarks and back/forward all open it here
+  useEffect(() => {
+    if (route.name !== 'chat' || !isAuthenticated || !activeBrand) return;
+
+    const conversationId = route.conversationId ?? null;
+    if (conversationId === currentConversationId) return;
+
+    if (!conversationId) {
+      startNewConversation();
+      setChatSession(prev => ({ key: prev.key + 1, messages: [] }));
+      return;
+    }
+
+    let cancelled = false;
+    const openConversation = async () => {
+      setLoadingConversationId(conversationId);
+      try {
+        const conversation = await findConversation(conversationId);
+        if (cancelled) return;
+
+        if (!conversation || (conversation.brandId !== activeBrand.id && !brands.some(brand => brand.id === conversation.brandId))) {
+          setMissingConversationId(conversationId);
+          return;
+        }
+
+        // Another of the user's brands: switch to it, and this runs again once it is active
+        if (conversation.brandId !== activeBrand.id) {
+          selectBrand(conversation.brandId);
+          return;
         }
-        // Add all messages from this conversation
-        allMessages.push(...messages.map(msg => ({
-          id: `history-${msg.id}`,
-          content: msg.content,
-          sender: msg.sender,
-          timestamp: msg.timestamp,
-          attachments: msg.attachments
-        })));
+
+        const { messages, activeMessageId } = await loadConversationTree(conversationId);
+        if (cancelled) return;
+        selectConversation(conversationId, conversation.sessionId);
+        setChatSession(prev => ({ key: prev.key + 1, messages, activeMessageId }));
+      } finally {
+        if (!cancelled) setLoadingConversationId(null);
       }
-      
-      return allMessages;
-    } catch (error) {
-      console.error('Error loading chat history:', error);
-      return [];
+    };
+
+    openConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [location, isAuthenticated, activeBrand?.id]);
+
+  // A new conversation gets its URL once the first message has created it
+  useEffect(() => {
+    if (currentConversationId && route.name === 'chat' && route.conversationId !== currentConversationId) {
+      navigate({ name: 'chat', conversationId: currentConversationId }, { replace: true });
     }
-  };
+  }, [currentConversationId]);
 
-  const handleLoadN8NHistory = async (): Promise<any[]> => {
-    if (!user || !isAuthenticated) return [];
-    
-    try {
-      const n8nMessages = await loadN8NChatHistory();
-      return n8nMessages.map(msg => ({
-        id: msg.id,
-        content: msg.content,
-        sender: msg.sender,
-        timestamp: msg.timestamp,
-        attachments: msg.attachments
-      }));
-    } catch (error) {
-      console.error('Error loading N8N chat history:', error);
-      return [];
+  const isConversationMissing = route.name === 'chat' && !!route.conversationId && route.conversationId === missingConversationId;
+
+  // The journey's "3 Competitors" document is done once the third competitor is saved
+  const handleAddCompetitor = async (draft: CompetitorDraft) => {
+    const added = await addCompetitor(draft);
+    if (added && competitors.length + 1 >= REQUIRED_COMPETITORS && !journey.submittedDocuments.competitors) {
+      markDocumentSubmitted('competitors');
     }
+    return added;
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
+  const handleAgentEnvelope = async (envelope: AgentEnvelope) => {
+    const deliverables = extractDeliverables(envelope);
 
-    const firstName = user?.firstName || formData.firstName;
-    const lastName = user?.lastName || formData.lastName;
-    const brandName = user?.brandName || formData.brandName;
-    const email = user?.email || formData.email;
+    recordProgress(
+      envelope.phase?.documentsReceived,
+      [...(envelope.phase?.deliverables || []), ...deliverables.map(deliverable => deliverable.key)]
+    );
 
-    if (!firstName?.trim()) {
-      newErrors.firstName = 'First name is required';
+    if (deliverables.length > 0) {
+      await saveDeliverables(deliverables, await resolveCurrentConversationId());
     }
+  };
 
-    if (!lastName?.trim()) {
-      newErrors.lastName = 'Last name is required';
-    }
+  // Loading happens in the route effect above
+  const handleSelectConversation = (conversationId: string) => {
+    navigate({ name: 'chat', conversationId });
+    setIsSidebarOpen(false);
+  };
 
-    if (!brandName?.trim()) {
-      newErrors.brandName = 'Brand name is required';
-    }
+  const handleExportConversation = async (conversation: ChatConversation, format: ExportFormat) => {
+    if (!user) return;
 
-    if (!email?.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
+    const messages = await loadConversationMessages(conversation.id);
+    await downloadExport({ title: conversation.title, user, brandName: activeBrand?.name || '', messages, createdAt: conversation.createdAt }, format);
+  };
 
-    if (!formData.file) {
-      newErrors.file = 'Please select a PDF file';
-    } else if (formData.file.type !== 'application/pdf') {
-      newErrors.file = 'Only PDF files are allowed';
-    } else if (formData.file.size > 10 * 1024 * 1024) {
-      newErrors.file = 'File size must be less than 10MB';
-    }
+  const handleExportMessage = async (message: ExportMessage, format: ExportFormat) => {
+    if (!user) return;
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    // Name the file after the reply's first heading when it has one
+    const heading = message.content.match(/^#{1,3}\s+(.+)$/m)?.[1].replace(/[*_`]/g, '').trim();
+    await downloadExport({ title: heading || 'Brand Challenger reply', user, brandName: activeBrand?.name || '', messages: [message], createdAt: message.timestamp }, format);
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    
-    if (errors[name as keyof FormErrors]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
-    }
+  const handleExportDeliverable = async (version: DeliverableVersion, format: ExportFormat) => {
+    if (!user) return;
+
+    await downloadExport({
+      title: `${getDeliverableLabel(version.key)} (v${version.version})`,
+      user,
+      brandName: activeBrand?.name || '',
+      messages: [{ content: version.content, sender: 'bot', timestamp: version.createdAt }],
+      createdAt: version.createdAt,
+    }, format);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    setFormData(prev => ({ ...prev, file }));
-    
-    if (errors.file) {
-      setErrors(prev => ({ ...prev, file: undefined }));
-    }
+  // Everything in the workspace belongs to the active brand, so switching starts an empty chat
+  const handleSelectBrand = (brandId: string) => {
+    setShowUserMenu(false);
+    if (brandId === activeBrand?.id) return;
+    navigate('/');
+    selectBrand(brandId);
+    setChatSession(prev => ({ key: prev.key + 1, messages: [] }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleCreateBrand = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!validateForm()) return;
+    if (!newBrandName.trim()) return;
+
+    setIsCreatingBrand(true);
+    const brand = await createBrand(newBrandName);
+    setIsCreatingBrand(false);
+    if (brand) {
+      navigate('/');
+      setNewBrandName('');
+      setShowUserMenu(false);
+      setChatSession(prev => ({ key: prev.key + 1, messages: [] }));
+    }
+  };
 
-    setIsSubmitting(true);
-    setSubmitStatus('idle');
+  const handleNewChat = () => {
+    navigate('/');
+    startNewConversation();
+    setChatSession(prev => ({ key: prev.key + 1, messages: [] }));
+    setIsSidebarOpen(false);
+  };
 
-    try {
-      const formDataToSend = new FormData();
-      formDataToSend.append('firstName', user?.firstName || formData.firstName);
-      formDataToSend.append('lastName', user?.lastName || formData.lastName);
-      formDataToSend.append('brandName', user?.brandName || formData.brandName);
-      formDataToSend.append('email', user?.email || formData.email);
-      formDataToSend.append('userId', user?.email || formData.email);
-      formDataToSend.append('userName', user ? `${user.firstName} ${user.lastName}` : `${formData.firstName} ${formData.lastName}`);
-      formDataToSend.append('userBrandName', user?.brandName || formData.brandName);
-      formDataToSend.append('data', formData.file!);
-
-      console.log('Sending document upload to:', 'https://iamfashion.app.n8n.cloud/webhook/document-upload');
-      console.log('Upload data:', {
-        firstName: user?.firstName || formData.firstName,
-        lastName: user?.lastName || formData.lastName,
-        brandName: user?.brandName || formData.brandName,
-        email: user?.email || formData.email,
-        userId: user?.id || userId,
-        fileName: formData.file!.name,
-        fileSize: formData.file!.size
-      });
+  // Merge saved chats, the agent's n8n memory and the history workflow into one timeline
+  const handleLoadTimeline = async () => {
+    if (!user || !isAuthenticated) return;
 
-      const response = await fetch('/api/webhook-test/document-upload', {
-        method: 'POST',
-        body: formDataToSend,
+    setIsLoadingTimeline(true);
+    try {
+      const { messages, failures } = await buildHistoryTimeline({
+        supabase: async () => {
+          const perConversation = await Promise.all(conversations.map(async conversation =>
+            fromChatMessages(await loadConversationMessages(conversation.id), conversation.id)
+          ));
+          return perConversation.flat();
+        },
+        n8n: async () => fromN8NMessages(await loadN8NChatHistory(conversations.map(conversation => conversation.sessionId))),
+        webhook: async () => fromWebhookResponse(await retrieveHistory({ userId: user.id, email: user.email, brandId: activeBrand?.id })),
       });
 
-      if (response.ok) {
-        setSubmitStatus('success');
-        setSubmitMessage('🎉 Document uploaded successfully! Your file has been processed and is ready for analysis.');
-        setFormData({
-          firstName: '',
-          lastName: '',
-          brandName: '',
-          email: '',
-          file: null,
+      const notices: ChatMessage[] = [];
+      if (messages.length === 0) {
+        notices.push({ id: `no-history-${Date.now()}`, content: 'No history found', sender: 'bot', timestamp: new Date() });
+      }
+      if (failures.length > 0) {
+        notices.push({
+          id: `history-failures-${Date.now()}`,
+          content: failures
+            .map(failure => `Could not load ${HISTORY_SOURCE_LABELS[failure.source].toLowerCase()}: ${failure.error}`)
+            .join('\n\n'),
+          sender: 'bot',
+          timestamp: new Date(),
         });
-        const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-        if (fileInput) fileInput.value = '';
-        
-        // Keep the modal open for 3 seconds to show success message, then close
-        setTimeout(() => {
-          setShowUploadForm(false);
-          setSubmitStatus('idle');
-          setSubmitMessage('');
-        }, 3000);
-      } else {
-        const responseText = await response.text();
-        throw new Error(`Upload failed (${response.status}): ${responseText || response.statusText}`);
       }
-    } catch (error) {
-      console.error('Upload error:', error);
-      setSubmitStatus('error');
-      setSubmitMessage(`❌ Failed to upload document: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`);
+
+      // New messages after reviewing the timeline start a fresh conversation
+      navigate('/');
+      startNewConversation();
+      setChatSession(prev => ({ key: prev.key + 1, messages: [...messages, ...notices] }));
+      setIsSidebarOpen(false);
     } finally {
-      setIsSubmitting(false);
+      setIsLoadingTimeline(false);
     }
   };
 
+  // Accepting switches to the brand, so the chat starts over in it
+  const handleRespondToInvitation = async (invitationId: string, accept: boolean) => {
+    setRespondingInvitationId(invitationId);
+    try {
+      const result = accept ? await acceptInvitation(invitationId) : await declineInvitation(invitationId);
+      if (!result.success) {
+        alert(result.error || 'Could not respond to the invitation. Please try again.');
+      } else if (accept) {
+        navigate('/');
+        setChatSession(prev => ({ key: prev.key + 1, messages: [] }));
+      }
+    } finally {
+      setRespondingInvitationId(null);
+    }
+  };
+
+  // Leaving the active brand moves to another one, like switching brands
+  const handleRemoveMember = async (member: TeamMember) => {
+    const result = await removeMember(member);
+    if (result.success && member.userId === user?.id) {
+      navigate('/');
+      setChatSession(prev => ({ key: prev.key + 1, messages: [] }));
+    }
+    return result;
+  };
+
+  // Several people write in a shared brand, so user messages and conversations show who started them
+  const isSharedBrand = members.length > 1;
+
   const handleLogout = () => {
     logout();
     setShowUserMenu(false);
@@ -259,7 +357,7 @@ function App() {
   };
 
   // Show loading screen while checking authentication
-  if (authLoading) {
+  if (authInitializing) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -315,110 +413,62 @@ function App() {
                 />
               </div>
 
-              {/* History Section */}
+              {/* Journey + History Section */}
               <div className="flex-1 px-6 overflow-y-auto min-h-0">
+                <JourneyProgress
+                  journey={journey}
+                  checkPhaseAccess={checkPhaseAccess}
+                  onDocumentSubmitted={markDocumentSubmitted}
+                  onDeliverableReceived={markDeliverableReceived}
+                  readOnly={!canEdit}
+                />
+
+                <div className="mb-6">
+                  <button
+                    onClick={() => navigate({ name: 'deliverables' })}
+                    className="w-full bg-white/10 hover:bg-white/20 text-white py-3 px-4 rounded-xl font-medium transition-colors flex items-center justify-between"
+                  >
+                    <span className="flex items-center space-x-2">
+                      <Sparkles className="w-5 h-5" />
+                      <span>Deliverables</span>
+                    </span>
+                    <span className="text-sm text-white/70">
+                      {new Set(deliverableVersions.map(version => version.key)).size} saved
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => navigate({ name: 'competitors' })}
+                    className="mt-2 w-full bg-white/10 hover:bg-white/20 text-white py-3 px-4 rounded-xl font-medium transition-colors flex items-center justify-between"
+                  >
+                    <span className="flex items-center space-x-2">
+                      <Target className="w-5 h-5" />
+                      <span>Competitors</span>
+                    </span>
+                    <span className="text-sm text-white/70">
+                      {Math.min(competitors.length, REQUIRED_COMPETITORS)} of {REQUIRED_COMPETITORS}
+                    </span>
+                  </button>
+                </div>
+
                 <div className="flex items-center justify-between mb-6">
                   <h2 className="text-xl font-bold">History</h2>
+                  <button
+                    onClick={handleNewChat}
+                    className="flex items-center space-x-1 px-3 py-2 bg-white text-pink-600 rounded-lg text-sm font-semibold hover:bg-pink-50 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>New chat</span>
+                  </button>
                 </div>
                 
                 {/* Retrieve Chat History Button */}
                 <div className="mb-6">
                   <button
-                    onClick={async () => {
-                      try {
-                        console.log('Calling retrieve chat history webhook...');
-                        const response = await fetch('https://iamfashion.app.n8n.cloud/webhook/511abe15-0332-4bf8-9ed7-bc718465191c', {
-                          method: 'POST',
-                          headers: {
-                            'Content-Type': 'application/json',
-                          },
-                          body: JSON.stringify({
-                            userId: user?.id,
-                            email: user?.email,
-                            timestamp: new Date().toISOString()
-                          }),
-                        });
-                        
-                        if (response.ok) {
-                          // Read response as text first
-                          const responseText = await response.text();
-                          console.log('Raw webhook response:', responseText);
-                          
-                          let messages = [];
-                          
-                          try {
-                            // Try to parse as JSON
-                            const parsedResult = JSON.parse(responseText);
-                            console.log('Parsed JSON response:', parsedResult);
-                            
-                            // Extract messages from various possible structures
-                            if (Array.isArray(parsedResult)) {
-                              messages = parsedResult;
-                            } else if (parsedResult && typeof parsedResult === 'object') {
-                              // Try different possible field names for message arrays
-                              messages = parsedResult.messages || 
-                                       parsedResult.data || 
-                                       parsedResult.history || 
-                                       parsedResult.chat_history || 
-                                       parsedResult.conversations || 
-                                       parsedResult.items ||
-                                       [];
-                              
-                              // If still no messages found, check if the object itself is a message
-                              if (messages.length === 0 && (parsedResult.content || parsedResult.message || parsedResult.text)) {
-                                messages = [parsedResult];
-                              }
-                            }
-                          } catch (parseError) {
-                            console.log('Response is not JSON, treating as text message');
-                            // If it's not JSON, treat the entire response as a single message
-                            if (responseText.trim()) {
-                              messages = [{
-                                content: responseText.trim(),
-                                sender: 'bot',
-                                timestamp: new Date().toISOString()
-                              }];
-                            }
-                          }
-                          
-                          console.log('Extracted messages:', messages);
-                          
-                          // Dispatch custom event to the chat component
-                          const event = new CustomEvent('loadWebhookHistory', {
-                            detail: messages
-                          });
-                          window.dispatchEvent(event);
-                          
-                        } else {
-                          console.error('Failed to retrieve chat history:', response.status, response.statusText);
-                          
-                          // Show error message in chat
-                          const errorEvent = new CustomEvent('loadWebhookHistory', {
-                            detail: [{
-                              content: `Failed to retrieve chat history: ${response.status} ${response.statusText}`,
-                              sender: 'bot',
-                              timestamp: new Date().toISOString()
-                            }]
-                          });
-                          window.dispatchEvent(errorEvent);
-                        }
-                      } catch (error) {
-                        console.error('Error calling retrieve chat history webhook:', error);
-                        
-                        // Show error message in chat
-                        const errorEvent = new CustomEvent('loadWebhookHistory', {
-                          detail: [{
-                            content: `Error retrieving chat history: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                            sender: 'bot',
-                            timestamp: new Date().toISOString()
-                          }]
-                        });
-                        window.dispatchEvent(errorEvent);
-                      }
-                    }}
-                    className="w-full bg-white/20 hover:bg-white/30 text-white py-3 px-4 rounded-xl font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+                    onClick={handleLoadTimeline}
+                    disabled={isLoadingTimeline}
+                    className="w-full bg-white/20 hover:bg-white/30 text-white py-3 px-4 rounded-xl font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-60 disabled:cursor-wait"
                   >
-                    <History className="w-5 h-5" />
+                    {isLoadingTimeline ? <Loader2 className="w-5 h-5 animate-spin" /> : <History className="w-5 h-5" />}
                     <span>Retrieve Chat History</span>
                   </button>
                 </div>
@@ -426,23 +476,42 @@ function App() {
                 {conversations.length > 0 ? (
                   <div className="space-y-3">
                     {conversations.map((chat) => (
-                      <div
-                        key={chat.id}
-                        className="w-full text-left p-4 bg-white/10 rounded-xl"
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1 min-w-0">
-                            <h3 className="font-medium text-white truncate">
-                              {chat.title}
-                            </h3>
-                            <div className="flex items-center mt-2 text-white/70 text-sm">
-                              <Clock className="w-4 h-4 mr-1" />
-                              <span>{formatTime(chat.updatedAt)}</span>
-                              <span className="mx-2">-</span>
-                              <MessageSquare className="w-4 h-4 mr-1" />
-                              <span>{chat.messageCount}</span>
+                      <div key={chat.id} className="relative">
+                        <button
+                          onClick={() => handleSelectConversation(chat.id)}
+                          disabled={loadingConversationId !== null}
+                          className={`w-full text-left p-4 pr-12 rounded-xl transition-colors disabled:cursor-wait ${
+                            chat.id === currentConversationId ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'
+                          }`}
+                        >
+                          <div className="flex items-start justify-between">
+                            <div className="flex-1 min-w-0">
+                              <h3 className="font-medium text-white truncate">
+                                {chat.title}
+                              </h3>
+                              <div className="flex items-center mt-2 text-white/70 text-sm">
+                                <Clock className="w-4 h-4 mr-1" />
+                                <span>{formatTime(chat.updatedAt)}</span>
+                                <span className="mx-2">-</span>
+                                <MessageSquare className="w-4 h-4 mr-1" />
+                                <span>{chat.messageCount}</span>
+                              </div>
+                              {isSharedBrand && getMemberName(chat.createdBy) && (
+                                <div className="mt-1 text-xs text-white/60 truncate">
+                                  by {chat.createdBy === user.id ? 'you' : getMemberName(chat.createdBy)}
+                                </div>
+                              )}
                             </div>
+                            {loadingConversationId === chat.id && (
+                              <Loader2 className="w-4 h-4 animate-spin text-white/80 flex-shrink-0 ml-2" />
+                            )}
                           </div>
+                        </button>
+                        <div className="absolute top-4 right-4">
+                          <ExportMenu
+                            onExport={(format) => handleExportConversation(chat, format)}
+                            buttonClassName="text-white/70 hover:text-white"
+                          />
                         </div>
                       </div>
                     ))}
@@ -473,7 +542,7 @@ function App() {
                     className="flex items-center space-x-3 px-4 py-2 bg-[#0EA5E9] text-white rounded-lg hover:bg-blue-600 transition-colors font-medium text-sm lg:text-base"
                   >
                     <div className="text-right hidden sm:block">
-                      <div className="font-semibold">{user.brandName}</div>
+                      <div className="font-semibold">{activeBrand?.name}</div>
                       <div className="text-xs text-blue-100">{user.firstName} {user.lastName}</div>
                     </div>
                     <div className="w-8 h-8 bg-white text-[#0EA5E9] rounded-full flex items-center justify-center font-bold">
@@ -482,10 +551,56 @@ function App() {
                   </button>
                   
                   {showUserMenu && (
-                    <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50">
+                    <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50">
+                      {/* Brand Switcher */}
+                      <div className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                        Brands
+                      </div>
+                      {brands.map(brand => (
+                        <button
+                          key={brand.id}
+                          onClick={() => handleSelectBrand(brand.id)}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                        >
+                          <Building className="w-4 h-4 mr-2 flex-shrink-0" />
+                          <span className="flex-1 truncate">{brand.name}</span>
+                          {brand.id === activeBrand?.id && <Check className="w-4 h-4 ml-2 text-[#0EA5E9]" />}
+                        </button>
+                      ))}
+                      <form onSubmit={handleCreateBrand} className="px-4 py-2 flex items-center space-x-2">
+                        <input
+                          type="text"
+                          value={newBrandName}
+                          onChange={(e) => setNewBrandName(e.target.value)}
+                          placeholder="New brand"
+                          className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                          disabled={isCreatingBrand}
+                        />
+                        <button
+                          type="submit"
+                          disabled={isCreatingBrand || !newBrandName.trim()}
+                          className="p-1 text-[#0EA5E9] hover:text-blue-600 disabled:opacity-50"
+                          title="Add brand"
+                        >
+                          {isCreatingBrand ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                        </button>
+                      </form>
+                      <div className="border-t border-gray-200 my-1" />
                       <button
                         onClick={() => {
-                          setShowSettingsModal(true);
+                          navigate({ name: 'team' });
+                          setShowUserMenu(false);
+                        }}
+                        disabled={!activeBrand}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center disabled:opacity-50"
+                      >
+                        <Users className="w-4 h-4 mr-2" />
+                        <span className="flex-1">Team</span>
+                        {activeBrand && <span className="text-xs text-gray-500">{BRAND_ROLE_LABELS[activeBrand.role]}</span>}
+                      </button>
+                      <button
+                        onClick={() => {
+                          navigate({ name: 'settings' });
                           setShowUserMenu(false);
                         }}
                         className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
@@ -505,17 +620,77 @@ function App() {
                 </div>
               </div>
 
+              {/* Email link notices, e.g. one of the two email-change confirmations */}
+              {authLinkMessage && (
+                <div className="bg-blue-50 border-b border-blue-200 px-4 lg:px-8 py-3 text-sm text-blue-800 flex items-center justify-between">
+                  <span>{authLinkMessage}</span>
+                  <button type="button" onClick={clearAuthLinkMessage} className="ml-3 text-blue-400 hover:text-blue-600">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+
+              {/* Invitations to other brands */}
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="bg-green-50 border-b border-green-200 px-4 lg:px-8 py-3 text-sm text-green-800 flex items-center">
+                  <Mail className="w-4 h-4 mr-2 flex-shrink-0" />
+                  <span className="flex-1">
+                    {invitation.invitedByName} invited you to <strong>{invitation.brandName}</strong> as {BRAND_ROLE_LABELS[invitation.role].toLowerCase()}.
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRespondToInvitation(invitation.id, true)}
+                    disabled={respondingInvitationId !== null}
+                    className="ml-3 px-3 py-1 bg-[#0EA5E9] text-white rounded-lg font-semibold hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRespondToInvitation(invitation.id, false)}
+                    disabled={respondingInvitationId !== null}
+                    className="ml-2 text-green-700 hover:text-green-900 underline disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              ))}
+
               {/* Chat Area */}
               <div className="flex-1 overflow-hidden">
                 <div className="p-4 lg:p-8 h-full">
                   <div className="max-w-4xl mx-auto h-full">
-                    <IntegratedChat 
-                      userId={user?.id || userId} 
-                      userName={user ? `${user.firstName} ${user.lastName}` : undefined}
-                      brandName={user?.brandName}
-                      onLoadHistory={handleLoadAllHistory}
-                      onLoadN8NHistory={handleLoadN8NHistory}
-                    />
+                    {route.name === 'not-found' || isConversationMissing ? (
+                      <NotFoundPage
+                        title={isConversationMissing ? 'Conversation not found' : 'Page not found'}
+                        message={isConversationMissing
+                          ? 'This conversation does not exist, or it belongs to a brand you are not a member of.'
+                          : 'There is nothing at this address.'}
+                        onBack={() => navigate('/')}
+                      />
+                    ) : (
+                      <IntegratedChat 
+                        key={chatSession.key}
+                        userId={user?.id || userId} 
+                        sessionId={currentSessionId}
+                        userName={user ? `${user.firstName} ${user.lastName}` : undefined}
+                        brandName={activeBrand?.name}
+                        brandId={activeBrand?.id}
+                        initialMessages={chatSession.messages}
+                        initialActiveMessageId={chatSession.activeMessageId}
+                        onBranchChange={setActiveMessage}
+                        onMessage={persistMessage}
+                        onAgentEnvelope={handleAgentEnvelope}
+                        onExportMessage={handleExportMessage}
+                        onDocumentProcessed={(documentType) => documentType !== 'other' && recordProgress([documentType])}
+                        checkDocumentAccess={checkDocumentAccess}
+                        resolveCompetitors={journey.currentPhase === 'market_positioning' ? buildCompetitorPayload : undefined}
+                        readOnly={!canEdit}
+                        getAuthorName={isSharedBrand ? getMemberName : undefined}
+                        isLibraryOpen={route.name === 'documents'}
+                        onLibraryOpenChange={(isOpen) => navigate(isOpen ? { name: 'documents' } : chatRoute)}
+                      />
+                    )}
                   </div>
                 </div>
               </div>
@@ -539,6 +714,21 @@ function App() {
                 <div className="text-center mb-8">
                   <h1 className="text-4xl font-bold text-gray-900 mb-2">Login</h1>
                 </div>
+
+                {authLinkMessage && (
+                  <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-xl text-blue-800 flex items-start justify-between">
+                    <span>{authLinkMessage}</span>
+                    <button type="button" onClick={clearAuthLinkMessage} className="ml-3 text-blue-400 hover:text-blue-600">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
+                {sessionEnded && (
+                  <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-800">
+                    {SESSION_END_MESSAGES[sessionEnded.reason]}
+                  </div>
+                )}
                 
                 <form className="space-y-6" onSubmit={async (e) => {
                   e.preventDefault();
@@ -548,7 +738,8 @@ function App() {
                   
                   if (email && password) {
                     const result = await login({ email, password });
-                    if (!result.success && result.error) {
+                    // The confirmation prompt explains this one
+                    if (!result.success && result.error && !result.needsVerification) {
                       alert(result.error);
                     }
                   }
@@ -558,8 +749,10 @@ function App() {
                       User email
                     </label>
                     <input
+                      key={sessionEnded?.email}
                       type="email"
                       name="email"
+                      defaultValue={sessionEnded?.email}
                       placeholder="user@example.com"
                       className="w-full px-4 py-4 text-lg border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
                       required
@@ -601,7 +794,7 @@ function App() {
                 <div className="mt-4 text-center">
                   <button
                     type="button"
-                    onClick={() => setShowForgotPasswordModal(true)}
+                    onClick={() => navigate({ name: 'forgot-password' })}
                     className="text-sm text-gray-600 hover:text-[#0EA5E9] transition-colors underline"
                   >
                     Forgot password?
@@ -615,7 +808,7 @@ function App() {
                   </p>
                   <button
                     type="button"
-                    onClick={() => setShowLoginModal(true)}
+                    onClick={() => navigate({ name: 'signup' })}
                     className="text-[#0EA5E9] hover:text-blue-600 font-medium text-lg underline transition-colors"
                   >
                     Sign Up
@@ -628,259 +821,86 @@ function App() {
 
       {/* Login Modal */}
       <LoginModal 
-        isOpen={showLoginModal} 
-        onClose={() => setShowLoginModal(false)} 
+        isOpen={route.name === 'signup'} 
+        onClose={() => navigate({ name: 'login' })} 
+        initialMode="signup"
       />
 
       {/* User Settings Modal */}
       <UserSettingsModal 
-        isOpen={showSettingsModal} 
-        onClose={() => setShowSettingsModal(false)} 
+        isOpen={route.name === 'settings'} 
+        onClose={() => navigate(chatRoute)} 
       />
 
       {/* Forgot Password Modal */}
       <ForgotPasswordModal 
-        isOpen={showForgotPasswordModal} 
-        onClose={() => setShowForgotPasswordModal(false)} 
+        isOpen={route.name === 'forgot-password' || !!authLinkError} 
+        onClose={() => {
+          clearAuthLinkError();
+          if (route.name === 'forgot-password') navigate({ name: 'login' });
+        }}
+        linkError={authLinkError}
       />
 
-      {/* Upload Form Modal */}
-      {showUploadForm && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
-            <div className="p-6">
-              <div className="flex items-center justify-between mb-6">
-                <h2 className="text-2xl font-bold text-gray-900">Upload Document</h2>
-                <button
-                  onClick={() => setShowUploadForm(false)}
-                  className="text-gray-400 hover:text-gray-600 transition-colors"
-                >
-                  <X className="w-6 h-6" />
-                </button>
-              </div>
-
-              {submitStatus === 'success' && (
-                <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-xl">
-                  <CheckCircle className="w-5 h-5 text-green-600 mr-3" />
-                  <div>
-                    <div className="text-green-800 font-semibold">Upload Successful!</div>
-                    <div className="text-green-700 text-sm mt-1">{submitMessage}</div>
-                  </div>
-                </div>
-              )}
-
-              {submitStatus === 'error' && (
-                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
-                  <AlertCircle className="w-5 h-5 text-red-600 mr-3" />
-                  <div>
-                    <div className="text-red-800 font-semibold">Upload Failed</div>
-                    <div className="text-red-700 text-sm mt-1">{submitMessage}</div>
-                  </div>
-                </div>
-              )}
-
-              <form onSubmit={handleSubmit} className="space-y-4">
-                {/* First Name */}
-                <div>
-                  <label htmlFor="firstName" className="block text-sm font-semibold text-gray-700 mb-2">
-                    First Name
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <User className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <input
-                      type="text"
-                      id="firstName"
-                      name="firstName"
-                      value={user?.firstName || formData.firstName}
-                      onChange={handleInputChange}
-                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200 ${
-                        errors.firstName ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-gray-400'
-                      }`}
-                      placeholder="Enter your first name"
-                      disabled={!!user}
-                    />
-                  </div>
-                  {errors.firstName && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.firstName}
-                    </p>
-                  )}
-                </div>
-
-                {/* Last Name */}
-                <div>
-                  <label htmlFor="lastName" className="block text-sm font-semibold text-gray-700 mb-2">
-                    Last Name
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <User className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <input
-                      type="text"
-                      id="lastName"
-                      name="lastName"
-                      value={user?.lastName || formData.lastName}
-                      onChange={handleInputChange}
-                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200 ${
-                        errors.lastName ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-gray-400'
-                      }`}
-                      placeholder="Enter your last name"
-                      disabled={!!user}
-                    />
-                  </div>
-                  {errors.lastName && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.lastName}
-                    </p>
-                  )}
-                </div>
+      {/* Set New Password, after following a reset link */}
+      <ResetPasswordModal
+        isOpen={isPasswordRecovery}
+        email={user?.email}
+        onSubmit={completePasswordReset}
+        onCancel={cancelPasswordRecovery}
+        onRequestNewLink={async () => {
+          await cancelPasswordRecovery();
+          navigate({ name: 'forgot-password' });
+        }}
+      />
 
-                {/* Brand Name */}
-                <div>
-                  <label htmlFor="brandName" className="block text-sm font-semibold text-gray-700 mb-2">
-                    Brand Name
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <User className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <input
-                      type="text"
-                      id="brandName"
-                      name="brandName"
-                      value={user?.brandName || formData.brandName}
-                      onChange={handleInputChange}
-                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200 ${
-                        errors.brandName ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-gray-400'
-                      }`}
-                      placeholder="Enter your brand name"
-                      disabled={!!user}
-                    />
-                  </div>
-                  {errors.brandName && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.brandName}
-                    </p>
-                  )}
-                </div>
+      {/* Confirm Email, after signing up or logging in unverified */}
+      <VerifyEmailModal
+        email={pendingVerification?.email ?? null}
+        sentAt={pendingVerification?.sentAt}
+        onResend={resendVerification}
+        onBackToLogin={dismissVerification}
+      />
 
-                {/* Email */}
-                <div>
-                  <label htmlFor="email" className="block text-sm font-semibold text-gray-700 mb-2">
-                    Email Address
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Mail className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <input
-                      type="email"
-                      id="email"
-                      name="email"
-                      value={user?.email || formData.email}
-                      onChange={handleInputChange}
-                      className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200 ${
-                        errors.email ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-gray-400'
-                      }`}
-                      placeholder="Enter your email address"
-                      disabled={!!user}
-                    />
-                  </div>
-                  {errors.email && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.email}
-                    </p>
-                  )}
-                </div>
+      {/* Deliverables Library */}
+      <DeliverablesView
+        isOpen={route.name === 'deliverables'}
+        onClose={() => navigate(chatRoute)}
+        versions={deliverableVersions}
+        isLoading={deliverablesLoading}
+        onOpenConversation={handleSelectConversation}
+        onExport={handleExportDeliverable}
+      />
 
-                {/* File Upload */}
-                <div>
-                  <label htmlFor="file-upload" className="block text-sm font-semibold text-gray-700 mb-2">
-                    PDF Document
-                  </label>
-                  <div className={`relative border-2 border-dashed rounded-xl p-6 transition-all duration-200 ${
-                    errors.file ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-gray-400'
-                  }`}>
-                    <div className="text-center">
-                      <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-                      <div className="flex text-sm text-gray-600">
-                        <label
-                          htmlFor="file-upload"
-                          className="relative cursor-pointer bg-white rounded-md font-medium text-[#0EA5E9] hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-[#0EA5E9]"
-                        >
-                          <span>Upload a PDF file</span>
-                          <input
-                            id="file-upload"
-                            name="file-upload"
-                            type="file"
-                            accept=".pdf"
-                            onChange={handleFileChange}
-                            className="sr-only"
-                          />
-                        </label>
-                        <p className="pl-1">or drag and drop</p>
-                      </div>
-                      <p className="text-xs text-gray-500 mt-2">PDF up to 10MB</p>
-                    </div>
-                    {formData.file && (
-                      <div className="mt-4 flex items-center justify-center p-2 bg-blue-50 rounded-lg">
-                        <FileText className="h-5 w-5 text-[#0EA5E9] mr-2" />
-                        <div className="text-sm text-blue-700">
-                          <div className="font-medium">{formData.file.name}</div>
-                          <div className="text-xs text-blue-600 mt-1">
-                            Size: {(formData.file.size / 1024 / 1024).toFixed(2)} MB
-                          </div>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                  {errors.file && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.file}
-                    </p>
-                  )}
-                </div>
+      {/* Phase 3 competitors */}
+      <CompetitorEditor
+        isOpen={route.name === 'competitors'}
+        competitors={competitors}
+        onClose={() => navigate(chatRoute)}
+        onAdd={handleAddCompetitor}
+        onUpdate={updateCompetitor}
+        onDelete={deleteCompetitor}
+        onAddAssets={addCompetitorAssets}
+        onRemoveAsset={removeCompetitorAsset}
+        onOpenAsset={getCompetitorAssetUrl}
+        readOnly={!canEdit}
+      />
 
-                {/* Submit Buttons */}
-                <div className="flex space-x-3 pt-4">
-                  <button
-                    type="submit"
-                    disabled={isSubmitting}
-                    className="flex-1 bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                        Uploading...
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="w-5 h-5 mr-2" />
-                        Upload Document
-                      </>
-                    )}
-                  </button>
-                  
-                  <button
-                    type="button"
-                    onClick={() => setShowUploadForm(false)}
-                    className="px-6 py-3 border border-gray-300 rounded-xl font-semibold text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-all duration-200"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </form>
-            </div>
-          </div>
-        </div>
+      {/* Brand team and invitations */}
+      {user && (
+        <TeamModal
+          isOpen={route.name === 'team'}
+          onClose={() => navigate(chatRoute)}
+          brandName={activeBrand?.name || ''}
+          currentUserId={user.id}
+          isOwner={isOwner}
+          members={members}
+          pendingInvitations={pendingInvitations}
+          onInvite={inviteMember}
+          onRevoke={revokeInvitation}
+          onChangeRole={updateMemberRole}
+          onRemove={handleRemoveMember}
+        />
       )}
       </div>
     </>
@@ -0,0 +1,97 @@
+import { Info, CheckCircle, AlertTriangle, Sparkles } from 'lucide-react';
+import MessageContent from './MessageContent';
+import { AgentBlock, AgentError } from '../lib/agentResponse';
+
+interface AgentBlocksProps {
+  blocks?: AgentBlock[];
+  error?: AgentError;
+}
+
+const calloutStyles = {
+  info: { className: 'bg-blue-50 border-blue-200 text-blue-800', Icon: Info },
+  success: { className: 'bg-green-50 border-green-200 text-green-800', Icon: CheckCircle },
+  warning: { className: 'bg-amber-50 border-amber-200 text-amber-800', Icon: AlertTriangle },
+};
+
+export default function AgentBlocks({ blocks = [], error }: AgentBlocksProps) {
+  if (blocks.length === 0 && !error) return null;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'table':
+            return (
+              <div key={index} className="overflow-x-auto">
+                {block.title && <h4 className="font-semibold text-gray-900 mb-2">{block.title}</h4>}
+                <table className="min-w-full text-sm border border-gray-200 rounded-lg">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {block.columns.map((column, columnIndex) => (
+                        <th key={columnIndex} className="px-3 py-2 text-left font-semibold text-gray-700 border-b border-gray-200">
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {block.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="even:bg-gray-50">
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="px-3 py-2 text-gray-800 border-b border-gray-100 align-top">
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          case 'list':
+            return (
+              <div key={index}>
+                {block.title && <h4 className="font-semibold text-gray-900 mb-2">{block.title}</h4>}
+                <ul className="space-y-1">
+                  {block.items.map((item, itemIndex) => (
+                    <li key={itemIndex} className="flex items-start">
+                      <span className="text-gray-600 mr-2 mt-1 flex-shrink-0">•</span>
+                      <span className="flex-1 leading-relaxed text-gray-800">{item}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          case 'callout': {
+            const { className, Icon } = calloutStyles[block.tone];
+            return (
+              <div key={index} className={`p-3 border rounded-lg flex items-start ${className}`}>
+                <Icon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>{block.text}</span>
+              </div>
+            );
+          }
+          case 'deliverable':
+            return (
+              <div key={index} className="p-4 border border-pink-200 bg-pink-50/50 rounded-lg">
+                <div className="flex items-center mb-2 text-pink-700 font-semibold">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  {block.title}
+                </div>
+                <MessageContent content={block.markdown} sender="bot" />
+              </div>
+            );
+          default:
+            return null;
+        }
+      })}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error.message}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { Edit3, Plus, Send, X, Trash2 } from 'lucide-react';
+import { BenchmarkTable as BenchmarkTableData } from '../lib/competitors';
+
+interface BenchmarkTableProps {
+  table: BenchmarkTableData;
+  // Corrections are sent back to the agent as a new message
+  onResubmit?: (table: BenchmarkTableData) => void;
+  disabled?: boolean;
+}
+
+// The Competitor Benchmark with one column per competitor, editable in place
+export default function BenchmarkTable({ table, onResubmit, disabled }: BenchmarkTableProps) {
+  const [draft, setDraft] = useState<BenchmarkTableData>(table);
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Callers parse the table from the reply on every render, so compare by value
+  const tableKey = JSON.stringify(table);
+  useEffect(() => {
+    setDraft(table);
+  }, [tableKey]);
+
+  const updateCell = (rowIndex: number, cellIndex: number, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      rows: prev.rows.map((row, i) => i === rowIndex
+        ? prev.columns.map((_, j) => j === cellIndex ? value : row[j] || '')
+        : row),
+    }));
+  };
+
+  const addRow = () => {
+    setDraft(prev => ({ ...prev, rows: [...prev.rows, prev.columns.map(() => '')] }));
+  };
+
+  const removeRow = (rowIndex: number) => {
+    setDraft(prev => ({ ...prev, rows: prev.rows.filter((_, i) => i !== rowIndex) }));
+  };
+
+  const handleCancel = () => {
+    setDraft(table);
+    setIsEditing(false);
+  };
+
+  const handleResubmit = () => {
+    onResubmit?.({
+      columns: draft.columns,
+      rows: draft.rows.filter(row => row.some(cell => cell.trim())),
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-gray-900">Competitor Benchmark</h4>
+        {onResubmit && !isEditing && (
+          <button
+            type="button"
+            onClick={() => setIsEditing(true)}
+            disabled={disabled}
+            className="flex items-center text-xs text-[#0EA5E9] hover:text-blue-600 disabled:opacity-50"
+          >
+            <Edit3 className="w-3 h-3 mr-1" />
+            Edit
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              {draft.columns.map((column, columnIndex) => (
+                <th key={columnIndex} className="px-3 py-2 text-left font-semibold text-gray-700 border-b border-gray-200">
+                  {column}
+                </th>
+              ))}
+              {isEditing && <th className="border-b border-gray-200" />}
+            </tr>
+          </thead>
+          <tbody>
+            {draft.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="even:bg-gray-50">
+                {draft.columns.map((_, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className={`px-3 py-2 text-gray-800 border-b border-gray-100 align-top ${cellIndex === 0 ? 'font-medium' : ''}`}
+                  >
+                    {isEditing ? (
+                      <textarea
+                        value={row[cellIndex] || ''}
+                        onChange={(e) => updateCell(rowIndex, cellIndex, e.target.value)}
+                        rows={2}
+                        className="w-full min-w-[8rem] border border-gray-300 rounded-md px-2 py-1 text-sm resize-y focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                      />
+                    ) : (
+                      row[cellIndex]
+                    )}
+                  </td>
+                ))}
+                {isEditing && (
+                  <td className="px-2 py-2 border-b border-gray-100 align-top">
+                    <button
+                      type="button"
+                      onClick={() => removeRow(rowIndex)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove row"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isEditing && (
+        <div className="flex items-center justify-between mt-3">
+          <button
+            type="button"
+            onClick={addRow}
+            className="flex items-center text-sm text-gray-600 hover:text-[#0EA5E9]"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add criterion
+          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleResubmit}
+              disabled={disabled}
+              className="flex items-center px-3 py-2 bg-[#0EA5E9] text-white rounded-lg text-sm font-semibold hover:bg-blue-600 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4 mr-1" />
+              Send corrections
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
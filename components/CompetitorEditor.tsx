@@ -0,0 +1,398 @@
+import { useState, useRef } from 'react';
+import { X, Target, Plus, Trash2, Upload, Loader2, Image, FileText, CheckCircle } from 'lucide-react';
+import {
+  CHANNEL_OPTIONS,
+  Competitor,
+  CompetitorAsset,
+  CompetitorDraft,
+  EMPTY_COMPETITOR,
+  PRICE_POSITIONING_OPTIONS,
+  PricePositioning,
+  REQUIRED_COMPETITORS,
+} from '../lib/competitors';
+
+interface CompetitorEditorProps {
+  isOpen: boolean;
+  competitors: Competitor[];
+  onClose: () => void;
+  onAdd: (draft: CompetitorDraft) => Promise<Competitor | null>;
+  onUpdate: (id: string, draft: CompetitorDraft) => Promise<Competitor | null>;
+  onDelete: (competitor: Competitor) => Promise<boolean>;
+  onAddAssets: (competitor: Competitor, files: File[]) => Promise<Competitor | null>;
+  onRemoveAsset: (competitor: Competitor, asset: CompetitorAsset) => Promise<Competitor | null>;
+  onOpenAsset: (asset: CompetitorAsset) => Promise<string | null>;
+  // Viewers of the brand can look but not change anything
+  readOnly?: boolean;
+}
+
+const ASSET_ACCEPT = 'image/*,.pdf';
+
+const toDraft = (competitor: Competitor): CompetitorDraft => ({
+  name: competitor.name,
+  website: competitor.website,
+  pricePositioning: competitor.pricePositioning,
+  targetCustomer: competitor.targetCustomer,
+  channels: competitor.channels,
+  notes: competitor.notes,
+});
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]';
+
+interface CompetitorCardProps {
+  competitor?: Competitor;
+  index: number;
+  onSave: (draft: CompetitorDraft) => Promise<Competitor | null>;
+  onDelete: () => void;
+  onAddAssets?: (files: File[]) => Promise<void>;
+  onRemoveAsset?: (asset: CompetitorAsset) => Promise<void>;
+  onOpenAsset: (asset: CompetitorAsset) => void;
+  readOnly?: boolean;
+}
+
+function CompetitorCard({ competitor, index, onSave, onDelete, onAddAssets, onRemoveAsset, onOpenAsset, readOnly = false }: CompetitorCardProps) {
+  const [draft, setDraft] = useState<CompetitorDraft>(competitor ? toDraft(competitor) : EMPTY_COMPETITOR);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+  const assetInputRef = useRef<HTMLInputElement>(null);
+
+  const isDirty = !competitor || JSON.stringify(draft) !== JSON.stringify(toDraft(competitor));
+
+  const update = <K extends keyof CompetitorDraft>(field: K, value: CompetitorDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleChannel = (channel: string) => {
+    update('channels', draft.channels.includes(channel)
+      ? draft.channels.filter(existing => existing !== channel)
+      : [...draft.channels, channel]);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      setError('Competitor name is required');
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+    const saved = await onSave(draft);
+    setIsSaving(false);
+    if (saved) {
+      // Pick up the stored values, e.g. the website with its scheme added
+      setDraft(toDraft(saved));
+    } else {
+      setError('Could not save this competitor. Please try again.');
+    }
+  };
+
+  const handleAssetSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (!onAddAssets || files.length === 0) return;
+
+    setIsUploading(true);
+    await onAddAssets(files);
+    setIsUploading(false);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900">
+          {competitor?.name || `Competitor ${index + 1}`}
+        </h3>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={onDelete}
+            className="text-gray-400 hover:text-red-600 transition-colors"
+            title="Remove competitor"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <fieldset disabled={readOnly}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Name *</span>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => update('name', e.target.value)}
+              className={inputClass}
+              placeholder="Brand name"
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Website</span>
+            <input
+              type="text"
+              value={draft.website}
+              onChange={(e) => update('website', e.target.value)}
+              className={inputClass}
+              placeholder="competitor.com"
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Price positioning</span>
+            <select
+              value={draft.pricePositioning || ''}
+              onChange={(e) => update('pricePositioning', (e.target.value || null) as PricePositioning | null)}
+              className={inputClass}
+            >
+              <option value="">Not sure</option>
+              {PRICE_POSITIONING_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Target customer</span>
+            <input
+              type="text"
+              value={draft.targetCustomer}
+              onChange={(e) => update('targetCustomer', e.target.value)}
+              className={inputClass}
+              placeholder="Who they sell to"
+            />
+          </label>
+        </div>
+
+        <div className="mt-4">
+          <span className="block text-sm font-medium text-gray-700 mb-2">Channels</span>
+          <div className="flex flex-wrap gap-2">
+            {CHANNEL_OPTIONS.map(option => {
+              const selected = draft.channels.includes(option.value);
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => toggleChannel(option.value)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                    selected
+                      ? 'bg-[#0EA5E9] border-[#0EA5E9] text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <label className="block mt-4">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Notes</span>
+          <textarea
+            value={draft.notes}
+            onChange={(e) => update('notes', e.target.value)}
+            rows={3}
+            className={`${inputClass} resize-none`}
+            placeholder="What they do well, where they fall short, why customers pick them"
+          />
+        </label>
+      </fieldset>
+
+      {/* Screenshots and lookbooks */}
+      <div className="mt-4">
+        <span className="block text-sm font-medium text-gray-700 mb-2">Screenshots & lookbooks</span>
+        {competitor ? (
+          <>
+            {competitor.assets.length > 0 && (
+              <ul className="space-y-1 mb-2">
+                {competitor.assets.map(asset => (
+                  <li key={asset.storagePath} className="flex items-center justify-between text-sm">
+                    <button
+                      type="button"
+                      onClick={() => onOpenAsset(asset)}
+                      className="flex items-center min-w-0 text-gray-700 hover:text-[#0EA5E9]"
+                    >
+                      {asset.mimeType.startsWith('image/')
+                        ? <Image className="w-4 h-4 mr-2 flex-shrink-0" />
+                        : <FileText className="w-4 h-4 mr-2 flex-shrink-0" />}
+                      <span className="truncate">{asset.fileName}</span>
+                    </button>
+                    {!readOnly && (
+                      <button
+                        type="button"
+                        onClick={() => onRemoveAsset?.(asset)}
+                        className="text-gray-400 hover:text-red-600 ml-2"
+                        title="Remove file"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!readOnly && (
+              <>
+                <input
+                  ref={assetInputRef}
+                  type="file"
+                  multiple
+                  accept={ASSET_ACCEPT}
+                  onChange={handleAssetSelect}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => assetInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="flex items-center text-sm text-[#0EA5E9] hover:text-blue-600 disabled:opacity-50"
+                >
+                  {isUploading
+                    ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    : <Upload className="w-4 h-4 mr-1" />}
+                  {isUploading ? 'Uploading...' : 'Upload images or PDFs'}
+                </button>
+              </>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">Save the competitor first to upload files.</p>
+        )}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {isDirty && !readOnly && (
+        <div className="flex justify-end mt-4">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-[#0EA5E9] text-white py-2 px-4 rounded-xl text-sm font-semibold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save competitor
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CompetitorEditor({
+  isOpen,
+  competitors,
+  onClose,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onAddAssets,
+  onRemoveAsset,
+  onOpenAsset,
+  readOnly = false,
+}: CompetitorEditorProps) {
+  // Unsaved cards, keyed so React keeps their state apart
+  const [newCards, setNewCards] = useState<number[]>([]);
+  const nextCardRef = useRef(0);
+
+  if (!isOpen) return null;
+
+  const addCard = () => {
+    setNewCards(prev => [...prev, nextCardRef.current++]);
+  };
+
+  const removeCard = (key: number) => {
+    setNewCards(prev => prev.filter(existing => existing !== key));
+  };
+
+  const handleDelete = async (competitor: Competitor) => {
+    if (!confirm(`Remove ${competitor.name} and its files?`)) return;
+    await onDelete(competitor);
+  };
+
+  const handleOpenAsset = async (asset: CompetitorAsset) => {
+    const url = await onOpenAsset(asset);
+    if (url) window.open(url, '_blank', 'noopener');
+  };
+
+  const isComplete = competitors.length >= REQUIRED_COMPETITORS;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Target className="w-6 h-6 mr-2 text-[#0EA5E9]" />
+              Competitors
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-6 flex items-center">
+            {isComplete && <CheckCircle className="w-4 h-4 mr-1 text-green-500" />}
+            {Math.min(competitors.length, REQUIRED_COMPETITORS)} of {REQUIRED_COMPETITORS} competitors added.
+            {' '}They are sent to the agent when Phase 3 starts.
+          </p>
+
+          <div className="space-y-4">
+            {competitors.map((competitor, index) => (
+              <CompetitorCard
+                key={competitor.id}
+                competitor={competitor}
+                index={index}
+                onSave={(draft) => onUpdate(competitor.id, draft)}
+                onDelete={() => handleDelete(competitor)}
+                onAddAssets={async (files) => { await onAddAssets(competitor, files); }}
+                onRemoveAsset={async (asset) => { await onRemoveAsset(competitor, asset); }}
+                onOpenAsset={handleOpenAsset}
+                readOnly={readOnly}
+              />
+            ))}
+            {newCards.map((key, index) => (
+              <CompetitorCard
+                key={`new-${key}`}
+                index={competitors.length + index}
+                onSave={async (draft) => {
+                  const added = await onAdd(draft);
+                  if (added) removeCard(key);
+                  return added;
+                }}
+                onDelete={() => removeCard(key)}
+                onOpenAsset={handleOpenAsset}
+              />
+            ))}
+          </div>
+
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={addCard}
+              className="mt-4 w-full border-2 border-dashed border-gray-300 rounded-xl py-3 text-sm font-medium text-gray-600 hover:border-[#0EA5E9] hover:text-[#0EA5E9] transition-colors flex items-center justify-center"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add competitor
+            </button>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 transition-all duration-200"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
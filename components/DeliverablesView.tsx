@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { X, Sparkles, ChevronDown, ChevronRight, Clock, MessageSquare, Loader2 } from 'lucide-react';
+import MessageContent from './MessageContent';
+import ExportMenu from './ExportMenu';
+import { DeliverableKey } from '../lib/journey';
+import { DeliverableHistory, DeliverableVersion, groupDeliverablesByPhase } from '../lib/deliverables';
+import { ExportFormat } from '../lib/exportDocument';
+
+interface DeliverablesViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  versions: DeliverableVersion[];
+  isLoading?: boolean;
+  onOpenConversation: (conversationId: string) => void;
+  onExport: (version: DeliverableVersion, format: ExportFormat) => Promise<void>;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function DeliverablesView({ isOpen, onClose, versions, isLoading = false, onOpenConversation, onExport }: DeliverablesViewProps) {
+  const [expandedKey, setExpandedKey] = useState<DeliverableKey | null>(null);
+  // Version shown per deliverable; the latest one unless the user picked another
+  const [selectedVersions, setSelectedVersions] = useState<Partial<Record<DeliverableKey, string>>>({});
+
+  if (!isOpen) return null;
+
+  const phases = groupDeliverablesByPhase(versions);
+
+  const renderDeliverable = (deliverable: DeliverableHistory) => {
+    const [latest] = deliverable.versions;
+    const isExpanded = expandedKey === deliverable.key;
+    const shown = deliverable.versions.find(version => version.id === selectedVersions[deliverable.key]) || latest;
+
+    if (!latest) {
+      return (
+        <div key={deliverable.key} className="px-4 py-3 rounded-xl border border-dashed border-gray-200 text-gray-400 flex items-center justify-between">
+          <span>{deliverable.label}</span>
+          <span className="text-xs">Not produced yet</span>
+        </div>
+      );
+    }
+
+    return (
+      <div key={deliverable.key} className="rounded-xl border border-gray-200">
+        <button
+          onClick={() => setExpandedKey(isExpanded ? null : deliverable.key)}
+          className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex items-center min-w-0">
+            {isExpanded ? <ChevronDown className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />}
+            <span className="font-medium text-gray-900 truncate">{deliverable.label}</span>
+          </div>
+          <div className="flex items-center text-xs text-gray-500 flex-shrink-0 ml-3">
+            <span className="px-2 py-0.5 bg-pink-100 text-pink-700 rounded-full font-semibold mr-2">v{latest.version}</span>
+            <Clock className="w-3 h-3 mr-1" />
+            <span>{formatDate(latest.createdAt)}</span>
+          </div>
+        </button>
+
+        {isExpanded && shown && (
+          <div className="border-t border-gray-200 p-4 bg-gray-50/50">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {deliverable.versions.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedVersions(prev => ({ ...prev, [deliverable.key]: version.id }))}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                    version.id === shown.id ? 'bg-[#0EA5E9] text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+                  }`}
+                  title={formatDate(version.createdAt)}
+                >
+                  v{version.version}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between mb-3 text-xs text-gray-500">
+              <span>
+                Version {shown.version} · {formatDate(shown.createdAt)}
+                {shown.source === 'detected' && ' · Detected in chat'}
+              </span>
+              <div className="flex items-center space-x-4">
+                {shown.conversationId && (
+                  <button
+                    onClick={() => onOpenConversation(shown.conversationId!)}
+                    className="flex items-center text-[#0EA5E9] hover:text-blue-700 font-medium"
+                  >
+                    <MessageSquare className="w-3 h-3 mr-1" />
+                    Open conversation
+                  </button>
+                )}
+                <ExportMenu
+                  onExport={(format) => onExport(shown, format)}
+                  label="Export"
+                  buttonClassName="text-[#0EA5E9] hover:text-blue-700 font-medium"
+                />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <MessageContent content={shown.content} sender="bot" />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Sparkles className="w-6 h-6 mr-2 text-pink-500" />
+              Deliverables
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <Loader2 className="w-6 h-6 animate-spin mr-2" />
+              Loading deliverables...
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {phases.map(({ phase, deliverables }) => (
+                <div key={phase.id}>
+                  <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+                    Phase {phase.number} — {phase.title}
+                  </h3>
+                  <div className="space-y-2">
+                    {deliverables.map(renderDeliverable)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
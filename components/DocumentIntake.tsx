@@ -0,0 +1,218 @@
+import { useState, useRef } from 'react';
+import { X, Upload, FileText, Loader2, CheckCircle, AlertCircle, RotateCcw, Ban, Trash2, Clock } from 'lucide-react';
+import { DocumentType, DOCUMENT_TYPE_OPTIONS } from '../lib/documentLibrary';
+import { IntakeItem, INTAKE_STATUS_LABELS, ACTIVE_INTAKE_STATUSES, UPLOAD_ACCEPT } from '../lib/documentIntake';
+
+interface DocumentIntakeProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: IntakeItem[];
+  onAddFiles: (files: File[]) => void;
+  onSetDocumentType: (id: string, documentType: DocumentType) => void;
+  onStartAll: () => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusStyles: Record<IntakeItem['status'], string> = {
+  ready: 'bg-gray-100 text-gray-600',
+  queued: 'bg-gray-100 text-gray-600',
+  uploading: 'bg-blue-100 text-blue-700',
+  processing: 'bg-blue-100 text-blue-700',
+  processed: 'bg-green-100 text-green-700',
+  accepted: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const StatusIcon = ({ status }: { status: IntakeItem['status'] }) => {
+  switch (status) {
+    case 'uploading':
+    case 'processing':
+      return <Loader2 className="w-3 h-3 mr-1 animate-spin" />;
+    case 'processed':
+      return <CheckCircle className="w-3 h-3 mr-1" />;
+    case 'accepted':
+    case 'queued':
+      return <Clock className="w-3 h-3 mr-1" />;
+    case 'failed':
+      return <AlertCircle className="w-3 h-3 mr-1" />;
+    default:
+      return null;
+  }
+};
+
+export default function DocumentIntake({
+  isOpen,
+  onClose,
+  items,
+  onAddFiles,
+  onSetDocumentType,
+  onStartAll,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+}: DocumentIntakeProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const readyCount = items.filter(item => item.status === 'ready').length;
+  const hasFinished = items.some(item => item.status !== 'ready' && !ACTIVE_INTAKE_STATUSES.includes(item.status));
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">Upload Documents</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Drop Zone */}
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-xl p-6 text-center transition-all duration-200 ${
+              isDragging ? 'border-[#0EA5E9] bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+            }`}
+          >
+            <Upload className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+            <div className="text-sm text-gray-600">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="font-medium text-[#0EA5E9] hover:text-blue-500"
+              >
+                Choose files
+              </button>
+              <span className="pl-1">or drag and drop</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">PDF, Word, CSV, text or images, up to 10MB each</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={UPLOAD_ACCEPT}
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+
+          {/* Files */}
+          {items.length > 0 && (
+            <div className="mt-6 space-y-2">
+              {items.map(item => (
+                <div key={item.id} className="p-3 border border-gray-200 rounded-xl">
+                  <div className="flex items-center gap-3">
+                    <FileText className="w-5 h-5 text-[#0EA5E9] flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{item.file.name}</div>
+                      <div className="text-xs text-gray-500">{(item.file.size / 1024 / 1024).toFixed(2)} MB</div>
+                    </div>
+
+                    {item.status === 'ready' ? (
+                      <select
+                        value={item.documentType}
+                        onChange={(e) => onSetDocumentType(item.id, e.target.value as DocumentType)}
+                        className="text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                        aria-label={`Document type of ${item.file.name}`}
+                      >
+                        {DOCUMENT_TYPE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusStyles[item.status]}`}>
+                        <StatusIcon status={item.status} />
+                        {INTAKE_STATUS_LABELS[item.status]}
+                        {item.status === 'uploading' && ` ${Math.round(item.progress * 100)}%`}
+                      </span>
+                    )}
+
+                    <div className="flex items-center text-gray-400">
+                      {ACTIVE_INTAKE_STATUSES.includes(item.status) && (
+                        <button onClick={() => onCancel(item.id)} className="p-1.5 hover:text-gray-700" title="Cancel">
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && !item.rejected && (
+                        <button onClick={() => onRetry(item.id)} className="p-1.5 hover:text-[#0EA5E9]" title="Retry">
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                      {!ACTIVE_INTAKE_STATUSES.includes(item.status) && (
+                        <button onClick={() => onRemove(item.id)} className="p-1.5 hover:text-red-600" title="Remove">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {(item.status === 'uploading' || item.status === 'processing') && (
+                    <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full bg-[#0EA5E9] transition-all duration-200 ${item.status === 'processing' ? 'animate-pulse' : ''}`}
+                        style={{ width: `${Math.round(item.progress * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                  {item.error && <p className="mt-2 text-xs text-red-600">{item.error}</p>}
+                  {!item.error && item.message && <p className="mt-2 text-xs text-gray-600">{item.message}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-between pt-6">
+            <button
+              type="button"
+              onClick={onClearFinished}
+              disabled={!hasFinished}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Clear finished
+            </button>
+            <button
+              type="button"
+              onClick={onStartAll}
+              disabled={readyCount === 0}
+              className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center"
+            >
+              <Upload className="w-5 h-5 mr-2" />
+              {readyCount > 1 ? `Upload ${readyCount} documents` : 'Upload document'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useRef } from 'react';
+import { X, FileText, Image, Upload, Eye, Paperclip, RefreshCw, Trash2, Loader2, FolderOpen } from 'lucide-react';
+import {
+  DocumentType,
+  LibraryDocument,
+  DOCUMENT_TYPE_OPTIONS,
+  isPreviewable,
+} from '../lib/documentLibrary';
+
+interface DocumentLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documents: LibraryDocument[];
+  isLoading?: boolean;
+  onUpload: (files: File[]) => Promise<void>;
+  onReplace: (document: LibraryDocument, file: File) => Promise<unknown>;
+  onDelete: (document: LibraryDocument) => Promise<unknown>;
+  onChangeType: (document: LibraryDocument, documentType: DocumentType) => Promise<unknown>;
+  getPreviewUrl: (document: LibraryDocument) => Promise<string | null>;
+  // Shown as "Attach" when the library is opened from the chat
+  onAttach?: (document: LibraryDocument) => Promise<void>;
+}
+
+interface Preview {
+  document: LibraryDocument;
+  url: string;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function DocumentLibrary({
+  isOpen,
+  onClose,
+  documents,
+  isLoading = false,
+  onUpload,
+  onReplace,
+  onDelete,
+  onChangeType,
+  getPreviewUrl,
+  onAttach,
+}: DocumentLibraryProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState('');
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<LibraryDocument | null>(null);
+
+  if (!isOpen) return null;
+
+  const runAction = async (document: LibraryDocument, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(document.id);
+    setError('');
+    try {
+      const result = await action();
+      if (result === false || result === null) setError(failure);
+    } catch (actionError) {
+      console.error('Document library error:', actionError);
+      setError(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePreview = (document: LibraryDocument) => runAction(document, async () => {
+    const url = await getPreviewUrl(document);
+    if (!url) return null;
+    if (isPreviewable(document)) {
+      setPreview({ document, url });
+    } else {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    }
+    return true;
+  }, `Could not open ${document.fileName}.`);
+
+  const handleUploadSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setError('');
+    try {
+      await onUpload(files);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleReplaceSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = replaceTargetRef.current;
+    e.target.value = '';
+    replaceTargetRef.current = null;
+    if (!file || !target) return;
+
+    if (preview?.document.id === target.id) setPreview(null);
+    runAction(target, () => onReplace(target, file), `Could not replace ${target.fileName}.`);
+  };
+
+  const handleDelete = (document: LibraryDocument) => {
+    if (!window.confirm(`Delete ${document.fileName} from your library?`)) return;
+    if (preview?.document.id === document.id) setPreview(null);
+    runAction(document, () => onDelete(document), `Could not delete ${document.fileName}.`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+              <FolderOpen className="w-6 h-6 mr-2 text-[#0EA5E9]" />
+              Document Library
+            </h2>
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => uploadInputRef.current?.click()}
+                disabled={isUploading}
+                className="flex items-center space-x-2 px-4 py-2 bg-[#0EA5E9] text-white rounded-lg text-sm font-medium hover:bg-blue-600 transition-colors disabled:opacity-60"
+              >
+                {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                <span>Add documents</span>
+              </button>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+          </div>
+
+          <input
+            ref={uploadInputRef}
+            type="file"
+            multiple
+            onChange={handleUploadSelect}
+            accept=".pdf,.doc,.docx,.csv,.txt,.jpg,.jpeg,.png,.gif,.webp,text/csv,application/csv"
+            className="hidden"
+          />
+          <input
+            ref={replaceInputRef}
+            type="file"
+            onChange={handleReplaceSelect}
+            accept=".pdf,.doc,.docx,.csv,.txt,.jpg,.jpeg,.png,.gif,.webp,text/csv,application/csv"
+            className="hidden"
+          />
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <Loader2 className="w-6 h-6 animate-spin mr-2" />
+              Loading documents...
+            </div>
+          ) : documents.length === 0 ? (
+            <div className="text-center text-gray-500 py-12">
+              <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p className="text-sm">No documents yet</p>
+              <p className="text-xs mt-1">Files you attach in the chat are kept here for later sessions</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {documents.map(document => (
+                <div key={document.id} className="p-3 border border-gray-200 rounded-xl flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex items-center space-x-3 flex-1 min-w-0">
+                    <div className="w-10 h-10 bg-blue-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                      {document.mimeType.startsWith('image/')
+                        ? <Image className="w-5 h-5 text-blue-600" />
+                        : <FileText className="w-5 h-5 text-blue-600" />}
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{document.fileName}</div>
+                      <div className="text-xs text-gray-500">
+                        {(document.size / 1024 / 1024).toFixed(2)} MB · Uploaded {formatDate(document.uploadedAt)}
+                        {document.updatedAt.getTime() - document.uploadedAt.getTime() > 1000 && ` · Replaced ${formatDate(document.updatedAt)}`}
+                      </div>
+                    </div>
+                  </div>
+
+                  <select
+                    value={document.documentType}
+                    onChange={(e) => runAction(document, () => onChangeType(document, e.target.value as DocumentType), 'Could not change the document type.')}
+                    disabled={busyId === document.id}
+                    className="text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                  >
+                    {DOCUMENT_TYPE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+
+                  <div className="flex items-center space-x-1 text-gray-500">
+                    {busyId === document.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin mx-2" />
+                    ) : (
+                      <>
+                        <button onClick={() => handlePreview(document)} className="p-2 hover:text-[#0EA5E9] hover:bg-gray-100 rounded-lg" title="Preview">
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        {onAttach && (
+                          <button
+                            onClick={() => runAction(document, async () => { await onAttach(document); }, `Could not attach ${document.fileName}.`)}
+                            className="p-2 hover:text-[#0EA5E9] hover:bg-gray-100 rounded-lg"
+                            title="Attach to message"
+                          >
+                            <Paperclip className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            replaceTargetRef.current = document;
+                            replaceInputRef.current?.click();
+                          }}
+                          className="p-2 hover:text-[#0EA5E9] hover:bg-gray-100 rounded-lg"
+                          title="Replace file"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(document)} className="p-2 hover:text-red-600 hover:bg-red-50 rounded-lg" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="mt-6 border border-gray-200 rounded-xl overflow-hidden">
+              <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200">
+                <span className="text-sm font-medium text-gray-700 truncate">{preview.document.fileName}</span>
+                <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {preview.document.mimeType.startsWith('image/') ? (
+                <img src={preview.url} alt={preview.document.fileName} className="max-h-[60vh] mx-auto" />
+              ) : (
+                <iframe src={preview.url} title={preview.document.fileName} className="w-full h-[60vh]" />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, useRef, useEffect } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { ExportFormat, EXPORT_FORMATS } from '../lib/exportDocument';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  label?: string;
+  // Classes for the trigger button, so the menu fits both the pink sidebar and white panels
+  buttonClassName?: string;
+  align?: 'left' | 'right';
+}
+
+export default function ExportMenu({ onExport, label, buttonClassName = 'text-gray-400 hover:text-gray-600', align = 'right' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError('');
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } catch (exportError) {
+      console.error('Export error:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={(event) => {
+          event.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className={`flex items-center space-x-1 transition-colors ${buttonClassName}`}
+        title="Export"
+      >
+        <Download className="w-4 h-4" />
+        {label && <span>{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50`}>
+          {EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+            <button
+              key={format}
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                handleExport(format);
+              }}
+              disabled={exporting !== null}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center justify-between disabled:opacity-60"
+            >
+              <span>{formatLabel}</span>
+              {exporting === format && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+            </button>
+          ))}
+          {error && (
+            <div className="px-4 py-2 text-xs text-red-600 border-t border-gray-100">{error}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { X, FileText, AlertTriangle, RotateCcw } from 'lucide-react';
+import { AttachmentText } from '../hooks/useAttachmentText';
+import { describeExtraction, MAX_EXTRACTED_CHARS } from '../lib/textExtraction';
+
+interface ExtractedTextPreviewProps {
+  fileName: string | null;
+  entry?: AttachmentText;
+  onChange: (fileName: string, text: string) => void;
+  onReset: (fileName: string) => void;
+  onClose: () => void;
+}
+
+export default function ExtractedTextPreview({ fileName, entry, onChange, onReset, onClose }: ExtractedTextPreviewProps) {
+  if (!fileName || entry?.status !== 'ready') return null;
+
+  const { result, original, text } = entry;
+  const isEdited = text !== original;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 pb-4">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center min-w-0">
+              <FileText className="w-6 h-6 mr-2 text-[#0EA5E9] flex-shrink-0" />
+              <span className="truncate">{fileName}</span>
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">
+            {describeExtraction(result)} · This is the text the agent will receive. Delete anything it should not see.
+          </p>
+
+          {result.noTextLayer && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              This PDF has no text layer, so it is probably a scan. Only the file itself will be sent; paste the important parts into your message if the agent needs to read them.
+            </div>
+          )}
+          {!result.noTextLayer && result.emptyPages.length > 0 && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              No text was found on page{result.emptyPages.length === 1 ? '' : 's'} {result.emptyPages.join(', ')}. Those pages may be images.
+            </div>
+          )}
+          {result.truncated && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              Only the first {MAX_EXTRACTED_CHARS.toLocaleString()} characters are kept.
+            </div>
+          )}
+        </div>
+
+        {!result.noTextLayer && (
+          <div className="px-6 flex-1 min-h-0">
+            <textarea
+              value={text}
+              onChange={(e) => onChange(fileName, e.target.value)}
+              className="w-full h-[50vh] border border-gray-300 rounded-xl p-4 font-mono text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent resize-none"
+              aria-label={`Extracted text of ${fileName}`}
+            />
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-between p-6 pt-4">
+          <button
+            type="button"
+            onClick={() => onReset(fileName)}
+            disabled={!isEdited}
+            className="flex items-center text-sm text-gray-500 hover:text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Restore extracted text
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 transition-all duration-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
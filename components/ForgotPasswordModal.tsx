@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { X, Mail, CheckCircle, Loader2, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+
+interface ForgotPasswordModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialEmail?: string;
+  // Why the user landed here from an email link, e.g. the reset link had expired
+  linkError?: string | null;
+}
+
+export default function ForgotPasswordModal({ isOpen, onClose, initialEmail = '', linkError }: ForgotPasswordModalProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState('');
+
+  const { requestPasswordReset } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!email.trim()) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    const result = await requestPasswordReset(email);
+
+    setIsSubmitting(false);
+    if (result.success) {
+      setIsSuccess(true);
+    } else {
+      setError(result.error || 'Could not send the reset email. Please try again.');
+    }
+  };
+
+  const handleClose = () => {
+    setEmail('');
+    setError('');
+    setIsSuccess(false);
+    setIsSubmitting(false);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md">
+        <div className="p-8">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">Reset Password</h2>
+            <button
+              onClick={handleClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {!isSuccess ? (
+            <>
+              {/* Description */}
+              <div className="mb-6">
+                <p className="text-gray-600 leading-relaxed">
+                  Enter your email address and we'll send you instructions to reset your password.
+                </p>
+              </div>
+
+              {/* Link Error */}
+              {linkError && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start">
+                  <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {linkError}
+                </div>
+              )}
+
+              {/* Error Message */}
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {/* Form */}
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="reset-email" className="block text-sm font-medium text-gray-700 mb-2">
+                    Email Address
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Mail className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      type="email"
+                      id="reset-email"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value);
+                        if (error) setError('');
+                      }}
+                      className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                      placeholder="Enter your email address"
+                      disabled={isSubmitting}
+                      autoFocus
+                    />
+                  </div>
+                </div>
+
+                {/* Submit Button */}
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Sending Instructions...
+                    </>
+                  ) : (
+                    'Send Reset Instructions'
+                  )}
+                </button>
+              </form>
+            </>
+          ) : (
+            /* Success State */
+            <div className="text-center">
+              <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="w-8 h-8 text-green-600" />
+              </div>
+              
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                Instructions Sent!
+              </h3>
+              
+              <p className="text-gray-600 mb-6 leading-relaxed">
+                If an account exists for <strong>{email}</strong>, we've sent it a link to reset your password.
+                The link can be used once and expires after an hour.
+              </p>
+
+              <div className="space-y-3">
+                <button
+                  onClick={handleClose}
+                  className="w-full bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] transition-all duration-200"
+                >
+                  Back to Login
+                </button>
+                
+                <p className="text-sm text-gray-500">
+                  Did not receive the email? Check your spam folder or try again in a few minutes.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
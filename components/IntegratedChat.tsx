@@ -0,0 +1,1608 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, Loader2, Sparkles, Paperclip, FileText, X, Save, Clock, History, Square, FolderOpen, Upload, Eye, AlertTriangle, BarChart3, Mic, Check, RotateCcw, Trash2, RefreshCw, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
+import MessageContent from './MessageContent';
+import AgentBlocks from './AgentBlocks';
+import ExportMenu from './ExportMenu';
+import DocumentLibrary from './DocumentLibrary';
+import DocumentIntake from './DocumentIntake';
+import ExtractedTextPreview from './ExtractedTextPreview';
+import OrderImportWizard from './OrderImportWizard';
+import OrderHistoryCharts from './OrderHistoryCharts';
+import TranscriptReview from './TranscriptReview';
+import BenchmarkTable from './BenchmarkTable';
+import JourneyJumpWarning from './JourneyJumpWarning';
+import { useChatHistory } from '../hooks/useChatHistory';
+import { useDocumentLibrary } from '../hooks/useDocumentLibrary';
+import { useDocumentIntake } from '../hooks/useDocumentIntake';
+import { useAttachmentText } from '../hooks/useAttachmentText';
+import { ChatRequest, N8NErrorCategory, categorizeN8NError, isRetryableCategory } from '../lib/n8nClient';
+import { OutboxEntry, MAX_AUTOMATIC_ATTEMPTS, outboxRetryDelay, saveOutboxEntry, removeOutboxEntry, loadOutboxEntries } from '../lib/messageOutbox';
+import { streamChatMessage } from '../lib/agentStream';
+import { latestLeaf, pathTo, siblingsOf, linkLinear } from '../lib/messageTree';
+import { HistorySource, HISTORY_SOURCE_LABELS } from '../lib/historyService';
+import { AgentEnvelope, AgentBlock, AgentError } from '../lib/agentResponse';
+import { ExportFormat } from '../lib/exportDocument';
+import { DocumentType, LibraryDocument, DOCUMENT_TYPE_OPTIONS, guessDocumentType } from '../lib/documentLibrary';
+import { DocumentKey, JourneyPhase, PhaseAccess, getPhaseForDocument } from '../lib/journey';
+import { validateUploadFile, isCsvFile, UPLOAD_ACCEPT } from '../lib/documentIntake';
+import { describeExtraction } from '../lib/textExtraction';
+import { OrderHistorySummary, describeOrderHistory } from '../lib/orderHistory';
+import { InterviewTranscript, describeInterview, isTranscriptFile } from '../lib/transcript';
+import { BenchmarkTable as BenchmarkTableData, CompetitorPayload, benchmarkToMarkdown, findBenchmark } from '../lib/competitors';
+
+// Where a user message is on its way to the agent: waiting for a connection, in flight,
+// received, or failed and in the outbox
+type DeliveryStatus = 'queued' | 'sending' | 'delivered' | 'failed';
+
+const DELIVERY_ERROR_MESSAGES: Record<N8NErrorCategory, string> = {
+  offline: 'You are offline. This message will be sent when the connection is back.',
+  network: 'Could not reach the brand analysis service. Check your internet connection.',
+  timeout: 'The brand analysis service took too long to answer.',
+  rate_limited: 'Too many messages at once. The service asked to slow down.',
+  server: 'There is an issue with the brand analysis workflow. The system administrator has been notified.',
+  not_found: 'The brand analysis service is unavailable: the workflow is not active or the endpoint configuration needs updating.',
+  rejected: 'The brand analysis service did not accept this message.',
+  invalid_response: 'The brand analysis service sent a reply that could not be read.',
+  cancelled: 'Sending was cancelled.',
+  unknown: 'Something went wrong while sending this message.',
+};
+
+// Shown above every conversation; not part of it
+const WELCOME_MESSAGE_ID = '1';
+
+interface Message {
+  id: string;
+  content: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  // The message this one follows. An edited message or regenerated reply is a sibling of the
+  // original, and the chat shows one branch at a time (see lib/messageTree)
+  parentId?: string | null;
+  // Error bubble shown in this chat only, never saved
+  isNotice?: boolean;
+  // Team member who wrote a user message
+  authorId?: string;
+  // Only set on user messages sent in this chat; history messages were all delivered
+  status?: DeliveryStatus;
+  failure?: N8NErrorCategory;
+  // When the outbox sends a failed message again on its own; null leaves it to the user
+  nextAttemptAt?: number | null;
+  isTyping?: boolean;
+  blocks?: AgentBlock[];
+  error?: AgentError;
+  // The user stopped the reply before it finished
+  stopped?: boolean;
+  // Set on messages loaded from the history timeline
+  sources?: HistorySource[];
+  // Order history imported with the message, shown as charts
+  orderHistory?: OrderHistorySummary;
+  // Reviewed interview transcripts sent with the message
+  interviews?: InterviewTranscript[];
+  attachments?: Array<{
+    name: string;
+    size: number;
+    type: string;
+    documentType?: string;
+    description?: string;
+  }>;
+}
+
+interface IntegratedChatProps {
+  userId?: string;
+  // n8n session of the current conversation; the agent keys its memory on it
+  sessionId?: string;
+  userName?: string;
+  brandName?: string;
+  brandId?: string;
+  // Messages of a resumed conversation or history timeline, shown after the welcome message
+  initialMessages?: Message[];
+  // Called once per user message and once per completed bot reply
+  onMessage?: (message: Message) => void;
+  // Called with every validated agent reply, including its phase metadata
+  onAgentEnvelope?: (envelope: AgentEnvelope) => void;
+  // Shows an export menu on every bot reply
+  onExportMessage?: (message: Message, format: ExportFormat) => Promise<void>;
+  // Called for every document sent with a message, taken by the upload workflow or filed in the library
+  onDocumentProcessed?: (documentType: DocumentType) => void;
+  // Whether a document's phase has been reached; sending or uploading one for a later phase asks first
+  checkDocumentAccess?: (key: DocumentKey) => PhaseAccess;
+  // Returns the competitors to send with each message; undefined until Phase 3 starts
+  resolveCompetitors?: () => Promise<CompetitorPayload[] | undefined>;
+  // Viewers of a brand see the conversation without the input
+  readOnly?: boolean;
+  // Names user messages by their author once a brand has more than one member
+  getAuthorName?: (authorId: string) => string | undefined;
+  // Lets the page keep the document library open state in the URL
+  isLibraryOpen?: boolean;
+  onLibraryOpenChange?: (isOpen: boolean) => void;
+  // Last message of the branch to show first; defaults to the newest branch. Set for saved
+  // conversations, whose initial messages are all in the chat history
+  initialActiveMessageId?: string | null;
+  // Called with the last saved message of the branch the user switched to
+  onBranchChange?: (messageId: string) => void;
+}
+
+export default function IntegratedChat({ userId = 'anonymous', sessionId: conversationSessionId, userName, brandName, brandId, initialMessages = [], onMessage, onAgentEnvelope, onExportMessage, onDocumentProcessed, checkDocumentAccess, resolveCompetitors, readOnly = false, getAuthorName, isLibraryOpen, onLibraryOpenChange, initialActiveMessageId, onBranchChange }: IntegratedChatProps) {
+  const [messages, setMessages] = useState<Message[]>(() => [
+    {
+      id: WELCOME_MESSAGE_ID,
+      content:`# Welcome to Brand Challenger
+
+You're about to follow a guided path to a sharp, structured brand strategy.  
+We keep it fast, focused, and practical — step by step, the agent tells you exactly what to send and what you'll get back.
+
+---
+
+## How it works
+- The journey runs in three clear phases.  
+- Please upload the files using these exact names.
+
+---
+
+### Phase 1 — Foundations
+
+- **Personality Interview & PAP**  
+
+**What you'll receive:** Your Brand Analysis, Recommendations to improve your brand documents, Brand Summary. You can then work your **brand UVP.
+
+---
+
+### Phase 2 — Customer Insights
+
+- **Customer Interview Transcript**  
+- **Order History (optional)**  
+
+**What you'll get:** A deeper, data-driven understanding of your ideal customers,Ideal Customer Map.
+
+---
+
+### Phase 3 — Market Positioning
+
+- **3 Competitors**  
+
+**Outcome:** Competitor Benchmark, Your Positioning,Brand Voice recommendations.
+`
+
+,
+      sender: 'bot',
+      timestamp: new Date(),
+    },
+    ...linkLinear(initialMessages),
+  ]);
+  // Last message of the branch on screen. The ref is read by replies that arrive after a re-render
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(() =>
+    initialActiveMessageId ?? latestLeaf(linkLinear(initialMessages), null)
+  );
+  const activeLeafRef = useRef(activeLeafId);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  // Messages in the chat history; new messages are saved under the nearest of them
+  const persistedIdsRef = useRef(new Set(initialActiveMessageId !== undefined ? initialMessages.map(msg => msg.id) : []));
+  // What each delivered message was sent with, to ask for another reply to it
+  const sentRequestsRef = useRef(new Map<string, ChatRequest>());
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [inputValue, setInputValue] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isTyping, setIsTyping] = useState(false);
+  const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  // Only used when the chat is rendered outside a persisted conversation
+  const [fallbackSessionId] = useState(() => {
+    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+  });
+  const sessionId = conversationSessionId || fallbackSessionId;
+  const [fileDocumentTypes, setFileDocumentTypes] = useState<{[key: string]: DocumentType}>({});
+  const [localShowLibrary, setLocalShowLibrary] = useState(false);
+  const showLibrary = isLibraryOpen ?? localShowLibrary;
+  const setShowLibrary = onLibraryOpenChange ?? setLocalShowLibrary;
+  const {
+    documents: libraryDocuments,
+    isLoading: isLibraryLoading,
+    uploadDocument: storeDocument,
+    replaceDocument,
+    updateDocumentType,
+    deleteDocument,
+    getPreviewUrl,
+    fetchDocumentFile,
+  } = useDocumentLibrary();
+  // Files re-attached from the library are already stored and are not uploaded again
+  const libraryFilesRef = useRef(new WeakSet<File>());
+  const [showIntake, setShowIntake] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const dragDepthRef = useRef(0);
+  const intake = useDocumentIntake({
+    onDocumentAccepted: (item) => {
+      storeDocument(item.file, item.documentType);
+      onDocumentProcessed?.(item.documentType);
+    },
+  });
+  const attachmentText = useAttachmentText();
+  const [previewTextFile, setPreviewTextFile] = useState<string | null>(null);
+  const [showOrderImport, setShowOrderImport] = useState(false);
+  // Attached CSV the import wizard was opened for; it is replaced by the summary on import
+  const [orderImportFile, setOrderImportFile] = useState<File | null>(null);
+  const [pendingOrderHistory, setPendingOrderHistory] = useState<OrderHistorySummary | null>(null);
+  // Transcript being reviewed, attached or picked with the microphone button
+  const [transcriptFile, setTranscriptFile] = useState<File | null>(null);
+  const [pendingInterviews, setPendingInterviews] = useState<InterviewTranscript[]>([]);
+  // A send or upload waiting for the user to confirm a jump ahead in the journey
+  const [pendingJump, setPendingJump] = useState<{ phase: JourneyPhase; access: PhaseAccess; resolve: (confirmed: boolean) => void } | null>(null);
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Undelivered messages of this chat by message id, mirrored in IndexedDB
+  const outboxRef = useRef(new Map<string, OutboxEntry<Message>>());
+  const isDeliveringRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Set when the chat is closed or switched; onMessage then belongs to a conversation no longer shown
+  const unmountedRef = useRef(false);
+
+  // Stop any reply still streaming when the chat is closed or switched
+  useEffect(() => {
+    return () => {
+      unmountedRef.current = true;
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  useEffect(() => {
+    scrollToBottom();
+  }, [messages]);
+
+  // Anything besides the typed text that makes a message worth sending
+  const hasPendingContent = attachedFiles.length > 0 || !!pendingOrderHistory || pendingInterviews.length > 0;
+
+  const getDocumentType = (file: File) => fileDocumentTypes[file.name] || guessDocumentType(file.name);
+
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...changes } : msg));
+  };
+
+  const tree = useMemo(() => messages.filter(msg => msg.id !== WELCOME_MESSAGE_ID), [messages]);
+  const visibleMessages = useMemo(
+    () => [...messages.filter(msg => msg.id === WELCOME_MESSAGE_ID), ...pathTo(tree, activeLeafId)],
+    [messages, tree, activeLeafId]
+  );
+
+  const moveToLeaf = (id: string | null) => {
+    activeLeafRef.current = id;
+    setActiveLeafId(id);
+  };
+
+  // Adds a message under its parent, and follows it when the chat is showing that parent
+  const appendMessage = (message: Message) => {
+    setMessages(prev => [...prev, message]);
+    if (activeLeafRef.current === (message.parentId ?? null)) moveToLeaf(message.id);
+  };
+
+  // Skips undelivered messages and notices, which are not in the chat history
+  const nearestSavedId = (id: string | null | undefined): string | null => {
+    const byId = new Map(messagesRef.current.map(msg => [msg.id, msg]));
+    let current = id ?? null;
+    while (current && !persistedIdsRef.current.has(current)) {
+      current = byId.get(current)?.parentId ?? null;
+    }
+    return current;
+  };
+
+  const saveMessage = (message: Message) => {
+    persistedIdsRef.current.add(message.id);
+    onMessage?.({ ...message, parentId: nearestSavedId(message.parentId) });
+  };
+
+  // The branch before a message, as the agent should read it
+  const branchHistoryBefore = (message: Message): ChatRequest['branchHistory'] =>
+    pathTo(tree, message.parentId ?? null)
+      .filter(msg => !msg.isNotice)
+      .map(msg => ({ role: msg.sender === 'user' ? 'user' as const : 'assistant' as const, content: msg.content }));
+
+  // Resolves to false when the user would rather not record documents for a phase that is not open yet
+  const confirmJourney = (documentTypes: DocumentType[]): Promise<boolean> => {
+    const blocked = documentTypes
+      .filter((type): type is DocumentKey => type !== 'other')
+      .map(key => ({ phase: getPhaseForDocument(key), access: checkDocumentAccess?.(key) }))
+      .find(({ access }) => access && !access.allowed);
+    if (!blocked?.access) return Promise.resolve(true);
+
+    const { phase, access } = blocked;
+    return new Promise(resolve => {
+      setPendingJump(previous => {
+        previous?.resolve(false);
+        return { phase, access, resolve };
+      });
+    });
+  };
+
+  const answerJump = (confirmed: boolean) => {
+    pendingJump?.resolve(confirmed);
+    setPendingJump(null);
+  };
+
+  // Documents a message would send right now
+  const pendingDocumentTypes = (): DocumentType[] => [
+    ...attachedFiles.map(getDocumentType),
+    ...(pendingOrderHistory ? ['order_history' as const] : []),
+    ...(pendingInterviews.length > 0 ? ['customer_interview_transcript' as const] : []),
+  ];
+
+  const loadCompetitors = async () => {
+    try {
+      return await resolveCompetitors?.();
+    } catch (error) {
+      console.error('Error loading competitors:', error);
+      return undefined;
+    }
+  };
+
+  const sendMessage = async (content: string, competitorBenchmark?: BenchmarkTableData) => {
+    const orderHistory = pendingOrderHistory || undefined;
+    const interviews = pendingInterviews.length > 0 ? pendingInterviews : undefined;
+    if (!content.trim() && attachedFiles.length === 0 && !orderHistory && !interviews) return;
+
+    const files = attachedFiles;
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: activeLeafRef.current,
+      content: content.trim() || [
+        files.length > 0 && `📎 Attached ${files.length} file${files.length > 1 ? 's' : ''}`,
+        orderHistory && `📊 Imported order history from ${orderHistory.source.fileName}`,
+        interviews && `🎙️ Added ${interviews.map(interview => interview.label).join(', ')}`,
+      ].filter(Boolean).join('\n\n'),
+      sender: 'user',
+      timestamp: new Date(),
+      authorId: userId,
+      status: navigator.onLine ? 'sending' : 'queued',
+      attachments: files.length > 0 ? files.map(file => ({
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        documentType: getDocumentType(file),
+      })) : undefined,
+      orderHistory,
+      interviews,
+    };
+    const documentTypes = files.map(getDocumentType);
+    const extractedText = attachmentText.buildExtractedText(files);
+    // The conversation is only created once a message is delivered
+    const startsConversation = !messages.some(msg => msg.sender === 'user' && (!msg.status || msg.status === 'delivered'));
+
+    // Keep new uploads in the document library; this runs alongside the chat request
+    files
+      .filter(file => !libraryFilesRef.current.has(file))
+      .forEach(file => {
+        storeDocument(file, getDocumentType(file));
+      });
+
+    appendMessage(userMessage);
+    setInputValue('');
+    setAttachedFiles([]);
+    setFileDocumentTypes({});
+    attachmentText.clearTexts();
+    setPendingOrderHistory(null);
+    setPendingInterviews([]);
+    new Set(documentTypes).forEach(type => onDocumentProcessed?.(type));
+    if (orderHistory) onDocumentProcessed?.('order_history');
+    if (interviews) onDocumentProcessed?.('customer_interview_transcript');
+
+    const chatInput = content.trim() || [
+      files.length > 0 && `I have attached ${files.length} document${files.length > 1 ? 's' : ''}: ${files.map(f => f.name).join(', ')}`,
+      orderHistory && `I have imported my order history from ${orderHistory.source.fileName} (${describeOrderHistory(orderHistory)}).`,
+      interviews && `I have added ${interviews.length} customer interview transcript${interviews.length > 1 ? 's' : ''}: ${interviews.map(interview => interview.label).join(', ')}.`,
+    ].filter(Boolean).join(' ');
+
+    const competitors = await loadCompetitors();
+
+    const entry: OutboxEntry<Message> = {
+      id: userMessage.id,
+      userId,
+      sessionId,
+      message: userMessage,
+      request: {
+        chatInput,
+        sessionId,
+        userId,
+        userName,
+        brandName,
+        brandId,
+        files,
+        documentTypes,
+        extractedText,
+        orderHistory,
+        interviews,
+        competitors,
+        competitorBenchmark,
+      },
+      startsConversation,
+      attempts: 0,
+      category: 'offline',
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    };
+
+    await dispatchMessage(entry);
+  };
+
+  // Sends an edited copy of a past message as a new branch from the same point
+  const sendEdit = async (original: Message) => {
+    const content = editValue.trim();
+    setEditingMessageId(null);
+    if (!content || content === original.content) return;
+
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: original.parentId ?? null,
+      content,
+      sender: 'user',
+      timestamp: new Date(),
+      authorId: userId,
+      status: navigator.onLine ? 'sending' : 'queued',
+    };
+    setMessages(prev => [...prev, userMessage]);
+    moveToLeaf(userMessage.id);
+
+    const sent = sentRequestsRef.current.get(original.id);
+    const competitors = await loadCompetitors();
+    await dispatchMessage({
+      id: userMessage.id,
+      userId,
+      sessionId,
+      message: userMessage,
+      request: {
+        chatInput: content,
+        sessionId,
+        userId,
+        userName,
+        brandName,
+        brandId,
+        orderHistory: sent?.orderHistory,
+        interviews: sent?.interviews,
+        competitors,
+        branchAction: 'edit',
+        branchHistory: branchHistoryBefore(original),
+      },
+      startsConversation: false,
+      attempts: 0,
+      category: 'offline',
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    });
+  };
+
+  // Offline, or another message is still on its way: wait in the outbox
+  const dispatchMessage = async (entry: OutboxEntry<Message>) => {
+    if (!navigator.onLine || isDeliveringRef.current) {
+      queueMessage(entry);
+      return;
+    }
+
+    await deliverMessage(entry);
+  };
+
+  const queueMessage = (entry: OutboxEntry<Message>) => {
+    const queued = { ...entry, message: { ...entry.message, status: 'queued' as const } };
+    outboxRef.current.set(entry.id, queued);
+    saveOutboxEntry(queued);
+    updateMessage(entry.id, { status: 'queued' });
+  };
+
+  // The failed attempt goes to the outbox; retryable failures are tried again with backoff
+  const failMessage = (entry: OutboxEntry<Message>, category: N8NErrorCategory) => {
+    const attempts = category === 'offline' ? entry.attempts : entry.attempts + 1;
+    const nextAttemptAt = category === 'offline'
+      ? Date.now()
+      : isRetryableCategory(category) && attempts < MAX_AUTOMATIC_ATTEMPTS ? Date.now() + outboxRetryDelay(attempts) : null;
+    const changes = { status: 'failed' as const, failure: category, nextAttemptAt };
+
+    const failed = { ...entry, attempts, category, nextAttemptAt, message: { ...entry.message, ...changes } };
+    outboxRef.current.set(entry.id, failed);
+    saveOutboxEntry(failed);
+    updateMessage(entry.id, changes);
+  };
+
+  // Sends a user message and streams the reply. The message counts as delivered, and is saved to the
+  // chat history, as soon as the webhook accepts the request. `resend` asks for another reply to a
+  // message that was delivered before; that reply becomes a sibling of the earlier ones.
+  const deliverMessage = async (entry: OutboxEntry<Message>, resend = false) => {
+    isDeliveringRef.current = true;
+    if (!resend) {
+      updateMessage(entry.id, { status: 'sending', failure: undefined, nextAttemptAt: undefined });
+    }
+    setIsLoading(true);
+    setIsTyping(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const botMessageId = crypto.randomUUID();
+    const botTimestamp = new Date();
+    let botMessageShown = false;
+    let delivered = false;
+
+    const markDelivered = () => {
+      if (delivered) return;
+      delivered = true;
+      if (outboxRef.current.delete(entry.id)) removeOutboxEntry(entry.id);
+      if (resend || unmountedRef.current) return;
+      sentRequestsRef.current.set(entry.id, entry.request);
+      updateMessage(entry.id, { status: 'delivered', failure: undefined, nextAttemptAt: undefined });
+      // Its parent may have changed while it waited in the outbox
+      const current = messagesRef.current.find(msg => msg.id === entry.id) ?? entry.message;
+      saveMessage({ ...current, status: 'delivered' });
+    };
+
+    // Messages queued behind this one follow its reply, not the message itself
+    const addBotMessage = (botMessage: Message) => {
+      setMessages(prev => [
+        ...prev.map(msg => msg.parentId === entry.id && msg.sender === 'user' && msg.status && msg.status !== 'delivered'
+          ? { ...msg, parentId: botMessage.id }
+          : msg),
+        botMessage,
+      ]);
+      if (activeLeafRef.current === entry.id) moveToLeaf(botMessage.id);
+    };
+
+    // Nothing came back for another reply: show the branch that was there before
+    const restoreBranch = () => {
+      if (resend && !botMessageShown && activeLeafRef.current === entry.id) {
+        moveToLeaf(latestLeaf(messagesRef.current.filter(msg => msg.id !== WELCOME_MESSAGE_ID), entry.id));
+      }
+    };
+
+    // Render streamed text as it arrives; the bubble replaces the "Thinking..." indicator on the first chunk
+    const showBotText = (text: string) => {
+      if (!botMessageShown) {
+        botMessageShown = true;
+        setIsLoading(false);
+        addBotMessage({
+          id: botMessageId,
+          parentId: entry.id,
+          content: text,
+          sender: 'bot',
+          timestamp: botTimestamp,
+          isTyping: true,
+        });
+      } else {
+        setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, content: text } : msg));
+      }
+    };
+
+    try {
+      const { envelope, aborted } = await streamChatMessage(
+        entry.request,
+        { onResponse: markDelivered, onText: showBotText },
+        { signal: controller.signal },
+      );
+      // The chat was closed mid-reply; nothing of it belongs to the conversation shown now
+      if (unmountedRef.current) return;
+
+      // Stopped before anything arrived: nothing to show or keep
+      if (aborted && !envelope.body) {
+        setMessages(prev => prev.filter(msg => msg.id !== botMessageId));
+        restoreBranch();
+        return;
+      }
+
+      if (!aborted) {
+        onAgentEnvelope?.(envelope);
+      }
+
+      const botMessage: Message = {
+        id: botMessageId,
+        parentId: entry.id,
+        content: envelope.body,
+        sender: 'bot',
+        timestamp: botTimestamp,
+        blocks: envelope.blocks,
+        error: aborted ? undefined : envelope.error,
+        stopped: aborted,
+      };
+
+      if (botMessageShown) {
+        setMessages(prev => prev.map(msg => msg.id === botMessageId ? botMessage : msg));
+      } else {
+        addBotMessage(botMessage);
+      }
+
+      if (botMessage.content) {
+        saveMessage({
+          id: botMessage.id,
+          parentId: entry.id,
+          content: botMessage.content,
+          sender: 'bot',
+          timestamp: botMessage.timestamp,
+        });
+      }
+    } catch (error) {
+      // The chat was closed before the webhook took the message: it is sent when the chat is opened again
+      if (unmountedRef.current) {
+        if (!delivered && !resend) queueMessage(entry);
+        return;
+      }
+
+      const category = categorizeN8NError(error);
+
+      // The user pressed stop before the webhook took the message; it stays in the outbox to retry or discard
+      if (category === 'cancelled') {
+        if (!delivered && !resend) failMessage(entry, category);
+        restoreBranch();
+        return;
+      }
+
+      console.error('Chat error:', error);
+
+      // Another reply was asked for a message that is already saved; it does not go to the outbox
+      if (!delivered && resend) {
+        appendMessage({
+          id: crypto.randomUUID(),
+          parentId: entry.id,
+          content: `😔 **Could not get another reply**\n\n${DELIVERY_ERROR_MESSAGES[category]}`,
+          sender: 'bot',
+          timestamp: new Date(),
+          isNotice: true,
+        });
+        return;
+      }
+
+      if (!delivered) {
+        failMessage(entry, category);
+        return;
+      }
+
+      // The reply broke off after the agent got the message, so there is nothing to send again
+      updateMessage(botMessageId, { isTyping: false });
+      appendMessage({
+        id: crypto.randomUUID(),
+        parentId: botMessageShown ? botMessageId : entry.id,
+        content: `😔 **The reply was interrupted**\n\n${DELIVERY_ERROR_MESSAGES[category]}`,
+        sender: 'bot',
+        timestamp: new Date(),
+        isNotice: true,
+      });
+    } finally {
+      abortControllerRef.current = null;
+      isDeliveringRef.current = false;
+      setIsLoading(false);
+      setIsTyping(false);
+      processOutboxRef.current();
+    }
+  };
+
+  // Sends the oldest due message from the outbox, one at a time, and sets a timer for the next one
+  const processOutbox = () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    if (isDeliveringRef.current || !navigator.onLine || unmountedRef.current) return;
+
+    const now = Date.now();
+    const scheduled = [...outboxRef.current.values()]
+      .filter(entry => entry.nextAttemptAt !== null)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    const due = scheduled.find(entry => (entry.nextAttemptAt ?? Infinity) <= now);
+    if (due) {
+      deliverMessage(due);
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...scheduled.map(entry => entry.nextAttemptAt ?? Infinity));
+    if (Number.isFinite(nextAttemptAt)) {
+      retryTimerRef.current = setTimeout(() => processOutboxRef.current(), nextAttemptAt - now);
+    }
+  };
+
+  // Timers and event listeners outlive the render that set them up
+  const processOutboxRef = useRef(processOutbox);
+  processOutboxRef.current = processOutbox;
+
+  const retryMessage = (id: string) => {
+    const entry = outboxRef.current.get(id);
+    if (!entry || isDeliveringRef.current) return;
+    deliverMessage(entry);
+  };
+
+  const discardMessage = (id: string) => {
+    outboxRef.current.delete(id);
+    removeOutboxEntry(id);
+    // Messages queued after it move up to its place
+    const parentId = messagesRef.current.find(msg => msg.id === id)?.parentId ?? null;
+    setMessages(prev => prev
+      .filter(msg => msg.id !== id)
+      .map(msg => msg.parentId === id ? { ...msg, parentId } : msg));
+    if (activeLeafRef.current === id) moveToLeaf(parentId);
+  };
+
+  // Another reply to the same message, kept next to the earlier ones
+  const regenerateReply = (reply: Message) => {
+    const question = messages.find(msg => msg.id === reply.parentId && msg.sender === 'user');
+    if (!question || isDeliveringRef.current) return;
+
+    const sent = sentRequestsRef.current.get(question.id)
+      ?? { chatInput: question.content, sessionId, userId, userName, brandName, brandId };
+    moveToLeaf(question.id);
+    deliverMessage({
+      id: question.id,
+      userId,
+      sessionId,
+      message: question,
+      request: { ...sent, branchAction: 'regenerate', branchHistory: branchHistoryBefore(question) },
+      startsConversation: false,
+      attempts: 0,
+      category: 'offline',
+      nextAttemptAt: null,
+      createdAt: Date.now(),
+    }, true);
+  };
+
+  // The message and the versions written in its place, oldest first
+  const branchesOf = (message: Message) => siblingsOf(tree, message).filter(msg => msg.sender === message.sender);
+
+  const selectBranch = (message: Message) => {
+    const leafId = latestLeaf(tree, message.id);
+    moveToLeaf(leafId);
+    const savedLeafId = nearestSavedId(leafId);
+    if (savedLeafId) onBranchChange?.(savedLeafId);
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content);
+  };
+
+  // Bring back this chat's undelivered messages, and send them when the connection returns
+  useEffect(() => {
+    let cancelled = false;
+    // A new chat also takes over the first messages of one chat that was never created, the oldest.
+    // Each of those chats had its own session, so messages of different chats are never merged
+    const isNewChat = !initialMessages.some(msg => msg.sender === 'user');
+
+    loadOutboxEntries<Message>(userId).then(entries => {
+      if (cancelled) return;
+
+      const orphaned = isNewChat && !entries.some(entry => entry.sessionId === sessionId)
+        ? entries
+          .filter(entry => entry.sessionId !== sessionId && entry.startsConversation && entry.request.brandId === brandId)
+          .sort((a, b) => a.createdAt - b.createdAt)[0]
+        : undefined;
+      const restored = entries
+        .filter(entry => entry.sessionId === sessionId || entry.sessionId === orphaned?.sessionId)
+        .map(entry => {
+          if (entry.sessionId === sessionId) return entry;
+          const adopted = { ...entry, sessionId, request: { ...entry.request, sessionId } };
+          saveOutboxEntry(adopted);
+          return adopted;
+        });
+      if (restored.length === 0) return;
+
+      restored.forEach(entry => outboxRef.current.set(entry.id, entry));
+      // They were written after everything in the chat, so they continue the branch on screen
+      let parentId = activeLeafRef.current;
+      const additions = restored
+        .filter(entry => !messagesRef.current.some(msg => msg.id === entry.id))
+        .map(entry => {
+          const message = { ...entry.message, parentId, status: entry.attempts > 0 ? 'failed' as const : 'queued' as const };
+          parentId = message.id;
+          return message;
+        });
+      setMessages(prev => [...prev, ...additions]);
+      if (additions.length > 0) moveToLeaf(parentId);
+      processOutboxRef.current();
+    });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      processOutboxRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    };
+  }, []);
+
+  // Status line under a user bubble sent in this chat
+  const renderDeliveryStatus = (message: Message) => {
+    switch (message.status) {
+      case 'queued':
+        return <span className="flex items-center"><Clock className="w-3 h-3 mr-1" />{isOnline ? 'Queued' : 'Waiting for connection'}</span>;
+      case 'sending':
+        return <span className="flex items-center"><Loader2 className="w-3 h-3 mr-1 animate-spin" />Sending</span>;
+      case 'delivered':
+        return <span className="flex items-center"><Check className="w-3 h-3 mr-1" />Delivered</span>;
+      case 'failed':
+        return (
+          <span className="flex items-center">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {message.nextAttemptAt ? 'Not sent, retrying automatically' : 'Not sent'}
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const resubmitBenchmark = (table: BenchmarkTableData) => {
+    sendMessage(`I've corrected the competitor benchmark:\n\n${benchmarkToMarkdown(table)}`, table);
+  };
+
+  // Bot replies carrying the Competitor Benchmark show it as an editable side-by-side table
+  const renderBotBody = (message: Message) => {
+    const benchmark = message.isTyping ? null : findBenchmark(message.content, message.blocks);
+    if (!benchmark) {
+      return (
+        <>
+          <MessageContent content={message.content} sender={message.sender} />
+          <AgentBlocks blocks={message.blocks} error={message.error} />
+        </>
+      );
+    }
+
+    return (
+      <>
+        <MessageContent content={benchmark.content} sender={message.sender} />
+        <BenchmarkTable
+          table={benchmark.table}
+          onResubmit={readOnly ? undefined : resubmitBenchmark}
+          disabled={isTyping || attachmentText.isExtracting}
+        />
+        <AgentBlocks blocks={benchmark.blocks} error={message.error} />
+      </>
+    );
+  };
+
+  const stopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // The next message can be typed while a reply streams, but sending waits until the reply is done
+  const canSend = (inputValue.trim() || hasPendingContent) && !attachmentText.isExtracting && !isLoading && !isTyping && !pendingJump;
+
+  const submitMessage = async () => {
+    // Order exports reach the agent as the import wizard's summary, never as raw CSV
+    const orderExport = attachedFiles.find(file => isCsvFile(file) && getDocumentType(file) === 'order_history');
+    if (orderExport) {
+      openOrderImport(orderExport);
+      return;
+    }
+
+    if (await confirmJourney(pendingDocumentTypes())) {
+      sendMessage(inputValue);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSend) {
+      submitMessage();
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (canSend) {
+        submitMessage();
+      }
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, message: Message) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendEdit(message);
+    } else if (e.key === 'Escape') {
+      setEditingMessageId(null);
+    }
+  };
+
+  // Branch switcher, edit and regenerate under a message
+  const renderMessageActions = (message: Message, isLast: boolean) => {
+    if (message.id === WELCOME_MESSAGE_ID || message.isTyping || editingMessageId === message.id) return null;
+
+    const isBusy = isLoading || isTyping;
+    const branches = branchesOf(message);
+    const branchIndex = branches.findIndex(branch => branch.id === message.id);
+    const isSent = !message.sources && (!message.status || message.status === 'delivered');
+    const canEdit = !readOnly && !isBusy && message.sender === 'user' && isSent;
+    const canRegenerate = !readOnly && !isBusy && isOnline && isLast && message.sender === 'bot' && !message.sources
+      && tree.some(msg => msg.id === message.parentId && msg.sender === 'user');
+    if (branches.length < 2 && !canEdit && !canRegenerate) return null;
+
+    const tone = message.sender === 'user' ? 'text-blue-100' : 'text-gray-500';
+    return (
+      <div className={`flex items-center space-x-3 mt-2 text-xs ${tone} ${message.sender === 'user' ? 'justify-end' : ''}`}>
+        {branches.length > 1 && (
+          <div className="flex items-center">
+            <button
+              type="button"
+              onClick={() => selectBranch(branches[branchIndex - 1])}
+              disabled={isBusy || branchIndex === 0}
+              className="p-0.5 rounded hover:opacity-75 disabled:opacity-40"
+              aria-label="Previous version"
+            >
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span>{branchIndex + 1}/{branches.length}</span>
+            <button
+              type="button"
+              onClick={() => selectBranch(branches[branchIndex + 1])}
+              disabled={isBusy || branchIndex === branches.length - 1}
+              className="p-0.5 rounded hover:opacity-75 disabled:opacity-40"
+              aria-label="Next version"
+            >
+              <ChevronRight className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+        {canEdit && (
+          <button type="button" onClick={() => startEditing(message)} className="flex items-center hover:underline">
+            <Pencil className="w-3 h-3 mr-1" />
+            Edit
+          </button>
+        )}
+        {canRegenerate && (
+          <button type="button" onClick={() => regenerateReply(message)} className="flex items-center hover:underline">
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Regenerate
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    // Check file types and sizes
+    const validFiles: File[] = [];
+    const errors: string[] = [];
+    
+    files.forEach(file => {
+      const rejection = validateUploadFile(file);
+      if (rejection) {
+        errors.push(`${file.name}: ${rejection}`);
+      } else {
+        validFiles.push(file);
+      }
+    });
+    
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+    }
+    
+    if (validFiles.length > 0) {
+      setAttachedFiles(prev => [...prev, ...validFiles]);
+      // Pre-select the document type from the file name; the user can change it before sending
+      setFileDocumentTypes(prev => ({
+        ...prev,
+        ...Object.fromEntries(validFiles.map(file => [file.name, guessDocumentType(file.name)])),
+      }));
+      attachmentText.extract(validFiles);
+    }
+    
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const openIntake = (files: File[] = []) => {
+    if (files.length > 0) intake.addFiles(files);
+    setShowIntake(true);
+  };
+
+  // Dropping files anywhere on the chat opens the document intake with them
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (readOnly || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    openIntake(Array.from(e.dataTransfer.files));
+  };
+
+  const openOrderImport = (file: File | null) => {
+    setOrderImportFile(file);
+    setShowOrderImport(true);
+  };
+
+  const handleOrderImport = (summary: OrderHistorySummary) => {
+    // The summary goes to the agent instead of the raw export
+    if (orderImportFile) {
+      attachmentText.removeText(orderImportFile.name);
+      setAttachedFiles(prev => prev.filter(file => file !== orderImportFile));
+    }
+    setPendingOrderHistory(summary);
+    setShowOrderImport(false);
+    setOrderImportFile(null);
+  };
+
+  const handleTranscriptImport = (interview: InterviewTranscript) => {
+    const file = transcriptFile;
+    if (file) {
+      // The reviewed turns replace the attachment, but the file is kept with the brand's other interviews
+      if (attachedFiles.includes(file)) {
+        attachmentText.removeText(file.name);
+        setAttachedFiles(prev => prev.filter(attached => attached !== file));
+      }
+      if (!libraryFilesRef.current.has(file)) {
+        storeDocument(file, 'customer_interview_transcript');
+      }
+    }
+    setPendingInterviews(prev => [...prev, interview]);
+    setTranscriptFile(null);
+  };
+
+  const handleTranscriptSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setTranscriptFile(file);
+  };
+
+  const removeAttachment = (index: number) => {
+    attachmentText.removeText(attachedFiles[index].name);
+    setAttachedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const attachFromLibrary = async (document: LibraryDocument) => {
+    const file = await fetchDocumentFile(document);
+    if (!file) throw new Error(`Could not download ${document.fileName}`);
+
+    libraryFilesRef.current.add(file);
+    setAttachedFiles(prev => [...prev.filter(existing => existing.name !== file.name), file]);
+    setFileDocumentTypes(prev => ({ ...prev, [file.name]: document.documentType }));
+    attachmentText.extract([file]);
+    setShowLibrary(false);
+  };
+
+  const uploadToLibrary = async (files: File[]) => {
+    const documentTypes = files.map(file => guessDocumentType(file.name));
+    if (!(await confirmJourney(documentTypes))) return;
+
+    const stored = await Promise.all(files.map((file, index) => storeDocument(file, documentTypes[index])));
+    stored.forEach(document => document && onDocumentProcessed?.(document.documentType));
+  };
+
+  const changeLibraryDocumentType = async (document: LibraryDocument, documentType: DocumentType) => {
+    if (!(await confirmJourney([documentType]))) return false;
+
+    const updated = await updateDocumentType(document, documentType);
+    if (updated) onDocumentProcessed?.(documentType);
+    return updated;
+  };
+
+  const startIntake = async () => {
+    const ready = intake.items.filter(item => item.status === 'ready');
+    if (await confirmJourney(ready.map(item => item.documentType))) {
+      intake.startAll();
+    }
+  };
+
+  // What was read from an attachment; opens the preview where it can be trimmed
+  const renderTextStatus = (file: File) => {
+    const entry = attachmentText.texts[file.name];
+    if (!entry) return null;
+    if (entry.status === 'extracting') {
+      return (
+        <div className="text-xs text-blue-600 flex items-center mt-0.5">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Reading text...
+        </div>
+      );
+    }
+    if (entry.status === 'failed') {
+      return <div className="text-xs text-red-600 mt-0.5">Could not read the text: {entry.error}</div>;
+    }
+    return (
+      <button
+        type="button"
+        onClick={() => setPreviewTextFile(file.name)}
+        className={`text-xs flex items-center mt-0.5 hover:underline ${entry.result.noTextLayer ? 'text-amber-700' : 'text-blue-700'}`}
+      >
+        {entry.result.noTextLayer ? <AlertTriangle className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+        {describeExtraction(entry.result)}
+        {entry.text !== entry.original && ' · edited'}
+      </button>
+    );
+  };
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <div
+      className="relative bg-white rounded-xl border border-gray-200 overflow-hidden h-full flex flex-col max-h-[calc(100vh-12rem)]"
+      data-chat-component
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => isDraggingFiles && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Header */}
+      <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Brand Challenger Chat</h2>
+        {!readOnly && (
+          <button
+            onClick={() => openIntake()}
+            className="relative flex items-center space-x-2 px-3 py-2 text-sm font-medium text-[#0EA5E9] hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            {intake.activeCount > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            <span>{intake.activeCount > 0 ? `Uploading ${intake.activeCount}` : 'Upload documents'}</span>
+          </button>
+        )}
+      </div>
+
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-40 bg-blue-50/90 border-2 border-dashed border-[#0EA5E9] rounded-xl flex flex-col items-center justify-center pointer-events-none">
+          <Upload className="w-10 h-10 text-[#0EA5E9] mb-3" />
+          <p className="text-lg font-semibold text-[#0EA5E9]">Drop files to upload them for analysis</p>
+        </div>
+      )}
+
+      {/* Chat Messages */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {visibleMessages.map((message, index) => (
+          <div
+            key={message.id}
+            className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'} mb-4`}
+          >
+            <div
+              className={`max-w-[80%] rounded-2xl px-6 py-4 ${
+                message.sender === 'user'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-white text-gray-800 border border-gray-200 shadow-sm'
+              }`}
+            >
+              <div className="flex-1">
+                {message.sender === 'user' && message.authorId && getAuthorName?.(message.authorId) && (
+                  <p className="text-xs font-semibold text-blue-100 mb-1">{getAuthorName(message.authorId)}</p>
+                )}
+                {editingMessageId === message.id ? (
+                  <div>
+                    <textarea
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      onKeyDown={(e) => handleEditKeyDown(e, message)}
+                      rows={3}
+                      autoFocus
+                      className="w-full min-w-[16rem] rounded-lg px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-white"
+                      aria-label="Edit message"
+                    />
+                    <div className="flex justify-end space-x-2 mt-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingMessageId(null)}
+                        className="px-3 py-1 text-xs rounded-lg hover:bg-white/10"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => sendEdit(message)}
+                        disabled={!editValue.trim() || isLoading || isTyping}
+                        className="px-3 py-1 text-xs font-semibold bg-white text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm leading-relaxed">
+                    {message.sender === 'bot'
+                      ? renderBotBody(message)
+                      : <MessageContent content={message.content} sender={message.sender} />}
+                  </div>
+                )}
+                {message.orderHistory && (
+                  <div className="mt-3">
+                    <OrderHistoryCharts summary={message.orderHistory} />
+                  </div>
+                )}
+                {message.interviews && message.interviews.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {message.interviews.map((interview, index) => (
+                      <div key={index} className="p-3 bg-gray-100 rounded-lg border border-gray-200 flex items-center space-x-2">
+                        <Mic className="w-4 h-4 text-gray-600" />
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium text-gray-800 truncate">{interview.label}</div>
+                          <div className="text-xs text-gray-600">{describeInterview(interview)}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {message.attachments.map((attachment, index) => (
+                      <div key={index} className="p-3 bg-gray-100 rounded-lg border border-gray-200">
+                        <div className="flex items-center space-x-2">
+                          <FileText className="w-4 h-4 text-gray-600" />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium text-gray-800 truncate">{attachment.name}</div>
+                            <div className="text-xs text-gray-600">
+                              {(attachment.size / 1024 / 1024).toFixed(2)} MB
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-between mt-2">
+                  <p
+                    className={`text-xs ${
+                      message.sender === 'user' ? 'text-blue-100' : 'text-gray-500'
+                    }`}
+                  >
+                    {formatTime(message.timestamp)}
+                    {message.stopped && ' · Stopped'}
+                    {message.sources && ` · ${message.sources.map(source => HISTORY_SOURCE_LABELS[source]).join(', ')}`}
+                  </p>
+                  {onExportMessage && message.sender === 'bot' && message.id !== WELCOME_MESSAGE_ID && !message.isNotice && message.content && !message.isTyping && (
+                    <ExportMenu onExport={(format) => onExportMessage(message, format)} />
+                  )}
+                  {message.sender === 'user' && message.status && (
+                    <div className="text-xs text-blue-100 ml-3">{renderDeliveryStatus(message)}</div>
+                  )}
+                </div>
+                {message.status === 'failed' && message.failure && (
+                  <div className="mt-3 p-3 bg-white/10 rounded-lg text-xs text-white">
+                    <p>{DELIVERY_ERROR_MESSAGES[message.failure]}</p>
+                    <div className="flex items-center space-x-3 mt-2">
+                      <button
+                        type="button"
+                        onClick={() => retryMessage(message.id)}
+                        disabled={isLoading || isTyping}
+                        className="flex items-center font-semibold hover:underline disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Retry now
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => discardMessage(message.id)}
+                        className="flex items-center hover:underline"
+                      >
+                        <Trash2 className="w-3 h-3 mr-1" />
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {renderMessageActions(message, index === visibleMessages.length - 1)}
+              </div>
+            </div>
+          </div>
+        ))}
+        
+        {isLoading && (
+          <div className="flex justify-start">
+            <div className="bg-white border border-gray-200 rounded-2xl px-6 py-4 max-w-[80%] shadow-sm">
+              <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-2">
+                  <div className="flex space-x-1">
+                    <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></div>
+                    <div className="w-2 h-2 bg-purple-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                    <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                  </div>
+                  <span className="text-sm text-gray-600">Thinking...</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+        
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Chat Input */}
+      {readOnly ? (
+        <div className="p-6 bg-gray-50 border-t border-gray-200 flex-shrink-0 text-sm text-gray-600 text-center">
+          You have view-only access to this brand. Ask an owner to make you an editor to chat with the agent.
+        </div>
+      ) : (
+        <div className="p-6 bg-gray-50 border-t border-gray-200 flex-shrink-0">
+          {/* File Attachment Preview */}
+          {attachedFiles.length > 0 && (
+            <div className="mb-3 space-y-2">
+              <div className="text-sm font-medium text-gray-700 mb-2">
+                Attached Files ({attachedFiles.length})
+              </div>
+              {attachedFiles.map((file, index) => (
+                <div key={index} className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center">
+                        <FileText className="w-4 h-4 text-blue-600" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-blue-900 truncate">
+                          {file.name}
+                        </div>
+                        <div className="text-xs text-blue-600">
+                          {(file.size / 1024 / 1024).toFixed(2)} MB • {file.type}
+                        </div>
+                        {renderTextStatus(file)}
+                        {isCsvFile(file) && (
+                          <button
+                            type="button"
+                            onClick={() => openOrderImport(file)}
+                            className="text-xs flex items-center mt-0.5 text-blue-700 hover:underline"
+                          >
+                            <BarChart3 className="w-3 h-3 mr-1" />
+                            Analyze as order history
+                          </button>
+                        )}
+                        {isTranscriptFile(file) && (
+                          <button
+                            type="button"
+                            onClick={() => setTranscriptFile(file)}
+                            className="text-xs flex items-center mt-0.5 text-blue-700 hover:underline"
+                          >
+                            <Mic className="w-3 h-3 mr-1" />
+                            Review as interview transcript
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <select
+                      value={getDocumentType(file)}
+                      onChange={(e) => setFileDocumentTypes(prev => ({ ...prev, [file.name]: e.target.value as DocumentType }))}
+                      className="ml-3 mr-2 text-xs border border-blue-200 rounded-lg px-2 py-1 bg-white text-blue-900 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                      aria-label={`Document type of ${file.name}`}
+                    >
+                      {DOCUMENT_TYPE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => removeAttachment(index)}
+                      className="text-blue-400 hover:text-blue-600 transition-colors"
+                      aria-label="Remove attachment"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => {
+                  setAttachedFiles([]);
+                  attachmentText.clearTexts();
+                }}
+                className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Clear all attachments
+              </button>
+            </div>
+          )}
+          
+          {pendingOrderHistory && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between">
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                  <BarChart3 className="w-4 h-4 text-blue-600" />
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-blue-900 truncate">Order history: {pendingOrderHistory.source.fileName}</div>
+                  <div className="text-xs text-blue-600">{describeOrderHistory(pendingOrderHistory)}</div>
+                </div>
+              </div>
+              <button
+                onClick={() => setPendingOrderHistory(null)}
+                className="text-blue-400 hover:text-blue-600 transition-colors"
+                aria-label="Remove order history"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {pendingInterviews.map((interview, index) => (
+            <div key={index} className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between">
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                  <Mic className="w-4 h-4 text-blue-600" />
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-blue-900 truncate">{interview.label}: {interview.fileName}</div>
+                  <div className="text-xs text-blue-600">{describeInterview(interview)}</div>
+                </div>
+              </div>
+              <button
+                onClick={() => setPendingInterviews(prev => prev.filter((_, i) => i !== index))}
+                className="text-blue-400 hover:text-blue-600 transition-colors"
+                aria-label="Remove interview"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <form onSubmit={handleSubmit} className="flex space-x-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              onChange={handleFileSelect}
+              accept={UPLOAD_ACCEPT}
+              multiple
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="text-gray-500 hover:text-[#0EA5E9] p-2 hover:bg-gray-100 rounded-lg transition-colors relative"
+              aria-label="Attach files"
+            >
+              <Paperclip className="w-5 h-5" />
+              {attachedFiles.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-[#0EA5E9] text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                  {attachedFiles.length}
+                </span>
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowLibrary(true)}
+              className="text-gray-500 hover:text-[#0EA5E9] p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Open document library"
+            >
+              <FolderOpen className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => openOrderImport(null)}
+              className="text-gray-500 hover:text-[#0EA5E9] p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Import order history"
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+            <input
+              ref={transcriptInputRef}
+              type="file"
+              onChange={handleTranscriptSelect}
+              accept=".vtt,.srt,.txt,.docx"
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => transcriptInputRef.current?.click()}
+              className="text-gray-500 hover:text-[#0EA5E9] p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Add interview transcript"
+            >
+              <Mic className="w-5 h-5" />
+            </button>
+            <input
+              ref={inputRef}
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder={attachedFiles.length > 0 ? "Add a message about your documents..." : "Type your message..."}
+              className="flex-1 border border-gray-300 rounded-xl px-6 py-4 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed bg-white text-lg"
+            />
+            {isLoading || isTyping ? (
+              <button
+                type="button"
+                onClick={stopResponse}
+                className="bg-gray-700 hover:bg-gray-800 text-white px-8 py-4 rounded-xl focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-700 transition-all duration-200 flex items-center space-x-2"
+                aria-label="Stop response"
+              >
+                <Square className="w-4 h-4" />
+                <span className="hidden sm:inline">Stop</span>
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={isLoading || isTyping || attachmentText.isExtracting || (!inputValue.trim() && !hasPendingContent)}
+                className="bg-[#0EA5E9] hover:bg-blue-600 text-white px-8 py-4 rounded-xl focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-2"
+                aria-label="Send message"
+              >
+                <Send className="w-4 h-4" />
+                <span className="hidden sm:inline">Send</span>
+              </button>
+            )}
+          </form>
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-xs text-gray-500">
+              Session: {sessionId.substring(0, 8)}...
+            </p>
+            <div className="flex items-center space-x-1 text-xs text-gray-500">
+              <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-gray-400'}`}></div>
+              <span>{!isOnline ? 'Offline' : isTyping ? 'Typing...' : 'Online'}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DocumentLibrary
+        isOpen={showLibrary}
+        onClose={() => setShowLibrary(false)}
+        documents={libraryDocuments}
+        isLoading={isLibraryLoading}
+        onUpload={uploadToLibrary}
+        onReplace={replaceDocument}
+        onDelete={deleteDocument}
+        onChangeType={changeLibraryDocumentType}
+        getPreviewUrl={getPreviewUrl}
+        onAttach={attachFromLibrary}
+      />
+
+      <ExtractedTextPreview
+        fileName={previewTextFile}
+        entry={previewTextFile ? attachmentText.texts[previewTextFile] : undefined}
+        onChange={attachmentText.updateText}
+        onReset={attachmentText.resetText}
+        onClose={() => setPreviewTextFile(null)}
+      />
+
+      <OrderImportWizard
+        isOpen={showOrderImport}
+        initialFile={orderImportFile}
+        onClose={() => {
+          setShowOrderImport(false);
+          setOrderImportFile(null);
+        }}
+        onImport={handleOrderImport}
+      />
+
+      <TranscriptReview
+        isOpen={transcriptFile !== null}
+        file={transcriptFile}
+        defaultLabel={`Interview ${pendingInterviews.length + 1}`}
+        onClose={() => setTranscriptFile(null)}
+        onImport={handleTranscriptImport}
+      />
+
+      <DocumentIntake
+        isOpen={showIntake}
+        onClose={() => setShowIntake(false)}
+        items={intake.items}
+        onAddFiles={intake.addFiles}
+        onSetDocumentType={intake.setDocumentType}
+        onStartAll={startIntake}
+        onCancel={intake.cancel}
+        onRetry={intake.retry}
+        onRemove={intake.remove}
+        onClearFinished={intake.clearFinished}
+      />
+
+      {pendingJump && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="max-w-md w-full">
+            <JourneyJumpWarning
+              phase={pendingJump.phase}
+              access={pendingJump.access}
+              onConfirm={() => answerJump(true)}
+              onCancel={() => answerJump(false)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { AlertTriangle } from 'lucide-react';
+import { JourneyPhase, PhaseAccess } from '../lib/journey';
+
+interface JourneyJumpWarningProps {
+  // The phase the documents belong to, and what still blocks it
+  phase: JourneyPhase;
+  access: PhaseAccess;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Shown before a document is recorded for a phase the brand has not reached yet
+export default function JourneyJumpWarning({ phase, access, onConfirm, onCancel }: JourneyJumpWarningProps) {
+  if (!access.blockingPhase) return null;
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-900 text-sm">
+      <div className="flex items-start">
+        <AlertTriangle className="w-5 h-5 text-amber-600 mr-2 flex-shrink-0" />
+        <div>
+          <p className="font-semibold">
+            Phase {access.blockingPhase.number} — {access.blockingPhase.title} is not finished yet
+          </p>
+          <p className="mt-1 text-amber-800">
+            This is for Phase {phase.number} — {phase.title}. Still open:
+          </p>
+          <ul className="mt-2 space-y-1">
+            {access.missingDocuments.map(doc => (
+              <li key={doc.key}>• Send: {doc.label}</li>
+            ))}
+            {access.missingDeliverables.map(item => (
+              <li key={item.key}>• Waiting for: {item.label}</li>
+            ))}
+          </ul>
+          <div className="flex space-x-3 mt-3">
+            <button
+              onClick={onConfirm}
+              className="px-3 py-1 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors"
+            >
+              Continue anyway
+            </button>
+            <button
+              onClick={onCancel}
+              className="px-3 py-1 text-amber-800 hover:text-amber-900 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
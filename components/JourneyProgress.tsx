@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { CheckCircle, Circle, Lock, FileText, Sparkles } from 'lucide-react';
+import JourneyJumpWarning from './JourneyJumpWarning';
+import {
+  JourneyState,
+  JourneyDocument,
+  PhaseAccess,
+  PhaseId,
+  DocumentKey,
+  DeliverableKey,
+  JOURNEY_PHASES,
+  getPhaseStatus,
+  getPhaseForDocument,
+} from '../lib/journey';
+
+interface JourneyProgressProps {
+  journey: JourneyState;
+  checkPhaseAccess: (phaseId: PhaseId) => PhaseAccess;
+  onDocumentSubmitted: (key: DocumentKey) => void;
+  onDeliverableReceived: (key: DeliverableKey) => void;
+  // Viewers of a brand see the progress without changing it
+  readOnly?: boolean;
+}
+
+interface PendingJump {
+  document: JourneyDocument;
+  access: PhaseAccess;
+}
+
+export default function JourneyProgress({ journey, checkPhaseAccess, onDocumentSubmitted, onDeliverableReceived, readOnly = false }: JourneyProgressProps) {
+  const [pendingJump, setPendingJump] = useState<PendingJump | null>(null);
+
+  const handleDocumentClick = (document: JourneyDocument) => {
+    if (journey.submittedDocuments[document.key]) return;
+
+    // Warn before recording a document for a phase the user has not reached yet
+    const access = checkPhaseAccess(getPhaseForDocument(document.key).id);
+    if (!access.allowed) {
+      setPendingJump({ document, access });
+      return;
+    }
+
+    onDocumentSubmitted(document.key);
+  };
+
+  const confirmJump = () => {
+    if (pendingJump) {
+      onDocumentSubmitted(pendingJump.document.key);
+    }
+    setPendingJump(null);
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xl font-bold mb-4">Your Journey</h2>
+
+      {pendingJump && (
+        <div className="mb-4">
+          <JourneyJumpWarning
+            phase={getPhaseForDocument(pendingJump.document.key)}
+            access={pendingJump.access}
+            onConfirm={confirmJump}
+            onCancel={() => setPendingJump(null)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {JOURNEY_PHASES.map((phase) => {
+          const status = getPhaseStatus(journey, phase.id);
+
+          return (
+            <div
+              key={phase.id}
+              className={`p-4 rounded-xl ${status === 'active' ? 'bg-white/20 ring-2 ring-white/40' : 'bg-white/10'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold">
+                  Phase {phase.number} — {phase.title}
+                </h3>
+                {status === 'complete' && <CheckCircle className="w-5 h-5 text-green-200" />}
+                {status === 'locked' && <Lock className="w-4 h-4 text-white/60" />}
+              </div>
+
+              <div className="space-y-1 text-sm">
+                {phase.documents.map(doc => {
+                  const submittedAt = journey.submittedDocuments[doc.key];
+                  return (
+                    <button
+                      key={doc.key}
+                      onClick={() => handleDocumentClick(doc)}
+                      disabled={!!submittedAt || readOnly}
+                      className="w-full flex items-center text-left text-white/90 hover:text-white disabled:cursor-default disabled:hover:text-white/90"
+                      title={submittedAt ? `Submitted ${formatDate(submittedAt)}` : readOnly ? 'Not submitted yet' : 'Mark as submitted'}
+                    >
+                      {submittedAt ? (
+                        <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                      ) : (
+                        <Circle className="w-4 h-4 mr-2 flex-shrink-0 opacity-60" />
+                      )}
+                      <FileText className="w-3 h-3 mr-1 flex-shrink-0 opacity-70" />
+                      <span className="truncate">
+                        {doc.label}{!doc.required && ' (optional)'}
+                      </span>
+                    </button>
+                  );
+                })}
+
+                {phase.deliverables.map(item => {
+                  const receivedAt = journey.receivedDeliverables[item.key];
+                  return (
+                    <button
+                      key={item.key}
+                      onClick={() => onDeliverableReceived(item.key)}
+                      disabled={!!receivedAt || status === 'locked' || readOnly}
+                      className="w-full flex items-center text-left text-white/70 hover:text-white disabled:cursor-default disabled:hover:text-white/70"
+                      title={receivedAt ? `Received ${formatDate(receivedAt)}` : readOnly ? 'Not received yet' : 'Mark as received'}
+                    >
+                      {receivedAt ? (
+                        <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                      ) : (
+                        <Circle className="w-4 h-4 mr-2 flex-shrink-0 opacity-60" />
+                      )}
+                      <Sparkles className="w-3 h-3 mr-1 flex-shrink-0 opacity-70" />
+                      <span className="truncate">{item.label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
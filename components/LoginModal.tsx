@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { X, Eye, EyeOff, Loader2, User, Building } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+
+interface LoginModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Which form shows when the modal opens
+  initialMode?: 'login' | 'signup';
+}
+
+const EMPTY_FORM = {
+  email: '',
+  password: '',
+  firstName: '',
+  lastName: '',
+  brandName: '',
+};
+
+export default function LoginModal({ isOpen, onClose, initialMode = 'login' }: LoginModalProps) {
+  const [isSignup, setIsSignup] = useState(initialMode === 'signup');
+  const [showPassword, setShowPassword] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [error, setError] = useState('');
+  
+  const { login, signup, isLoading } = useAuth();
+
+  useEffect(() => {
+    if (isOpen) setIsSignup(initialMode === 'signup');
+  }, [isOpen, initialMode]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (error) setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (isSignup) {
+      if (!formData.firstName.trim() || !formData.brandName.trim()) {
+        setError('Your first name and brand name are required.');
+        return;
+      }
+
+      if (!formData.email || !formData.password) {
+        setError('Email and password are required.');
+        return;
+      }
+
+      const result = await signup({
+        email: formData.email,
+        password: formData.password,
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        brandName: formData.brandName,
+      });
+
+      if (result.success) {
+        onClose();
+        setFormData(EMPTY_FORM);
+      } else {
+        setError(result.error || 'Signup failed');
+      }
+    } else {
+      if (!formData.email || !formData.password) {
+        setError('Email and password are required.');
+        return;
+      }
+
+      const result = await login({
+        email: formData.email,
+        password: formData.password,
+      });
+
+      if (result.success) {
+        onClose();
+        setFormData(EMPTY_FORM);
+      } else {
+        setError(result.error || 'Login failed');
+      }
+    }
+  };
+
+  const toggleMode = () => {
+    setIsSignup(!isSignup);
+    setError('');
+    setFormData(EMPTY_FORM);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm max-h-[90vh] overflow-y-auto">
+        <div className="p-8">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-8">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {isSignup ? 'Sign Up' : 'Login'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Form */}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSignup && (
+              <>
+                {/* Name */}
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-1">
+                      First Name
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <User className="h-4 w-4 text-gray-400" />
+                      </div>
+                      <input
+                        type="text"
+                        id="firstName"
+                        name="firstName"
+                        value={formData.firstName}
+                        onChange={handleInputChange}
+                        className="w-full pl-9 pr-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                        placeholder="John"
+                        autoComplete="given-name"
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-1">
+                      Last Name
+                    </label>
+                    <input
+                      type="text"
+                      id="lastName"
+                      name="lastName"
+                      value={formData.lastName}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                      placeholder="Doe"
+                      autoComplete="family-name"
+                    />
+                  </div>
+                </div>
+
+                {/* Brand */}
+                <div>
+                  <label htmlFor="brandName" className="block text-sm font-medium text-gray-700 mb-1">
+                    Brand Name
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Building className="h-4 w-4 text-gray-400" />
+                    </div>
+                    <input
+                      type="text"
+                      id="brandName"
+                      name="brandName"
+                      value={formData.brandName}
+                      onChange={handleInputChange}
+                      className="w-full pl-9 pr-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                      placeholder="Your fashion brand"
+                      autoComplete="organization"
+                      required
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Email */}
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email Address
+              </label>
+              <input
+                type="email"
+                id="email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                placeholder="john@example.com"
+                required
+              />
+            </div>
+
+            {/* Password */}
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  id="password"
+                  name="password"
+                  value={formData.password}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                  placeholder="Enter your password"
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute inset-y-0 right-0 pr-4 flex items-center text-gray-400 hover:text-gray-600"
+                >
+                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                </button>
+              </div>
+            </div>
+
+            {/* Submit Button */}
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-[#0EA5E9] text-white py-4 px-6 rounded-lg font-semibold text-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center mt-6"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  {isSignup ? 'Creating Account...' : 'Signing In...'}
+                </>
+              ) : (
+                isSignup ? 'Sign Up' : 'Login'
+              )}
+            </button>
+          </form>
+
+          {/* Toggle Mode */}
+          <div className="mt-6 text-center">
+            <p className="text-sm text-gray-600">
+              {isSignup ? 'Already have an account?' : "Do not have an account?"}{' '}
+              <button
+                onClick={toggleMode}
+                className="text-[#0EA5E9] hover:text-blue-600 font-medium transition-colors"
+              >
+                {isSignup ? 'Sign In' : 'Sign Up'}
+              </button>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
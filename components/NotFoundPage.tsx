@@ -0,0 +1,29 @@
+import { SearchX } from 'lucide-react';
+
+interface NotFoundPageProps {
+  title: string;
+  message: string;
+  onBack: () => void;
+}
+
+// Shown in place of the chat for unknown paths and conversations the user can't open
+export default function NotFoundPage({ title, message, onBack }: NotFoundPageProps) {
+  return (
+    <div className="h-full flex items-center justify-center">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-8 text-center">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <SearchX className="w-8 h-8 text-gray-500" />
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{title}</h2>
+        <p className="text-gray-600 mb-6">{message}</p>
+        <button
+          type="button"
+          onClick={onBack}
+          className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 transition-all duration-200"
+        >
+          Start a new chat
+        </button>
+      </div>
+    </div>
+  );
+}
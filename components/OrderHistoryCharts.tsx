@@ -0,0 +1,142 @@
+import {
+  OrderHistorySummary,
+  CUSTOMER_SEGMENT_LABELS,
+  formatAmount,
+  formatShare,
+} from '../lib/orderHistory';
+
+interface OrderHistoryChartsProps {
+  summary: OrderHistorySummary;
+}
+
+const segmentColors: Record<string, string> = {
+  champions: 'bg-[#0EA5E9]',
+  loyal: 'bg-blue-400',
+  new: 'bg-green-400',
+  promising: 'bg-teal-300',
+  at_risk: 'bg-amber-400',
+  hibernating: 'bg-gray-300',
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+export default function OrderHistoryCharts({ summary }: OrderHistoryChartsProps) {
+  const maxMonthlyRevenue = Math.max(...summary.monthly.map(month => month.revenue), 1);
+  const maxProductOrders = Math.max(...summary.topProducts.map(product => product.orders), 1);
+
+  const figures = [
+    { label: 'Orders', value: summary.orders.toLocaleString() },
+    { label: 'Customers', value: summary.customers.toLocaleString() },
+    { label: 'Revenue', value: formatAmount(summary.revenue) },
+    { label: 'Avg. order', value: formatAmount(summary.averageOrderValue) },
+    { label: 'Repeat rate', value: formatShare(summary.repeatPurchaseRate) },
+    {
+      label: 'Days between orders',
+      value: summary.medianDaysBetweenOrders === null ? '–' : summary.medianDaysBetweenOrders.toLocaleString(),
+    },
+  ];
+
+  return (
+    <div className="bg-white text-gray-800 rounded-xl border border-gray-200 p-4 space-y-5">
+      <div className="text-xs text-gray-500">
+        {summary.source.fileName} · {summary.period.from} to {summary.period.to}
+        {summary.source.skippedRows > 0 && ` · ${summary.source.skippedRows.toLocaleString()} rows skipped`}
+      </div>
+
+      {/* Key figures */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {figures.map(figure => (
+          <div key={figure.label} className="bg-gray-50 rounded-lg px-3 py-2">
+            <div className="text-xs text-gray-500">{figure.label}</div>
+            <div className="text-lg font-semibold text-gray-900">{figure.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Monthly revenue */}
+      {summary.monthly.length > 1 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Revenue per month</h4>
+          <div className="flex items-end h-28 gap-1">
+            {summary.monthly.map(month => (
+              <div
+                key={month.month}
+                className="flex-1 bg-[#0EA5E9] rounded-t hover:bg-blue-600 transition-colors"
+                style={{ height: `${Math.max(2, (month.revenue / maxMonthlyRevenue) * 100)}%` }}
+                title={`${formatMonth(month.month)}: ${formatAmount(month.revenue)} from ${month.orders.toLocaleString()} orders`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-400 mt-1">
+            <span>{formatMonth(summary.monthly[0].month)}</span>
+            <span>{formatMonth(summary.monthly[summary.monthly.length - 1].month)}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Segments */}
+      {summary.segments.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Customer segments</h4>
+          <div className="flex h-3 rounded-full overflow-hidden mb-3">
+            {summary.segments.map(segment => (
+              <div
+                key={segment.segment}
+                className={segmentColors[segment.segment]}
+                style={{ width: `${segment.customerShare * 100}%` }}
+                title={CUSTOMER_SEGMENT_LABELS[segment.segment]}
+              />
+            ))}
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-medium pb-1">Segment</th>
+                <th className="font-medium pb-1 text-right">Customers</th>
+                <th className="font-medium pb-1 text-right">Revenue</th>
+                <th className="font-medium pb-1 text-right">Orders</th>
+                <th className="font-medium pb-1 text-right">Last order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.segments.map(segment => (
+                <tr key={segment.segment} className="border-t border-gray-100">
+                  <td className="py-1">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${segmentColors[segment.segment]}`} />
+                    {CUSTOMER_SEGMENT_LABELS[segment.segment]}
+                  </td>
+                  <td className="py-1 text-right">{formatShare(segment.customerShare)}</td>
+                  <td className="py-1 text-right">{formatShare(segment.revenueShare)}</td>
+                  <td className="py-1 text-right">{segment.averageOrders.toLocaleString()}</td>
+                  <td className="py-1 text-right">{segment.averageDaysSinceLastOrder}d ago</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Top products */}
+      {summary.topProducts.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Top products</h4>
+          <div className="space-y-1">
+            {summary.topProducts.map(product => (
+              <div key={product.name} className="flex items-center text-xs">
+                <span className="w-1/3 truncate pr-2" title={product.name}>{product.name}</span>
+                <div className="flex-1 bg-gray-100 rounded-full h-2 mr-2">
+                  <div
+                    className="bg-[#0EA5E9] h-2 rounded-full"
+                    style={{ width: `${(product.orders / maxProductOrders) * 100}%` }}
+                  />
+                </div>
+                <span className="w-16 text-right text-gray-500">{product.orders.toLocaleString()} orders</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
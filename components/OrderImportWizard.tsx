@@ -0,0 +1,323 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Upload, BarChart3, Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
+import OrderHistoryCharts from './OrderHistoryCharts';
+import { ParsedCsv, readCsvFile } from '../lib/csv';
+import {
+  ColumnMapping,
+  ImportPresetId,
+  IMPORT_PRESETS,
+  ORDER_FIELDS,
+  OrderField,
+  OrderHistorySummary,
+  buildOrders,
+  detectDayFirst,
+  detectPreset,
+  getMissingFields,
+  mapColumns,
+  summarizeOrders,
+} from '../lib/orderHistory';
+
+interface OrderImportWizardProps {
+  isOpen: boolean;
+  // CSV attached in the chat that should be imported; the wizard asks for a file when null
+  initialFile: File | null;
+  onClose: () => void;
+  onImport: (summary: OrderHistorySummary) => void;
+}
+
+type Step = 'select' | 'map' | 'review';
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ',': 'commas',
+  ';': 'semicolons',
+  '\t': 'tabs',
+  '|': 'pipes',
+};
+
+const PREVIEW_ROWS = 5;
+
+export default function OrderImportWizard({ isOpen, initialFile, onClose, onImport }: OrderImportWizardProps) {
+  const [step, setStep] = useState<Step>('select');
+  const [file, setFile] = useState<File | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [presetId, setPresetId] = useState<ImportPresetId>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  // null until the user picks an order for dates that read both ways
+  const [dayFirst, setDayFirst] = useState<boolean | null>(true);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const detectDateOrder = (parsed: ParsedCsv, columns: ColumnMapping) => {
+    if (columns.date === undefined) return true;
+    return detectDayFirst(parsed.rows.slice(0, 500).map(row => row[columns.date!] || ''));
+  };
+
+  const loadFile = async (selected: File) => {
+    setFile(selected);
+    setError('');
+    setIsReading(true);
+    try {
+      const parsed = await readCsvFile(selected);
+      if (parsed.headers.length < 2 || parsed.rows.length === 0) {
+        setError(`${selected.name} does not look like an order export: it needs a header row and at least one order.`);
+        setStep('select');
+        return;
+      }
+
+      const detected = detectPreset(parsed.headers);
+      const columns = mapColumns(parsed.headers, detected);
+      setCsv(parsed);
+      setPresetId(detected);
+      setMapping(columns);
+      setDayFirst(detectDateOrder(parsed, columns));
+      setStep('map');
+    } catch (readError) {
+      console.error('Order import error:', readError);
+      setError(`Could not read ${selected.name}.`);
+      setStep('select');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Start over every time the wizard opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setCsv(null);
+    setFile(null);
+    setError('');
+    setStep('select');
+    if (initialFile) loadFile(initialFile);
+  }, [isOpen, initialFile]);
+
+  const summary = useMemo(() => {
+    if (step !== 'review' || !csv || !file || dayFirst === null) return null;
+    const { orders, skippedRows } = buildOrders(csv.rows, mapping, dayFirst);
+    return summarizeOrders(orders, { fileName: file.name, preset: presetId, rows: csv.rows.length, skippedRows });
+  }, [step, csv, file, mapping, dayFirst, presetId]);
+
+  if (!isOpen) return null;
+
+  const missingFields = getMissingFields(mapping);
+
+  const handlePresetChange = (id: ImportPresetId) => {
+    if (!csv) return;
+    const columns = mapColumns(csv.headers, id);
+    setPresetId(id);
+    setMapping(columns);
+    setDayFirst(detectDateOrder(csv, columns));
+  };
+
+  const handleColumnChange = (field: OrderField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (selected) loadFile(selected);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+              <BarChart3 className="w-6 h-6 mr-2 text-[#0EA5E9]" />
+              Import Order History
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-start">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {step === 'select' && (
+            <div className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center">
+              {isReading ? (
+                <div className="flex items-center justify-center text-gray-500">
+                  <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                  Reading {file?.name}...
+                </div>
+              ) : (
+                <>
+                  <Upload className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="font-medium text-[#0EA5E9] hover:text-blue-500"
+                  >
+                    Choose an orders CSV
+                  </button>
+                  <p className="text-xs text-gray-500 mt-2">Shopify and WooCommerce exports are recognised automatically</p>
+                </>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,application/csv"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+          )}
+
+          {step === 'map' && csv && (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {file?.name}: {csv.rows.length.toLocaleString()} rows, read as {csv.encoding}, separated by {DELIMITER_NAMES[csv.delimiter] || `"${csv.delimiter}"`}.
+              </p>
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">Export format</span>
+                  <select
+                    value={presetId}
+                    onChange={(e) => handlePresetChange(e.target.value as ImportPresetId)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                  >
+                    {IMPORT_PRESETS.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">Date format</span>
+                  <select
+                    value={dayFirst === null ? '' : dayFirst ? 'day' : 'month'}
+                    onChange={(e) => setDayFirst(e.target.value === 'day')}
+                    className={`w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0EA5E9] ${
+                      dayFirst === null ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  >
+                    {dayFirst === null && <option value="" disabled>Choose how dates are written</option>}
+                    <option value="day">Day before month (31/12/2024)</option>
+                    <option value="month">Month before day (12/31/2024)</option>
+                  </select>
+                </label>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Columns</h3>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {ORDER_FIELDS.map(field => (
+                    <label key={field.key} className="block">
+                      <span className="block text-xs text-gray-600 mb-1">
+                        {field.label}{field.required ? ' *' : ''}
+                      </span>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => handleColumnChange(field.key, e.target.value)}
+                        className={`w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0EA5E9] ${
+                          field.required && mapping[field.key] === undefined ? 'border-red-300' : 'border-gray-300'
+                        }`}
+                      >
+                        <option value="">Not in this file</option>
+                        {csv.headers.map((header, index) => (
+                          <option key={index} value={index}>{header}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Preview */}
+              <div className="overflow-x-auto border border-gray-200 rounded-xl">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {ORDER_FIELDS.filter(field => mapping[field.key] !== undefined).map(field => (
+                        <th key={field.key} className="text-left font-medium text-gray-600 px-3 py-2 whitespace-nowrap">{field.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {csv.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-gray-100">
+                        {ORDER_FIELDS.filter(field => mapping[field.key] !== undefined).map(field => (
+                          <td key={field.key} className="px-3 py-2 text-gray-800 whitespace-nowrap max-w-[12rem] truncate">
+                            {row[mapping[field.key]!]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-red-600">
+                  {missingFields.length > 0
+                    ? `Choose a column for: ${missingFields.map(field => field.label).join(', ')}`
+                    : dayFirst === null && 'The dates in this file could be day or month first. Choose the date format.'}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setStep('review')}
+                  disabled={missingFields.length > 0 || dayFirst === null}
+                  className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  Analyze orders
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'review' && summary && (
+            <div className="space-y-4">
+              {summary.orders === 0 ? (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+                  No orders could be read with these columns. Check the order ID, customer and date columns.
+                </div>
+              ) : (
+                <>
+                  <OrderHistoryCharts summary={summary} />
+                  <p className="text-xs text-gray-500">
+                    Only these totals and segments are shared with the agent. Customer names and emails stay on your device.
+                  </p>
+                </>
+              )}
+
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setStep('map')}
+                  className="flex items-center text-sm text-gray-600 hover:text-gray-800"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-1" />
+                  Back to columns
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onImport(summary)}
+                  disabled={summary.orders === 0}
+                  className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  Add to message
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Lock, Eye, EyeOff, Loader2, CheckCircle, Circle } from 'lucide-react';
+import { PASSWORD_REQUIREMENTS, PASSWORD_STRENGTH_LABELS, getPasswordStrength } from '../lib/passwordPolicy';
+
+interface ResetPasswordModalProps {
+  isOpen: boolean;
+  email?: string;
+  onSubmit: (password: string) => Promise<{ success: boolean; error?: string }>;
+  // Leaves the recovery session without changing the password
+  onCancel: () => void;
+  // Opens the forgot-password form to request a fresh link
+  onRequestNewLink: () => void;
+}
+
+const strengthColors = ['bg-red-500', 'bg-orange-400', 'bg-yellow-400', 'bg-green-500', 'bg-green-600'];
+
+export default function ResetPasswordModal({ isOpen, email = '', onSubmit, onCancel, onRequestNewLink }: ResetPasswordModalProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState('');
+  const [linkExpired, setLinkExpired] = useState(false);
+
+  if (!isOpen && !isSuccess) return null;
+
+  const strength = getPasswordStrength(password, email);
+  const mismatch = confirmPassword.length > 0 && confirmPassword !== password;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!strength.isValid) {
+      setError(strength.warning || 'Your new password does not meet the requirements below.');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('The passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    const result = await onSubmit(password);
+
+    setIsSubmitting(false);
+    if (result.success) {
+      setIsSuccess(true);
+      setPassword('');
+      setConfirmPassword('');
+    } else {
+      setError(result.error || 'Could not update your password. Please try again.');
+      setLinkExpired(/expired/i.test(result.error || ''));
+    }
+  };
+
+  const handleRequestNewLink = () => {
+    setError('');
+    setLinkExpired(false);
+    onRequestNewLink();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md">
+        <div className="p-8">
+          {isSuccess ? (
+            <div className="text-center">
+              <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="w-8 h-8 text-green-600" />
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                Password Updated
+              </h3>
+              <p className="text-gray-600 mb-6 leading-relaxed">
+                Your new password is set and you're signed in.
+              </p>
+              <button
+                onClick={() => setIsSuccess(false)}
+                className="w-full bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] transition-all duration-200"
+              >
+                Continue
+              </button>
+            </div>
+          ) : (
+            <>
+              {/* Header */}
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">Choose a New Password</h2>
+                {email && (
+                  <p className="text-gray-600 mt-2">
+                    For <strong>{email}</strong>
+                  </p>
+                )}
+              </div>
+
+              {/* Error Message */}
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                  {error}
+                  {linkExpired && (
+                    <button
+                      type="button"
+                      onClick={handleRequestNewLink}
+                      className="block mt-2 font-semibold underline hover:text-red-800"
+                    >
+                      Request a new link
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-2">
+                    New Password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Lock className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      type={showPassword ? 'text' : 'password'}
+                      id="new-password"
+                      value={password}
+                      onChange={(e) => {
+                        setPassword(e.target.value);
+                        if (error) setError('');
+                      }}
+                      className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                      placeholder="Enter a new password"
+                      autoComplete="new-password"
+                      disabled={isSubmitting}
+                      autoFocus
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                    </button>
+                  </div>
+
+                  {/* Strength */}
+                  {password && (
+                    <div className="mt-3">
+                      <div className="flex space-x-1">
+                        {[0, 1, 2, 3].map(index => (
+                          <div
+                            key={index}
+                            className={`h-1.5 flex-1 rounded-full ${index < Math.max(strength.score, 1) ? strengthColors[strength.score] : 'bg-gray-200'}`}
+                          />
+                        ))}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-600">
+                        {PASSWORD_STRENGTH_LABELS[strength.level]}
+                        {strength.warning && <span className="text-red-600"> · {strength.warning}</span>}
+                      </p>
+                    </div>
+                  )}
+
+                  <ul className="mt-3 space-y-1">
+                    {PASSWORD_REQUIREMENTS.map(requirement => {
+                      const met = requirement.test(password);
+                      return (
+                        <li key={requirement.id} className={`flex items-center text-xs ${met ? 'text-green-700' : 'text-gray-500'}`}>
+                          {met ? <CheckCircle className="w-3.5 h-3.5 mr-1.5" /> : <Circle className="w-3.5 h-3.5 mr-1.5" />}
+                          {requirement.label}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+
+                <div>
+                  <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-2">
+                    Confirm New Password
+                  </label>
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    id="confirm-password"
+                    value={confirmPassword}
+                    onChange={(e) => {
+                      setConfirmPassword(e.target.value);
+                      if (error) setError('');
+                    }}
+                    className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200 ${mismatch ? 'border-red-300' : 'border-gray-300'}`}
+                    placeholder="Repeat the new password"
+                    autoComplete="new-password"
+                    disabled={isSubmitting}
+                  />
+                  {mismatch && <p className="mt-1 text-xs text-red-600">The passwords do not match.</p>}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !strength.isValid || password !== confirmPassword}
+                  className="w-full bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Saving Password...
+                    </>
+                  ) : (
+                    'Set New Password'
+                  )}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  disabled={isSubmitting}
+                  className="w-full text-sm text-gray-600 hover:text-[#0EA5E9] transition-colors underline"
+                >
+                  Cancel and sign out
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
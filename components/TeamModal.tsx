@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { X, Users, Mail, Loader2, Send, Trash2, LogOut } from 'lucide-react';
+import { BrandRole, BRAND_ROLE_LABELS } from '../hooks/useBrands';
+import { TeamMember, PendingInvitation } from '../hooks/useBrandTeam';
+
+interface TeamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  brandName: string;
+  currentUserId: string;
+  isOwner: boolean;
+  members: TeamMember[];
+  pendingInvitations: PendingInvitation[];
+  onInvite: (email: string, role: Exclude<BrandRole, 'owner'>) => Promise<{ success: boolean; error?: string }>;
+  onRevoke: (invitationId: string) => Promise<boolean>;
+  onChangeRole: (memberId: string, role: BrandRole) => Promise<{ success: boolean; error?: string }>;
+  onRemove: (member: TeamMember) => Promise<{ success: boolean; error?: string }>;
+}
+
+const ROLE_DESCRIPTIONS: Record<BrandRole, string> = {
+  owner: 'Manages the brand and its team',
+  editor: 'Chats with the agent and edits documents',
+  viewer: 'Reads chats and deliverables',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function TeamModal({
+  isOpen,
+  onClose,
+  brandName,
+  currentUserId,
+  isOwner,
+  members,
+  pendingInvitations,
+  onInvite,
+  onRevoke,
+  onChangeRole,
+  onRemove,
+}: TeamModalProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Exclude<BrandRole, 'owner'>>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  if (!isOpen) return null;
+
+  const showResult = (result: { success: boolean; error?: string }) => {
+    if (!result.success) setError(result.error || 'Something went wrong. Please try again.');
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+
+    setIsInviting(true);
+    const result = await onInvite(email, role);
+    setIsInviting(false);
+
+    if (result.success) {
+      setNotice(`Invitation sent to ${email.trim()}.`);
+      setEmail('');
+    } else {
+      showResult(result);
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    const isSelf = member.userId === currentUserId;
+    const question = isSelf
+      ? `Leave ${brandName}? You will lose access to its chats and deliverables.`
+      : `Remove ${member.name} from ${brandName}?`;
+    if (!window.confirm(question)) return;
+
+    setError('');
+    const result = await onRemove(member);
+    showResult(result);
+    if (result.success && isSelf) onClose();
+  };
+
+  const handleClose = () => {
+    setError('');
+    setNotice('');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Users className="w-6 h-6 mr-2 text-[#0EA5E9]" />
+              {brandName} Team
+            </h2>
+            <button
+              onClick={handleClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {notice && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+              {notice}
+            </div>
+          )}
+
+          {/* Members */}
+          <ul className="divide-y divide-gray-100 mb-6">
+            {members.map(member => {
+              const isSelf = member.userId === currentUserId;
+              return (
+                <li key={member.id} className="py-3 flex items-center">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {member.name}{isSelf && <span className="text-gray-500"> (you)</span>}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {member.email} · joined {formatDate(member.joinedAt)}
+                    </div>
+                  </div>
+                  {isOwner && !isSelf ? (
+                    <select
+                      value={member.role}
+                      onChange={async (e) => {
+                        setError('');
+                        showResult(await onChangeRole(member.id, e.target.value as BrandRole));
+                      }}
+                      className="ml-3 text-sm border border-gray-300 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                      title={ROLE_DESCRIPTIONS[member.role]}
+                    >
+                      {(Object.keys(BRAND_ROLE_LABELS) as BrandRole[]).map(option => (
+                        <option key={option} value={option}>{BRAND_ROLE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="ml-3 text-xs font-medium text-gray-600 bg-gray-100 rounded-full px-2 py-1" title={ROLE_DESCRIPTIONS[member.role]}>
+                      {BRAND_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(member)}
+                      className="ml-2 p-1 text-gray-400 hover:text-red-600"
+                      title={isSelf ? 'Leave brand' : 'Remove member'}
+                    >
+                      {isSelf ? <LogOut className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {isOwner && (
+            <>
+              {/* Invite */}
+              <form onSubmit={handleInvite} className="pt-4 border-t border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900 mb-3">Invite someone</h3>
+                <div className="flex space-x-2">
+                  <div className="relative flex-1">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Mail className="h-4 w-4 text-gray-400" />
+                    </div>
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value);
+                        if (error) setError('');
+                      }}
+                      placeholder="colleague@example.com"
+                      className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent text-sm"
+                      disabled={isInviting}
+                      required
+                    />
+                  </div>
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as Exclude<BrandRole, 'owner'>)}
+                    className="border border-gray-300 rounded-xl px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                    disabled={isInviting}
+                  >
+                    <option value="editor">{BRAND_ROLE_LABELS.editor}</option>
+                    <option value="viewer">{BRAND_ROLE_LABELS.viewer}</option>
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={isInviting || !email.trim()}
+                    className="flex items-center px-3 py-2 bg-[#0EA5E9] text-white rounded-xl text-sm font-semibold hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  </button>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">{ROLE_DESCRIPTIONS[role]}.</p>
+              </form>
+
+              {/* Open invitations */}
+              {pendingInvitations.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Waiting for a reply</h3>
+                  <ul className="space-y-2">
+                    {pendingInvitations.map(invitation => (
+                      <li key={invitation.id} className="flex items-center text-sm px-3 py-2 bg-gray-50 rounded-lg">
+                        <span className="flex-1 truncate text-gray-800">{invitation.email}</span>
+                        <span className="ml-2 text-xs text-gray-500">
+                          {BRAND_ROLE_LABELS[invitation.role]} · {formatDate(invitation.createdAt)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => onRevoke(invitation.id)}
+                          className="ml-3 text-xs text-gray-500 hover:text-red-600 underline"
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import { X, Mic, Loader2, AlertCircle } from 'lucide-react';
+import {
+  InterviewTranscript,
+  SpeakerRole,
+  SPEAKER_ROLE_LABELS,
+  TranscriptFormat,
+  TranscriptTurn,
+  buildInterview,
+  formatTimestamp,
+  getSpeakers,
+  guessRoles,
+  readTranscriptFile,
+  stripFiller,
+} from '../lib/transcript';
+
+interface TranscriptReviewProps {
+  isOpen: boolean;
+  file: File | null;
+  // Suggested name, e.g. "Interview 2" when one is already attached
+  defaultLabel: string;
+  onClose: () => void;
+  onImport: (interview: InterviewTranscript) => void;
+}
+
+const roleStyles: Record<SpeakerRole, string> = {
+  interviewer: 'border-gray-300 bg-gray-50',
+  customer: 'border-[#0EA5E9] bg-blue-50',
+  other: 'border-gray-200 bg-white',
+};
+
+export default function TranscriptReview({ isOpen, file, defaultLabel, onClose, onImport }: TranscriptReviewProps) {
+  const [format, setFormat] = useState<TranscriptFormat>('txt');
+  const [turns, setTurns] = useState<TranscriptTurn[]>([]);
+  const [roles, setRoles] = useState<Record<string, SpeakerRole>>({});
+  const [label, setLabel] = useState(defaultLabel);
+  const [removeFiller, setRemoveFiller] = useState(true);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !file) return;
+
+    let cancelled = false;
+    setTurns([]);
+    setError('');
+    setLabel(defaultLabel);
+    setIsReading(true);
+    readTranscriptFile(file)
+      .then(result => {
+        if (cancelled) return;
+        setFormat(result.format);
+        setTurns(result.turns);
+        setRoles(guessRoles(result.turns));
+      })
+      .catch(readError => {
+        console.error('Transcript error:', readError);
+        if (!cancelled) setError(readError instanceof Error ? readError.message : `Could not read ${file.name}.`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsReading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, file]);
+
+  if (!isOpen || !file) return null;
+
+  const speakers = getSpeakers(turns);
+  const hasCustomer = speakers.some(speaker => roles[speaker] === 'customer');
+
+  const wordsBy = (speaker: string) =>
+    turns.filter(turn => turn.speaker === speaker).reduce((sum, turn) => sum + turn.text.split(/\s+/).length, 0);
+
+  const reassignTurn = (index: number, speaker: string) => {
+    setTurns(prev => prev.map((turn, i) => i === index ? { ...turn, speaker } : turn));
+  };
+
+  const handleImport = () => {
+    onImport(buildInterview({
+      label: label.trim() || defaultLabel,
+      fileName: file.name,
+      format,
+      turns,
+      roles,
+      removeFiller,
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center min-w-0">
+              <Mic className="w-6 h-6 mr-2 text-[#0EA5E9] flex-shrink-0" />
+              <span className="truncate">Review Transcript</span>
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-start">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isReading ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <Loader2 className="w-6 h-6 animate-spin mr-2" />
+              Reading {file.name}...
+            </div>
+          ) : turns.length > 0 && (
+            <div className="space-y-6">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">Interview name</span>
+                <input
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                />
+              </label>
+
+              {/* Speakers */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Who is who?</h3>
+                <div className="space-y-2">
+                  {speakers.map(speaker => (
+                    <div key={speaker} className="flex items-center justify-between p-3 border border-gray-200 rounded-xl">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{speaker}</div>
+                        <div className="text-xs text-gray-500">{wordsBy(speaker).toLocaleString()} words</div>
+                      </div>
+                      <select
+                        value={roles[speaker] || 'other'}
+                        onChange={(e) => setRoles(prev => ({ ...prev, [speaker]: e.target.value as SpeakerRole }))}
+                        className="text-sm border border-gray-300 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-[#0EA5E9]"
+                        aria-label={`Role of ${speaker}`}
+                      >
+                        {(Object.keys(SPEAKER_ROLE_LABELS) as SpeakerRole[]).map(role => (
+                          <option key={role} value={role}>{SPEAKER_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {!hasCustomer && (
+                  <p className="mt-2 text-xs text-red-600">Mark the customer so the agent knows whose answers to use.</p>
+                )}
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={removeFiller}
+                  onChange={(e) => setRemoveFiller(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-[#0EA5E9] focus:ring-[#0EA5E9]"
+                />
+                Remove filler words and stutters (um, uh, "I I")
+              </label>
+
+              {/* Turns */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                  Conversation <span className="font-normal text-gray-500">· fix the speaker of any turn that was attributed wrongly</span>
+                </h3>
+                <div className="max-h-[40vh] overflow-y-auto space-y-2 pr-1">
+                  {turns.map((turn, index) => {
+                    const text = removeFiller ? stripFiller(turn.text) : turn.text;
+                    return (
+                      <div key={index} className={`p-3 border-l-4 rounded-lg ${roleStyles[roles[turn.speaker] || 'other']} ${text ? '' : 'opacity-50'}`}>
+                        <div className="flex items-center justify-between mb-1">
+                          <select
+                            value={turn.speaker}
+                            onChange={(e) => reassignTurn(index, e.target.value)}
+                            className="text-xs font-medium bg-transparent border-none p-0 pr-6 focus:ring-0 text-gray-700"
+                            aria-label="Speaker"
+                          >
+                            {speakers.map(speaker => (
+                              <option key={speaker} value={speaker}>{speaker}</option>
+                            ))}
+                          </select>
+                          {turn.start !== undefined && (
+                            <span className="text-xs text-gray-400">{formatTimestamp(turn.start)}</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-800">{text || <em>Only filler, left out</em>}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3 pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 border border-gray-300 rounded-xl font-semibold text-gray-700 hover:bg-gray-50 transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isReading || turns.length === 0 || !hasCustomer}
+              className="bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              Add to message
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
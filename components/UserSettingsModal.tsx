@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { X, Eye, EyeOff, Loader2, User, Mail, Building, Lock, Save, Clock } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useBrands } from '../hooks/useBrands';
+import { getPasswordStrength } from '../lib/passwordPolicy';
+
+interface UserSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function UserSettingsModal({ isOpen, onClose }: UserSettingsModalProps) {
+  const { user, updateUserSettings, isLoading, pendingEmail, cancelEmailChange } = useAuth();
+  const { activeBrand, renameBrand } = useBrands();
+  // Only owners may rename a brand
+  const canRenameBrand = activeBrand?.role === 'owner';
+  const [showCurrentPassword, setShowCurrentPassword] = useState(false);
+  const [showNewPassword, setShowNewPassword] = useState(false);
+  const [formData, setFormData] = useState({
+    firstName: user?.firstName || '',
+    lastName: user?.lastName || '',
+    brandName: activeBrand?.name || '',
+    email: user?.email || '',
+    currentPassword: '',
+    newPassword: '',
+  });
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (error) setError('');
+    if (success) setSuccess('');
+  };
+
+  const emailChanged = !!user && formData.email.trim().toLowerCase() !== user.email.toLowerCase();
+  const needsCurrentPassword = emailChanged || !!formData.newPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (!formData.firstName || !formData.lastName || !formData.brandName || !formData.email) {
+      setError('All fields except password are required.');
+      return;
+    }
+
+    // Changing the email or the password needs the current password
+    if (needsCurrentPassword && !formData.currentPassword) {
+      setError(emailChanged
+        ? 'Enter your current password to change your email address.'
+        : 'Current password is required to set a new password.');
+      return;
+    }
+
+    if (formData.newPassword) {
+      const strength = getPasswordStrength(formData.newPassword, formData.email);
+      if (!strength.isValid) {
+        setError(strength.warning || `Your new password needs: ${strength.unmet.map(requirement => requirement.label.toLowerCase()).join(', ')}.`);
+        return;
+      }
+    }
+
+    const previousEmail = user?.email;
+    const requestedEmail = formData.email.trim();
+
+    // The brand name belongs to the active brand, not the account
+    if (activeBrand && canRenameBrand && formData.brandName.trim() !== activeBrand.name) {
+      if (!(await renameBrand(activeBrand.id, formData.brandName))) {
+        setError('Could not rename the brand. Please try again.');
+        return;
+      }
+    }
+
+    const result = await updateUserSettings({
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      email: requestedEmail,
+      currentPassword: formData.currentPassword || undefined,
+      newPassword: formData.newPassword || undefined,
+    });
+
+    if (result.success) {
+      setSuccess(result.emailChangePending
+        ? `Check both ${previousEmail} and ${requestedEmail} and confirm the change from each. Your email stays ${previousEmail} until then.`
+        : 'Settings updated successfully!');
+      // The account email only changes once both addresses confirm
+      setFormData(prev => ({ ...prev, email: previousEmail || prev.email, currentPassword: '', newPassword: '' }));
+    } else {
+      setError(result.error || 'Failed to update settings');
+    }
+  };
+
+  // Update form data when user changes
+  React.useEffect(() => {
+    if (user) {
+      setFormData(prev => ({
+        ...prev,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+      }));
+    }
+  }, [user]);
+
+  React.useEffect(() => {
+    setFormData(prev => ({ ...prev, brandName: activeBrand?.name || '' }));
+  }, [activeBrand?.id, activeBrand?.name]);
+
+  const handleCancelEmailChange = async () => {
+    setError('');
+    setSuccess('');
+    const result = await cancelEmailChange();
+    if (!result.success) {
+      setError(result.error || 'Could not cancel the email change.');
+    }
+  };
+
+  if (!isOpen || !user) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">Account Settings</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Success Message */}
+          {success && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+              {success}
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Form */}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {/* First Name */}
+            <div>
+              <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-2">
+                First Name
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <User className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  id="firstName"
+                  name="firstName"
+                  value={formData.firstName}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                  placeholder="Enter your first name"
+                  required
+                />
+              </div>
+            </div>
+
+            {/* Last Name */}
+            <div>
+              <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-2">
+                Last Name
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <User className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  id="lastName"
+                  name="lastName"
+                  value={formData.lastName}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                  placeholder="Enter your last name"
+                  required
+                />
+              </div>
+            </div>
+
+            {/* Brand Name */}
+            <div>
+              <label htmlFor="brandName" className="block text-sm font-medium text-gray-700 mb-2">
+                Active Brand Name
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Building className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  id="brandName"
+                  name="brandName"
+                  value={formData.brandName}
+                  onChange={handleInputChange}
+                  disabled={!canRenameBrand}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200 disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed"
+                  placeholder="Enter your brand name"
+                  required
+                />
+              </div>
+              {activeBrand && !canRenameBrand && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Only brand owners can rename {activeBrand.name}.
+                </p>
+              )}
+            </div>
+
+            {/* Email */}
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Mail className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="email"
+                  id="email"
+                  name="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                  placeholder="Enter your email address"
+                  required
+                />
+              </div>
+              {pendingEmail && (
+                <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start">
+                  <Clock className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <div>
+                    Waiting for confirmation to change to <strong>{pendingEmail}</strong>. Open the link sent to both
+                    addresses.
+                    <button
+                      type="button"
+                      onClick={handleCancelEmailChange}
+                      disabled={isLoading}
+                      className="block mt-1 font-semibold underline hover:text-amber-900 disabled:opacity-50"
+                    >
+                      Cancel email change
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Password Change Section */}
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Change Password</h3>
+              
+              {/* Current Password */}
+              <div className="mb-4">
+                <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Current Password
+                  {needsCurrentPassword && <span className="text-red-500"> *</span>}
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    type={showCurrentPassword ? 'text' : 'password'}
+                    id="currentPassword"
+                    name="currentPassword"
+                    value={formData.currentPassword}
+                    onChange={handleInputChange}
+                    className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                    placeholder="Enter current password"
+                    autoComplete="current-password"
+                    required={needsCurrentPassword}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowCurrentPassword(!showCurrentPassword)}
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                  >
+                    {showCurrentPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Required to change your email address or password.
+                </p>
+              </div>
+
+              {/* New Password */}
+              <div>
+                <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    type={showNewPassword ? 'text' : 'password'}
+                    id="newPassword"
+                    name="newPassword"
+                    value={formData.newPassword}
+                    onChange={handleInputChange}
+                    className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#0EA5E9] focus:border-transparent transition-all duration-200"
+                    placeholder="Enter new password"
+                    autoComplete="new-password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowNewPassword(!showNewPassword)}
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                  >
+                    {showNewPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Submit Button */}
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="flex-1 bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-5 h-5 mr-2" />
+                    Save Changes
+                  </>
+                )}
+              </button>
+              
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 border border-gray-300 rounded-xl font-semibold text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-all duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Mail, Loader2, CheckCircle } from 'lucide-react';
+import { VERIFICATION_RESEND_COOLDOWN_MS } from '../hooks/useAuth';
+
+interface VerifyEmailModalProps {
+  // The address waiting for confirmation; the modal is hidden without one
+  email: string | null;
+  // When the last verification email went out, to hold off the next resend
+  sentAt?: number;
+  onResend: () => Promise<{ success: boolean; error?: string }>;
+  onBackToLogin: () => void;
+}
+
+export default function VerifyEmailModal({ email, sentAt, onResend, onBackToLogin }: VerifyEmailModalProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+  const [resent, setResent] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const secondsLeft = sentAt ? Math.max(0, Math.ceil((sentAt + VERIFICATION_RESEND_COOLDOWN_MS - now) / 1000)) : 0;
+
+  // Tick once a second while the resend button is held off
+  useEffect(() => {
+    if (!email || secondsLeft === 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [email, secondsLeft]);
+
+  if (!email) return null;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setError('');
+    setResent(false);
+
+    const result = await onResend();
+
+    setIsSending(false);
+    setNow(Date.now());
+    if (result.success) {
+      setResent(true);
+    } else {
+      setError(result.error || 'Could not send the email. Please try again.');
+    }
+  };
+
+  const handleBackToLogin = () => {
+    setError('');
+    setResent(false);
+    onBackToLogin();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md">
+        <div className="p-8 text-center">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Mail className="w-8 h-8 text-[#0EA5E9]" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            Confirm Your Email
+          </h3>
+          <p className="text-gray-600 mb-6 leading-relaxed">
+            We sent a confirmation link to <strong>{email}</strong>. Open it to activate your account, then log in.
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {resent && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm flex items-center justify-center">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              A new link is on its way.
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleResend}
+            disabled={isSending || secondsLeft > 0}
+            className="w-full bg-[#0EA5E9] text-white py-3 px-6 rounded-xl font-semibold hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0EA5E9] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
+          >
+            {isSending ? (
+              <>
+                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                Sending...
+              </>
+            ) : secondsLeft > 0 ? (
+              `Resend in ${secondsLeft}s`
+            ) : (
+              'Resend Confirmation Email'
+            )}
+          </button>
+
+          <p className="mt-4 text-sm text-gray-500">
+            Can't find it? Check your spam folder.
+          </p>
+
+          <button
+            type="button"
+            onClick={handleBackToLogin}
+            className="mt-4 text-sm text-gray-600 hover:text-[#0EA5E9] transition-colors underline"
+          >
+            Back to login
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { ChatRequest } from '../lib/n8nClient';
+import { ExtractionResult, extractText, formatExtraction, isExtractable } from '../lib/textExtraction';
+
+export type AttachmentText =
+  | { status: 'extracting' }
+  | { status: 'ready'; result: ExtractionResult; original: string; text: string }
+  | { status: 'failed'; error: string };
+
+// Extracted text of chat attachments, keyed by file name like their document types
+export function useAttachmentText() {
+  const [texts, setTexts] = useState<{[key: string]: AttachmentText}>({});
+
+  const extract = (files: File[]) => {
+    files.filter(isExtractable).forEach(async file => {
+      setTexts(prev => ({ ...prev, [file.name]: { status: 'extracting' } }));
+
+      let next: AttachmentText;
+      try {
+        const result = await extractText(file);
+        const original = formatExtraction(result);
+        next = { status: 'ready', result, original, text: original };
+      } catch (error) {
+        console.error('Text extraction error:', error);
+        next = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      // The attachment may have been removed while it was being read
+      setTexts(prev => file.name in prev ? { ...prev, [file.name]: next } : prev);
+    });
+  };
+
+  const updateText = (fileName: string, text: string) => {
+    setTexts(prev => {
+      const current = prev[fileName];
+      return current?.status === 'ready' ? { ...prev, [fileName]: { ...current, text } } : prev;
+    });
+  };
+
+  const resetText = (fileName: string) => {
+    setTexts(prev => {
+      const current = prev[fileName];
+      return current?.status === 'ready' ? { ...prev, [fileName]: { ...current, text: current.original } } : prev;
+    });
+  };
+
+  const removeText = (fileName: string) => {
+    setTexts(prev => {
+      const rest = { ...prev };
+      delete rest[fileName];
+      return rest;
+    });
+  };
+
+  const clearTexts = () => setTexts({});
+
+  // The structured field sent with the chat request, in attachment order
+  const buildExtractedText = (files: File[]): ChatRequest['extractedText'] => {
+    const entries = files.flatMap((file, index) => {
+      const entry = texts[file.name];
+      if (entry?.status !== 'ready') return [];
+      return [{
+        filename: file.name,
+        index,
+        format: entry.result.format,
+        pageCount: entry.result.pageCount,
+        text: entry.text.trim(),
+        noTextLayer: entry.result.noTextLayer || undefined,
+        edited: entry.text !== entry.original || undefined,
+        truncated: entry.result.truncated || undefined,
+      }];
+    });
+    return entries.length > 0 ? entries : undefined;
+  };
+
+  return {
+    texts,
+    isExtracting: Object.values(texts).some(entry => entry.status === 'extracting'),
+    extract,
+    updateText,
+    resetText,
+    removeText,
+    clearTexts,
+    buildExtractedText,
+  };
+}
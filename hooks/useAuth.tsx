@@ -0,0 +1,599 @@
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import type { User as SupabaseUser } from '@supabase/supabase-js';
+import { User, AuthState, LoginCredentials, UserSettings } from '../types/auth';
+import { supabase } from '../lib/supabase';
+import { identifyUser } from '../lib/n8nClient';
+import { getPasswordStrength } from '../lib/passwordPolicy';
+import { routePath } from '../lib/routes';
+
+// One auth state for the whole app. AuthProvider owns the only onAuthStateChange
+// subscription; components and hooks read it through useAuth().
+
+interface SimpleSignupData {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  brandName: string;
+}
+
+// `users` holds the profile and `user_accounts` the account state; both rows are created by a
+// trigger at signup (see the linen_register migration)
+interface ProfileRow {
+  first_name: string;
+  last_name: string;
+  created_at: string;
+  last_login: string;
+}
+
+type AccountStatus = 'active' | 'suspended' | 'deactivated';
+
+const ACCOUNT_STATUS_ERRORS: Record<Exclude<AccountStatus, 'active'>, string> = {
+  suspended: 'This account has been suspended. Please contact support.',
+  deactivated: 'This account has been deactivated. Please contact support to reactivate it.',
+};
+
+const fetchProfile = async (userId: string): Promise<ProfileRow | null> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('first_name, last_name, created_at, last_login')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading profile:', error);
+    return null;
+  }
+  return data;
+};
+
+// Null when the account row can't be read; the user is let in rather than locked out
+const fetchAccountStatus = async (userId: string): Promise<AccountStatus | null> => {
+  const { data, error } = await supabase
+    .from('user_accounts')
+    .select('account_status')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading account status:', error);
+    return null;
+  }
+  return (data?.account_status as AccountStatus) || null;
+};
+
+const recordActivity = (userId: string, isLogin = false) => {
+  const now = new Date().toISOString();
+  if (isLogin) {
+    supabase.from('users').update({ last_login: now }).eq('id', userId)
+      .then(({ error }) => error && console.error('Error recording login:', error));
+  }
+  supabase.from('user_accounts').update({ last_activity: now }).eq('user_id', userId)
+    .then(({ error }) => error && console.error('Error recording activity:', error));
+};
+
+// Supabase sends expired or already used email links back with the error in the URL hash,
+// e.g. #error=access_denied&error_code=otp_expired&error_description=...
+const readAuthLinkError = (): string | null => {
+  if (typeof window === 'undefined' || !window.location.hash.includes('error')) return null;
+
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const code = params.get('error_code');
+  if (!code && !params.get('error')) return null;
+
+  if (code === 'otp_expired') {
+    return 'This email link has expired or has already been used. Request a new one below.';
+  }
+  return params.get('error_description') || 'This link is invalid. Request a new one below.';
+};
+
+// After the first of the two email-change confirmations Supabase redirects with a #message=...
+const readAuthLinkMessage = (): string | null => {
+  if (typeof window === 'undefined' || !window.location.hash.includes('message=')) return null;
+  return new URLSearchParams(window.location.hash.slice(1)).get('message');
+};
+
+// Where links in Supabase emails (verification, email change, password reset) send the user back to
+const getEmailRedirectUrl = (path = window.location.pathname) => `${window.location.origin}${path}`;
+
+// How long "Resend" stays disabled after a verification email is sent
+export const VERIFICATION_RESEND_COOLDOWN_MS = 60_000;
+
+// Why the user was signed out without pressing "Log out" in this tab
+export type SessionEndReason = 'expired' | 'other_tab' | Exclude<AccountStatus, 'active'>;
+
+export const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  expired: 'Your session has expired. Please log in again to continue.',
+  other_tab: 'You were signed out in another tab. Log in again to continue.',
+  ...ACCOUNT_STATUS_ERRORS,
+};
+
+// Written just before signing out so other tabs can tell a sign-out from an expired session
+const SIGN_OUT_MARKER_KEY = 'brand-challenger:signed-out-at';
+const SIGN_OUT_MARKER_WINDOW_MS = 10_000;
+
+// The one place a User is built. Before the profile row exists (or if it can't be read) the
+// values given at signup are used.
+const toUser = (authUser: SupabaseUser, profile: ProfileRow | null): User => ({
+  id: authUser.id,
+  email: authUser.email || '',
+  firstName: profile?.first_name ?? authUser.user_metadata?.firstName ?? '',
+  lastName: profile?.last_name ?? authUser.user_metadata?.lastName ?? '',
+  createdAt: new Date(profile?.created_at || authUser.created_at),
+  lastLogin: profile ? new Date(profile.last_login) : new Date(),
+});
+
+const isSameUser = (a: User, b: User) =>
+  a.id === b.id && a.email === b.email && a.firstName === b.firstName && a.lastName === b.lastName;
+
+const describePasswordUpdateError = (error: { name?: string; code?: string; message: string }) => {
+  if (error.name === 'AuthSessionMissingError' || error.code === 'session_not_found' || error.code === 'session_expired') {
+    return 'Your reset link has expired. Request a new one to choose a password.';
+  }
+  if (error.code === 'same_password') {
+    return 'Your new password must be different from your old one.';
+  }
+  if (error.code === 'weak_password') {
+    return 'That password is too weak. Choose a longer one with a mix of characters.';
+  }
+  return error.message;
+};
+
+function useAuthState() {
+  const [authState, setAuthState] = useState<AuthState>({
+    user: null,
+    isAuthenticated: false,
+    isLoading: true,
+  });
+  // Signed in through a password reset link; the user must choose a new password
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
+  const [authLinkError, setAuthLinkError] = useState<string | null>(readAuthLinkError);
+  const [authLinkMessage, setAuthLinkMessage] = useState<string | null>(readAuthLinkMessage);
+  // Signed up or tried to log in without confirming the email address yet
+  const [pendingVerification, setPendingVerification] = useState<{ email: string; sentAt?: number } | null>(null);
+  // Requested new address, waiting to be confirmed from both the old and the new inbox
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [sessionEnded, setSessionEnded] = useState<{ reason: SessionEndReason; email: string } | null>(null);
+  const userRef = useRef<User | null>(null);
+  const signingOutRef = useRef(false);
+  const loginInProgressRef = useRef(false);
+  const latestEventRef = useRef(0);
+  // True until the stored session has been checked; `isLoading` also covers login and signup
+  const [isInitializing, setIsInitializing] = useState(true);
+
+  // Keep the error out of the address bar so a reload doesn't show it again
+  useEffect(() => {
+    if ((authLinkError || authLinkMessage) && window.location.hash) {
+      window.history.replaceState(window.history.state, '', window.location.pathname + window.location.search);
+    }
+  }, []);
+
+  useEffect(() => {
+    const setUser = (user: User | null) => {
+      userRef.current = user;
+      setAuthState({ user, isAuthenticated: !!user, isLoading: false });
+    };
+
+    // Profile and account lookups run after the auth callback returns; awaiting Supabase inside
+    // it would deadlock the client. Only the latest event's lookup is applied.
+    const applySession = (authUser: SupabaseUser, onDone?: () => void) => {
+      const eventId = ++latestEventRef.current;
+      setTimeout(async () => {
+        const status = await fetchAccountStatus(authUser.id);
+        if (eventId !== latestEventRef.current) return;
+
+        if (status && status !== 'active') {
+          // login() reports this itself; a stored session just lands on the login page
+          if (!loginInProgressRef.current) setSessionEnded({ reason: status, email: authUser.email || '' });
+          signingOutRef.current = true;
+          await supabase.auth.signOut();
+          onDone?.();
+          return;
+        }
+
+        const profile = await fetchProfile(authUser.id);
+        if (eventId !== latestEventRef.current) return;
+
+        const next = toUser(authUser, profile);
+        const previous = userRef.current;
+        // SIGNED_IN also fires when the tab regains focus; keep the same object so hooks don't reload
+        setUser(previous && isSameUser(previous, next) ? previous : next);
+        setPendingEmail(authUser.new_email || null);
+        setPendingVerification(null);
+        setSessionEnded(null);
+        recordActivity(authUser.id);
+        onDone?.();
+      }, 0);
+    };
+
+    // INITIAL_SESSION replaces a separate getSession() call; the other events keep the user in
+    // sync, including sign-outs and refreshes broadcast from other tabs
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      switch (event) {
+        case 'INITIAL_SESSION':
+          if (session?.user) {
+            applySession(session.user, () => setIsInitializing(false));
+          } else {
+            setUser(null);
+            setIsInitializing(false);
+          }
+          break;
+        case 'SIGNED_IN':
+        case 'PASSWORD_RECOVERY':
+        case 'USER_UPDATED':
+          if (session?.user) applySession(session.user);
+          if (event === 'PASSWORD_RECOVERY') {
+            setIsPasswordRecovery(true);
+            setAuthLinkError(null);
+          }
+          break;
+        case 'TOKEN_REFRESHED':
+          if (session?.user) recordActivity(session.user.id);
+          break;
+        case 'SIGNED_OUT': {
+          latestEventRef.current++;
+          const previous = userRef.current;
+          if (previous && !signingOutRef.current) {
+            const signedOutAt = Number(localStorage.getItem(SIGN_OUT_MARKER_KEY) || 0);
+            setSessionEnded({
+              reason: Date.now() - signedOutAt < SIGN_OUT_MARKER_WINDOW_MS ? 'other_tab' : 'expired',
+              email: previous.email,
+            });
+          }
+          signingOutRef.current = false;
+          setIsPasswordRecovery(false);
+          setUser(null);
+          break;
+        }
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const login = async (credentials: LoginCredentials): Promise<{ success: boolean; error?: string; needsVerification?: boolean }> => {
+    try {
+      setAuthState(prev => ({ ...prev, isLoading: true }));
+      loginInProgressRef.current = true;
+
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email: credentials.email,
+        password: credentials.password,
+      });
+
+      if (error) {
+        setAuthState(prev => ({ ...prev, isLoading: false }));
+        if (error.code === 'email_not_confirmed') {
+          setPendingVerification({ email: credentials.email });
+          return { success: false, error: 'Please confirm your email address first. We can send you a new link.', needsVerification: true };
+        }
+        return { success: false, error: error.message };
+      }
+
+      if (data.user) {
+        // The session listener signs suspended and deactivated accounts straight back out
+        const status = await fetchAccountStatus(data.user.id);
+        if (status && status !== 'active') {
+          return { success: false, error: ACCOUNT_STATUS_ERRORS[status] };
+        }
+        recordActivity(data.user.id, true);
+
+        // Call identify-user webhook
+        try {
+          const responseData = await identifyUser({ userEmail: data.user.email || '' });
+          console.log('Identify-user webhook response (login):', responseData);
+        } catch (error) {
+          console.error('Failed to call identify-user webhook (login):', error);
+        }
+
+        return { success: true };
+      }
+
+      setAuthState(prev => ({ ...prev, isLoading: false }));
+      return { success: false, error: 'Login failed' };
+    } catch (error) {
+      console.error('Login error:', error);
+      setAuthState(prev => ({ ...prev, isLoading: false }));
+      return { success: false, error: 'Login failed. Please try again.' };
+    } finally {
+      loginInProgressRef.current = false;
+    }
+  };
+
+  const signup = async (signupData: SimpleSignupData): Promise<{ success: boolean; error?: string }> => {
+    try {
+      // Check if Supabase is configured before attempting signup
+      if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
+        return { 
+          success: false, 
+          error: 'Supabase is not configured. Please set up your environment variables and restart the server.' 
+        };
+      }
+
+      setAuthState(prev => ({ ...prev, isLoading: true }));
+
+      const { data, error } = await supabase.auth.signUp({
+        email: signupData.email,
+        password: signupData.password,
+        options: {
+          emailRedirectTo: getEmailRedirectUrl(routePath({ name: 'chat' })),
+          // Copied into the users and brands tables by the signup trigger
+          data: {
+            firstName: signupData.firstName.trim(),
+            lastName: signupData.lastName.trim(),
+            brandName: signupData.brandName.trim(),
+            registrationSource: 'web',
+          }
+        }
+      });
+
+      if (error) {
+        setAuthState(prev => ({ ...prev, isLoading: false }));
+        return { success: false, error: error.message };
+      }
+
+      if (data.user) {
+        // Call identify-user webhook
+        try {
+          const responseData = await identifyUser({ userEmail: data.user.email || '' });
+          console.log('Identify-user webhook response (signup):', responseData);
+        } catch (error) {
+          console.error('Failed to call identify-user webhook (signup):', error);
+        }
+
+        console.log('User signup completed with Supabase Auth:', data.user.email);
+        // Without a session the address has to be confirmed first, and no SIGNED_IN event
+        // will end the loading state
+        if (!data.session) {
+          setAuthState(prev => ({ ...prev, isLoading: false }));
+          setPendingVerification({ email: signupData.email, sentAt: Date.now() });
+        }
+        return { success: true };
+      }
+
+      setAuthState(prev => ({ ...prev, isLoading: false }));
+      return { success: false, error: 'Signup failed' };
+    } catch (error) {
+      console.error('Signup error:', error);
+      setAuthState(prev => ({ ...prev, isLoading: false }));
+      return { success: false, error: 'Signup failed. Please try again.' };
+    }
+  };
+
+  const logout = async () => {
+    signingOutRef.current = true;
+    localStorage.setItem(SIGN_OUT_MARKER_KEY, Date.now().toString());
+    try {
+      await supabase.auth.signOut();
+    } catch (error) {
+      signingOutRef.current = false;
+      console.error('Logout error:', error);
+    }
+    // State will be updated by the auth state change listener
+  };
+
+  const dismissSessionEnded = () => setSessionEnded(null);
+
+  const requestPasswordReset = async (email: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: getEmailRedirectUrl(routePath({ name: 'reset-password' })),
+      });
+
+      if (error) {
+        if (error.status === 429) {
+          return { success: false, error: 'Too many reset requests. Please wait a minute and try again.' };
+        }
+        return { success: false, error: error.message };
+      }
+
+      setAuthLinkError(null);
+      return { success: true };
+    } catch (error) {
+      console.error('Password reset error:', error);
+      return { success: false, error: 'Could not send the reset email. Please try again.' };
+    }
+  };
+
+  // Sets the new password for a session opened from a reset link
+  const completePasswordReset = async (password: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        return { success: false, error: describePasswordUpdateError(error) };
+      }
+
+      setIsPasswordRecovery(false);
+      return { success: true };
+    } catch (error) {
+      console.error('Password update error:', error);
+      return { success: false, error: 'Could not update your password. Please try again.' };
+    }
+  };
+
+  // Leaving the reset screen without a new password signs out of the recovery session
+  const cancelPasswordRecovery = async () => {
+    setIsPasswordRecovery(false);
+    await logout();
+  };
+
+  const clearAuthLinkError = () => setAuthLinkError(null);
+
+  const resendVerification = async (): Promise<{ success: boolean; error?: string }> => {
+    if (!pendingVerification) return { success: false, error: 'There is no email address to verify.' };
+
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email: pendingVerification.email,
+      options: { emailRedirectTo: getEmailRedirectUrl(routePath({ name: 'chat' })) },
+    });
+
+    if (error) {
+      if (error.status === 429) {
+        return { success: false, error: 'Please wait a minute before requesting another email.' };
+      }
+      return { success: false, error: error.message };
+    }
+
+    setPendingVerification(prev => prev && { ...prev, sentAt: Date.now() });
+    return { success: true };
+  };
+
+  const dismissVerification = () => setPendingVerification(null);
+
+  // Signing in again is how Supabase checks a password; the session stays the same user
+  const verifyCurrentPassword = async (password: string) => {
+    if (!authState.user) return false;
+    const { error } = await supabase.auth.signInWithPassword({ email: authState.user.email, password });
+    return !error;
+  };
+
+  const cancelEmailChange = async (): Promise<{ success: boolean; error?: string }> => {
+    if (!authState.user) return { success: false, error: 'User not authenticated.' };
+
+    // Supabase Auth ignores an update to the current address, so the change is cleared in the database
+    const { error } = await supabase.rpc('cancel_email_change');
+    if (error) {
+      console.error('Cancel email change error:', error);
+      return { success: false, error: 'Could not cancel the email change. Please try again.' };
+    }
+
+    // The stored session still carries the pending address until it is refreshed
+    await supabase.auth.refreshSession();
+    setPendingEmail(null);
+    return { success: true };
+  };
+
+  // The USER_UPDATED event that follows reloads the profile into the shared state
+  const updateUserSettings = async (settings: UserSettings): Promise<{ success: boolean; error?: string; emailChangePending?: boolean }> => {
+    if (!authState.user) {
+      return { success: false, error: 'User not authenticated.' };
+    }
+
+    const email = settings.email.trim();
+    const emailChanged = email.toLowerCase() !== authState.user.email.toLowerCase();
+
+    // Changing how the account is accessed needs the current password
+    if (emailChanged || settings.newPassword) {
+      if (!settings.currentPassword) {
+        return { success: false, error: 'Enter your current password to change your email or password.' };
+      }
+      if (!(await verifyCurrentPassword(settings.currentPassword))) {
+        return { success: false, error: 'Your current password is incorrect.' };
+      }
+    }
+
+    if (settings.newPassword) {
+      const strength = getPasswordStrength(settings.newPassword, email);
+      if (!strength.isValid) {
+        return { success: false, error: strength.warning || `Your new password needs: ${strength.unmet.map(requirement => requirement.label.toLowerCase()).join(', ')}.` };
+      }
+    }
+
+    try {
+      setAuthState(prev => ({ ...prev, isLoading: true }));
+
+      const { error: profileError } = await supabase
+        .from('users')
+        .update({
+          first_name: settings.firstName,
+          last_name: settings.lastName,
+        })
+        .eq('id', authState.user.id);
+
+      if (profileError) {
+        return { success: false, error: profileError.message };
+      }
+
+      // Keep the metadata in step for anything that still reads the session's user
+      const { error } = await supabase.auth.updateUser({
+        data: {
+          firstName: settings.firstName,
+          lastName: settings.lastName,
+        }
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // Update password if provided
+      if (settings.newPassword) {
+        const { error: passwordError } = await supabase.auth.updateUser({
+          password: settings.newPassword
+        });
+
+        if (passwordError) {
+          return { success: false, error: describePasswordUpdateError(passwordError) };
+        }
+      }
+
+      // Supabase emails both the old and the new address; the email only changes once both confirm
+      if (emailChanged) {
+        const { data, error: emailError } = await supabase.auth.updateUser(
+          { email },
+          { emailRedirectTo: getEmailRedirectUrl() },
+        );
+
+        if (emailError) {
+          if (emailError.code === 'email_exists') {
+            return { success: false, error: 'Another account already uses that email address.' };
+          }
+          return { success: false, error: emailError.message };
+        }
+
+        setPendingEmail(data.user?.new_email || email);
+        return { success: true, emailChangePending: true };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Settings update error:', error);
+      return { success: false, error: 'Failed to update settings. Please try again.' };
+    } finally {
+      setAuthState(prev => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  return {
+    ...authState,
+    isInitializing,
+    sessionEnded,
+    dismissSessionEnded,
+    login,
+    signup,
+    logout,
+    updateUserSettings,
+    isPasswordRecovery,
+    authLinkError,
+    requestPasswordReset,
+    completePasswordReset,
+    cancelPasswordRecovery,
+    clearAuthLinkError,
+    authLinkMessage,
+    clearAuthLinkMessage: () => setAuthLinkMessage(null),
+    pendingVerification,
+    resendVerification,
+    dismissVerification,
+    pendingEmail,
+    cancelEmailChange,
+  };
+}
+
+type AuthContextValue = ReturnType<typeof useAuthState>;
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const auth = useAuthState();
+  return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used inside <AuthProvider>');
+  }
+  return auth;
+}
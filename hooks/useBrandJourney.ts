@@ -0,0 +1,140 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import {
+  JourneyState,
+  PhaseId,
+  DocumentKey,
+  DeliverableKey,
+  INITIAL_JOURNEY_STATE,
+  checkPhaseAccess as checkAccess,
+  checkDocumentAccess as checkDocument,
+  submitDocument,
+  receiveDeliverable,
+} from '../lib/journey';
+
+export function useBrandJourney() {
+  const { user, isAuthenticated } = useAuth();
+  const { activeBrand } = useBrands();
+  const [journey, setJourneyState] = useState<JourneyState>(INITIAL_JOURNEY_STATE);
+  const [isLoading, setIsLoading] = useState(false);
+  // The latest journey, for updates made by callbacks that were created before it changed
+  const journeyRef = useRef(journey);
+
+  const setJourney = (nextJourney: JourneyState) => {
+    journeyRef.current = nextJourney;
+    setJourneyState(nextJourney);
+  };
+
+  // Load the active brand's journey when user logs in or switches brand
+  useEffect(() => {
+    if (isAuthenticated && user && activeBrand) {
+      loadJourney();
+    } else {
+      setJourney(INITIAL_JOURNEY_STATE);
+    }
+  }, [isAuthenticated, user, activeBrand?.id]);
+
+  const loadJourney = async () => {
+    if (!user || !activeBrand) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('brand_journeys')
+        .select('current_phase, submitted_documents, received_deliverables')
+        .eq('brand_id', activeBrand.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading brand journey:', error);
+        if (error.code === '42P01') {
+          console.log('Brand journey table not yet created - this is normal for new installations');
+        }
+        return;
+      }
+
+      if (!data) {
+        setJourney(INITIAL_JOURNEY_STATE);
+        return;
+      }
+
+      setJourney({
+        currentPhase: data.current_phase as PhaseId,
+        submittedDocuments: data.submitted_documents || {},
+        receivedDeliverables: data.received_deliverables || {},
+      });
+    } catch (error) {
+      console.error('Error loading brand journey:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Builds the next state from the latest journey, so two saves in a row never undo each other
+  const saveJourney = async (update: (current: JourneyState) => JourneyState) => {
+    if (!user || !isAuthenticated || !activeBrand) return false;
+
+    const current = journeyRef.current;
+    const nextJourney = update(current);
+    if (nextJourney === current) return true;
+
+    // Update locally first so the progress panel reacts immediately
+    setJourney(nextJourney);
+
+    try {
+      const { error } = await supabase
+        .from('brand_journeys')
+        .upsert({
+          user_id: user.id,
+          brand_id: activeBrand.id,
+          current_phase: nextJourney.currentPhase,
+          submitted_documents: nextJourney.submittedDocuments,
+          received_deliverables: nextJourney.receivedDeliverables,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'brand_id' });
+
+      if (error) {
+        console.error('Error saving brand journey:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error saving brand journey:', error);
+      return false;
+    }
+  };
+
+  const markDocumentSubmitted = (key: DocumentKey) => saveJourney(current => submitDocument(current, key));
+
+  const markDeliverableReceived = (key: DeliverableKey) => saveJourney(current => receiveDeliverable(current, key));
+
+  // Apply everything an agent reply reported in a single save
+  const recordProgress = (documents: DocumentKey[] = [], deliverables: DeliverableKey[] = []) =>
+    saveJourney(current => {
+      const newDocuments = documents.filter(key => !current.submittedDocuments[key]);
+      const newDeliverables = deliverables.filter(key => !current.receivedDeliverables[key]);
+      if (newDocuments.length === 0 && newDeliverables.length === 0) return current;
+
+      const withDocuments = newDocuments.reduce((state, key) => submitDocument(state, key), current);
+      return newDeliverables.reduce((state, key) => receiveDeliverable(state, key), withDocuments);
+    });
+
+  const checkPhaseAccess = (phaseId: PhaseId) => checkAccess(journey, phaseId);
+
+  const checkDocumentAccess = (key: DocumentKey) => checkDocument(journey, key);
+
+  return {
+    journey,
+    isLoading,
+    markDocumentSubmitted,
+    markDeliverableReceived,
+    recordProgress,
+    checkPhaseAccess,
+    checkDocumentAccess,
+    loadJourney,
+  };
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { useBrands, BrandRole } from './useBrands';
+import { routePath } from '../lib/routes';
+
+export interface TeamMember {
+  id: string;
+  userId: string;
+  role: BrandRole;
+  name: string;
+  email: string;
+  joinedAt: Date;
+}
+
+export interface PendingInvitation {
+  id: string;
+  email: string;
+  role: BrandRole;
+  createdAt: Date;
+}
+
+interface MemberRow {
+  id: string;
+  user_id: string;
+  role: string;
+  created_at: string;
+  users: { first_name: string; last_name: string; email: string } | null;
+}
+
+const toTeamMember = (row: MemberRow): TeamMember => ({
+  id: row.id,
+  userId: row.user_id,
+  role: row.role as BrandRole,
+  name: row.users ? `${row.users.first_name} ${row.users.last_name}`.trim() || row.users.email : 'Unknown member',
+  email: row.users?.email || '',
+  joinedAt: new Date(row.created_at),
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Members and invitations of the active brand
+export function useBrandTeam() {
+  const { user, isAuthenticated } = useAuth();
+  const { activeBrand, forgetBrand } = useBrands();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [pendingInvitations, setPendingInvitations] = useState<PendingInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isOwner = activeBrand?.role === 'owner';
+
+  // Load the team when user logs in or switches brand
+  useEffect(() => {
+    if (isAuthenticated && user && activeBrand) {
+      loadTeam();
+    } else {
+      setMembers([]);
+      setPendingInvitations([]);
+    }
+  }, [isAuthenticated, user, activeBrand?.id, activeBrand?.role]);
+
+  const loadTeam = async () => {
+    if (!user || !activeBrand) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('brand_members')
+        .select('id, user_id, role, created_at, users(first_name, last_name, email)')
+        .eq('brand_id', activeBrand.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading team:', error);
+        if (error.code === '42P01') {
+          console.log('Team tables not yet created - this is normal for new installations');
+        }
+        return;
+      }
+
+      setMembers((data as unknown as MemberRow[] || []).map(toTeamMember));
+
+      // Only owners can see who has been invited
+      if (activeBrand.role !== 'owner') {
+        setPendingInvitations([]);
+        return;
+      }
+
+      const { data: invitationData, error: invitationError } = await supabase
+        .from('brand_invitations')
+        .select('id, email, role, created_at')
+        .eq('brand_id', activeBrand.id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (invitationError) {
+        console.error('Error loading invitations:', invitationError);
+        return;
+      }
+
+      setPendingInvitations((invitationData || []).map(row => ({
+        id: row.id,
+        email: row.email,
+        role: row.role as BrandRole,
+        createdAt: new Date(row.created_at),
+      })));
+    } catch (error) {
+      console.error('Error loading team:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Stores the invitation, then has the invite-member edge function email it
+  const inviteMember = async (email: string, role: Exclude<BrandRole, 'owner'>): Promise<{ success: boolean; error?: string }> => {
+    if (!user || !activeBrand || !isOwner) {
+      return { success: false, error: 'Only owners can invite people to this brand.' };
+    }
+
+    const address = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(address)) {
+      return { success: false, error: 'Please enter a valid email address.' };
+    }
+    if (members.some(member => member.email.toLowerCase() === address)) {
+      return { success: false, error: 'This person is already a member of the brand.' };
+    }
+
+    const { data, error } = await supabase
+      .from('brand_invitations')
+      .insert({ brand_id: activeBrand.id, email: address, role, invited_by: user.id })
+      .select('id, email, role, created_at')
+      .single();
+
+    if (error) {
+      // 23505: an invitation for this address is already open
+      if (error.code === '23505') {
+        return { success: false, error: 'This address already has an open invitation.' };
+      }
+      console.error('Error creating invitation:', error);
+      return { success: false, error: error.message };
+    }
+
+    const { error: sendError } = await supabase.functions.invoke('invite-member', {
+      body: {
+        invitationId: data.id,
+        redirectTo: `${window.location.origin}${routePath({ name: 'chat' })}`,
+      },
+    });
+
+    if (sendError) {
+      console.error('Error sending invitation email:', sendError);
+      // Withdraw it so the open-invitation index doesn't block trying again
+      const { error: revokeError } = await supabase
+        .from('brand_invitations')
+        .update({ status: 'revoked', responded_at: new Date().toISOString() })
+        .eq('id', data.id);
+      if (revokeError) {
+        console.error('Error withdrawing unsent invitation:', revokeError);
+      }
+      return { success: false, error: `The invitation email to ${address} could not be sent. Please try again.` };
+    }
+
+    setPendingInvitations(prev => [{
+      id: data.id,
+      email: data.email,
+      role: data.role as BrandRole,
+      createdAt: new Date(data.created_at),
+    }, ...prev]);
+
+    return { success: true };
+  };
+
+  const revokeInvitation = async (invitationId: string): Promise<boolean> => {
+    const { data, error } = await supabase
+      .from('brand_invitations')
+      .update({ status: 'revoked', responded_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .select('id');
+
+    if (error) {
+      console.error('Error revoking invitation:', error);
+      return false;
+    }
+
+    // RLS filters rows the user may not change instead of raising an error
+    if (!data || data.length === 0) {
+      console.error('Error revoking invitation: not allowed or no longer exists');
+      return false;
+    }
+
+    setPendingInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+    return true;
+  };
+
+  const updateMemberRole = async (memberId: string, role: BrandRole): Promise<{ success: boolean; error?: string }> => {
+    const { data, error } = await supabase
+      .from('brand_members')
+      .update({ role })
+      .eq('id', memberId)
+      .select('id');
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      // P0001: keep_brand_owner refused to remove the last owner
+      return { success: false, error: error.code === 'P0001' ? 'A brand needs at least one owner.' : error.message };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Only brand owners can change roles.' };
+    }
+
+    setMembers(prev => prev.map(member => member.id === memberId ? { ...member, role } : member));
+    return { success: true };
+  };
+
+  // Removing yourself is leaving the brand
+  const removeMember = async (member: TeamMember): Promise<{ success: boolean; error?: string }> => {
+    if (!activeBrand) return { success: false, error: 'No brand selected.' };
+
+    const { data, error } = await supabase
+      .from('brand_members')
+      .delete()
+      .eq('id', member.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error removing member:', error);
+      return { success: false, error: error.code === 'P0001' ? 'A brand needs at least one owner.' : error.message };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Only brand owners can remove other members.' };
+    }
+
+    if (member.userId === user?.id) {
+      forgetBrand(activeBrand.id);
+    } else {
+      setMembers(prev => prev.filter(other => other.id !== member.id));
+    }
+    return { success: true };
+  };
+
+  // Names for author labels; former members have no entry
+  const getMemberName = (userId: string) => members.find(member => member.userId === userId)?.name;
+
+  return {
+    members,
+    pendingInvitations,
+    isOwner,
+    isLoading,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+    getMemberName,
+  };
+}
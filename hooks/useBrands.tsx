@@ -0,0 +1,255 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+// The brands a user works on and which one is active. Conversations, the journey, documents,
+// deliverables and competitors all belong to a brand; their hooks read the active one from here.
+// Each brand is a team workspace (see the cobalt_guild migration): the user's role decides what
+// they may change.
+
+export type BrandRole = 'owner' | 'editor' | 'viewer';
+
+export const BRAND_ROLE_LABELS: Record<BrandRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export interface Brand {
+  id: string;
+  name: string;
+  role: BrandRole;
+  createdAt: Date;
+}
+
+export interface BrandInvitation {
+  id: string;
+  brandId: string;
+  brandName: string;
+  role: BrandRole;
+  invitedByName: string;
+  createdAt: Date;
+}
+
+interface BrandRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+interface InvitationRow {
+  id: string;
+  brand_id: string;
+  brand_name: string;
+  role: string;
+  invited_by_name: string | null;
+  created_at: string;
+}
+
+const toBrand = (row: BrandRow, role: BrandRole): Brand => ({
+  id: row.id,
+  name: row.name,
+  role,
+  createdAt: new Date(row.created_at),
+});
+
+const toInvitation = (row: InvitationRow): BrandInvitation => ({
+  id: row.id,
+  brandId: row.brand_id,
+  brandName: row.brand_name,
+  role: row.role as BrandRole,
+  invitedByName: row.invited_by_name || 'A teammate',
+  createdAt: new Date(row.created_at),
+});
+
+// Remembered per user and browser, so a reload comes back to the same client
+const activeBrandKey = (userId: string) => `brand-challenger:active-brand:${userId}`;
+
+function useBrandsState() {
+  const { user, isAuthenticated } = useAuth();
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [activeBrandId, setActiveBrandId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<BrandInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load brands and open invitations when user logs in
+  useEffect(() => {
+    if (isAuthenticated && user) {
+      loadBrands();
+      loadInvitations();
+    } else {
+      setBrands([]);
+      setActiveBrandId(null);
+      setInvitations([]);
+    }
+  }, [isAuthenticated, user]);
+
+  // `preferBrandId` is selected once loaded, e.g. a brand whose invitation was just accepted
+  const loadBrands = async (preferBrandId?: string) => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+
+      // Every brand the user is a member of, their own and the ones they were invited to
+      const { data, error } = await supabase
+        .from('brand_members')
+        .select('role, brands(id, name, created_at)')
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error loading brands:', error);
+        if (error.code === '42P01') {
+          console.log('Brands table not yet created - this is normal for new installations');
+        }
+        return;
+      }
+
+      const loaded = (data || [])
+        .filter(row => row.brands)
+        .map(row => toBrand(row.brands as unknown as BrandRow, row.role as BrandRole))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      setBrands(loaded);
+
+      const remembered = preferBrandId || localStorage.getItem(activeBrandKey(user.id));
+      const active = loaded.find(brand => brand.id === remembered)?.id ?? loaded[0]?.id ?? null;
+      if (active && preferBrandId) localStorage.setItem(activeBrandKey(user.id), active);
+      setActiveBrandId(active);
+    } catch (error) {
+      console.error('Error loading brands:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadInvitations = async () => {
+    const { data, error } = await supabase.rpc('my_brand_invitations');
+
+    if (error) {
+      console.error('Error loading invitations:', error);
+      return;
+    }
+
+    setInvitations((data || []).map(toInvitation));
+  };
+
+  const acceptInvitation = async (invitationId: string): Promise<{ success: boolean; error?: string }> => {
+    const { data: brandId, error } = await supabase.rpc('accept_brand_invitation', { p_invitation_id: invitationId });
+
+    if (error) {
+      console.error('Error accepting invitation:', error);
+      await loadInvitations();
+      return { success: false, error: error.code === 'P0002' ? 'This invitation is no longer open.' : error.message };
+    }
+
+    setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+    await loadBrands(brandId as string);
+    return { success: true };
+  };
+
+  const declineInvitation = async (invitationId: string): Promise<{ success: boolean; error?: string }> => {
+    const { error } = await supabase.rpc('decline_brand_invitation', { p_invitation_id: invitationId });
+
+    if (error && error.code !== 'P0002') {
+      console.error('Error declining invitation:', error);
+      return { success: false, error: error.message };
+    }
+
+    setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+    return { success: true };
+  };
+
+  // After leaving a brand or being removed from it
+  const forgetBrand = (brandId: string) => {
+    const remaining = brands.filter(brand => brand.id !== brandId);
+    setBrands(remaining);
+    if (activeBrandId === brandId) setActiveBrandId(remaining[0]?.id ?? null);
+  };
+
+  const selectBrand = (brandId: string) => {
+    if (!user || !brands.some(brand => brand.id === brandId)) return;
+    localStorage.setItem(activeBrandKey(user.id), brandId);
+    setActiveBrandId(brandId);
+  };
+
+  // New brands become the active one
+  const createBrand = async (name: string): Promise<Brand | null> => {
+    if (!user || !isAuthenticated || !name.trim()) return null;
+
+    const { data, error } = await supabase
+      .from('brands')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select('id, name, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error creating brand:', error);
+      return null;
+    }
+
+    const brand = toBrand(data, 'owner');
+    setBrands(prev => [...prev, brand]);
+    localStorage.setItem(activeBrandKey(user.id), brand.id);
+    setActiveBrandId(brand.id);
+    return brand;
+  };
+
+  // Owners only; RLS rejects anyone else
+  const renameBrand = async (brandId: string, name: string): Promise<boolean> => {
+    if (!user || !isAuthenticated || !name.trim()) return false;
+
+    const { data, error } = await supabase
+      .from('brands')
+      .update({ name: name.trim(), updated_at: new Date().toISOString() })
+      .eq('id', brandId)
+      .select('id');
+
+    if (error) {
+      console.error('Error renaming brand:', error);
+      return false;
+    }
+
+    // RLS filters rows the user may not change instead of raising an error
+    if (!data || data.length === 0) {
+      console.error('Error renaming brand: not allowed or no longer exists');
+      return false;
+    }
+
+    setBrands(prev => prev.map(brand => brand.id === brandId ? { ...brand, name: name.trim() } : brand));
+    return true;
+  };
+
+  const activeBrand = brands.find(brand => brand.id === activeBrandId) ?? null;
+
+  return {
+    brands,
+    activeBrand,
+    // Viewers read the workspace but can't chat or change anything
+    canEdit: !!activeBrand && activeBrand.role !== 'viewer',
+    isLoading,
+    selectBrand,
+    createBrand,
+    renameBrand,
+    forgetBrand,
+    invitations,
+    acceptInvitation,
+    declineInvitation,
+  };
+}
+
+type BrandContextValue = ReturnType<typeof useBrandsState>;
+
+const BrandContext = createContext<BrandContextValue | null>(null);
+
+export function BrandProvider({ children }: { children: ReactNode }) {
+  const brands = useBrandsState();
+  return <BrandContext.Provider value={brands}>{children}</BrandContext.Provider>;
+}
+
+export function useBrands() {
+  const brands = useContext(BrandContext);
+  if (!brands) {
+    throw new Error('useBrands must be used inside <BrandProvider>');
+  }
+  return brands;
+}
@@ -0,0 +1,468 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import { latestLeaf, pathTo } from '../lib/messageTree';
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  // Team member who wrote a user message; unset for agent replies
+  authorId?: string;
+  // The message this one follows; siblings under one parent are branches (see lib/messageTree)
+  parentId?: string | null;
+  attachments?: Array<{
+    name: string;
+    size: number;
+    type: string;
+  }>;
+}
+
+export interface ChatConversation {
+  id: string;
+  sessionId: string;
+  title: string;
+  // Team member who started the conversation
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+}
+
+const createSessionId = () => crypto.randomUUID();
+
+export function useChatHistory() {
+  const { user, isAuthenticated } = useAuth();
+  const { activeBrand } = useBrands();
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  // Created up front so the first message already goes out with the session it will be stored under
+  const [currentSessionId, setCurrentSessionId] = useState<string>(createSessionId);
+  const [isLoading, setIsLoading] = useState(false);
+  // In-flight conversation creation, so messages sent back-to-back land in the same conversation
+  const pendingConversationRef = useRef<Promise<string | null> | null>(null);
+  // Messages are written one after another, so a reply's parent is always stored first
+  const persistQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Load the active brand's conversations when user logs in or switches brand
+  useEffect(() => {
+    if (isAuthenticated && user && activeBrand) {
+      loadConversations();
+    } else {
+      setConversations([]);
+      setCurrentConversationId(null);
+      setCurrentSessionId(createSessionId());
+      pendingConversationRef.current = null;
+    }
+  }, [isAuthenticated, user, activeBrand?.id]);
+
+  // Conversations belong to one brand, so switching starts a new one
+  useEffect(() => {
+    setCurrentConversationId(null);
+    setCurrentSessionId(createSessionId());
+    pendingConversationRef.current = null;
+  }, [activeBrand?.id]);
+
+  const loadConversations = async () => {
+    if (!user || !activeBrand) return;
+
+    try {
+      setIsLoading(true);
+      
+      // Load conversations first
+      const { data: conversationsData, error: conversationsError } = await supabase
+        .from('chat_conversations')
+        .select('id, user_id, session_id, title, created_at, updated_at')
+        .eq('brand_id', activeBrand.id)
+        .order('updated_at', { ascending: false });
+
+      if (conversationsError) {
+        console.error('Error loading conversations:', conversationsError);
+        // If tables don't exist, just return empty array instead of throwing
+        if (conversationsError.code === '42P01') {
+          console.log('Chat tables not yet created - this is normal for new installations');
+          setConversations([]);
+          return;
+        }
+        return;
+      }
+
+      // Load message counts separately
+      const { data: messagesData, error: messagesError } = await supabase
+        .from('chat_messages')
+        .select('conversation_id')
+        .in('conversation_id', (conversationsData || []).map(conv => conv.id));
+
+      if (messagesError) {
+        console.error('Error loading message counts:', messagesError);
+        return;
+      }
+
+      // Calculate message counts for each conversation
+      const messageCounts = (messagesData || []).reduce((acc, msg) => {
+        acc[msg.conversation_id] = (acc[msg.conversation_id] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
+      const formattedConversations: ChatConversation[] = (conversationsData || []).map(conv => ({
+        id: conv.id,
+        sessionId: conv.session_id,
+        title: conv.title,
+        createdBy: conv.user_id,
+        createdAt: new Date(conv.created_at),
+        updatedAt: new Date(conv.updated_at),
+        messageCount: messageCounts[conv.id] || 0
+      }));
+
+      setConversations(formattedConversations);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveConversation = async (messages: ChatMessage[], title?: string) => {
+    if (!user || !isAuthenticated || !activeBrand || messages.length === 0) {
+      console.log('Cannot save conversation: no user or no messages');
+      return null;
+    }
+
+    try {
+      setIsLoading(true);
+
+      // Generate title from first user message or use provided title
+      const conversationTitle = title || 
+        messages.find(m => m.sender === 'user')?.content.substring(0, 50) + '...' || 
+        'New Conversation';
+
+      // Create conversation
+      const { data: conversationData, error: conversationError } = await supabase
+        .from('chat_conversations')
+        .insert({
+          user_id: user.id,
+          brand_id: activeBrand.id,
+          title: conversationTitle
+        })
+        .select()
+        .single();
+
+      if (conversationError) {
+        console.error('Error creating conversation:', conversationError);
+        return null;
+      }
+
+      // Save messages
+      const messagesToInsert = messages.map(message => ({
+        conversation_id: conversationData.id,
+        content: message.content,
+        sender: message.sender,
+        author_id: message.sender === 'user' ? user.id : null,
+        timestamp: message.timestamp.toISOString(),
+        attachments: message.attachments ? JSON.stringify(message.attachments) : null
+      }));
+
+      const { error: messagesError } = await supabase
+        .from('chat_messages')
+        .insert(messagesToInsert);
+
+      if (messagesError) {
+        console.error('Error saving messages:', messagesError);
+        // Clean up conversation if messages failed to save
+        await supabase
+          .from('chat_conversations')
+          .delete()
+          .eq('id', conversationData.id);
+        return null;
+      }
+
+      // Reload conversations to update the list
+      await loadConversations();
+      
+      return conversationData.id;
+    } catch (error) {
+      console.error('Error saving conversation:', error);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Every message of a conversation, all branches, and the end of the branch it shows
+  const loadConversationTree = async (conversationId: string): Promise<{ messages: ChatMessage[]; activeMessageId: string | null }> => {
+    if (!user || !isAuthenticated) return { messages: [], activeMessageId: null };
+
+    try {
+      const [{ data: messagesData, error }, { data: conversationData }] = await Promise.all([
+        supabase
+          .from('chat_messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('timestamp', { ascending: true }),
+        supabase
+          .from('chat_conversations')
+          .select('active_message_id')
+          .eq('id', conversationId)
+          .maybeSingle(),
+      ]);
+
+      if (error) {
+        console.error('Error loading conversation messages:', error);
+        return { messages: [], activeMessageId: null };
+      }
+
+      const messages: ChatMessage[] = (messagesData || []).map(msg => ({
+        id: msg.id,
+        content: msg.content,
+        sender: msg.sender as 'user' | 'bot',
+        timestamp: new Date(msg.timestamp),
+        authorId: msg.author_id || undefined,
+        parentId: msg.parent_id ?? null,
+        // Older rows were saved as a JSON string, newer ones as a jsonb array
+        attachments: msg.attachments
+          ? (typeof msg.attachments === 'string' ? JSON.parse(msg.attachments) : msg.attachments)
+          : undefined
+      }));
+
+      const storedActiveId = conversationData?.active_message_id;
+      const activeMessageId = storedActiveId && messages.some(msg => msg.id === storedActiveId)
+        ? storedActiveId
+        : latestLeaf(messages, null);
+
+      return { messages, activeMessageId };
+    } catch (error) {
+      console.error('Error loading conversation messages:', error);
+      return { messages: [], activeMessageId: null };
+    }
+  };
+
+  // The branch the conversation shows, in order; used for exports and the history timeline
+  const loadConversationMessages = async (conversationId: string): Promise<ChatMessage[]> => {
+    const { messages, activeMessageId } = await loadConversationTree(conversationId);
+    return pathTo(messages, activeMessageId);
+  };
+
+  // Remembers which branch the current conversation shows
+  const setActiveMessage = async (messageId: string) => {
+    if (!currentConversationId) return;
+
+    const { error } = await supabase
+      .from('chat_conversations')
+      .update({ active_message_id: messageId })
+      .eq('id', currentConversationId);
+
+    if (error) {
+      console.error('Error saving active branch:', error);
+    }
+  };
+
+  // useN8NChatHistory finds the agent's memory through users_details, so every session must be linked there
+  const linkSessionToUser = async (sessionId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('users_details')
+      .insert({
+        authentification_id: user.id,
+        session_id: sessionId
+      });
+
+    // 23505: the session is already linked
+    if (error && error.code !== '23505') {
+      console.error('Error linking session to user details:', error);
+    }
+  };
+
+  const createConversation = async (title: string): Promise<string | null> => {
+    if (!user || !isAuthenticated || !activeBrand) return null;
+
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .insert({
+        user_id: user.id,
+        brand_id: activeBrand.id,
+        session_id: currentSessionId,
+        title
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating conversation:', error);
+      return null;
+    }
+
+    await linkSessionToUser(data.session_id);
+
+    setConversations(prev => [{
+      id: data.id,
+      sessionId: data.session_id,
+      title: data.title,
+      createdBy: data.user_id,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+      messageCount: 0
+    }, ...prev]);
+    setCurrentConversationId(data.id);
+
+    return data.id;
+  };
+
+  // Write a single live message, creating the conversation on the first one
+  const persistMessage = (message: ChatMessage): Promise<string | null> => {
+    const persisted = persistQueueRef.current.then(() => writeMessage(message));
+    persistQueueRef.current = persisted;
+    return persisted;
+  };
+
+  const writeMessage = async (message: ChatMessage): Promise<string | null> => {
+    if (!user || !isAuthenticated) return null;
+
+    try {
+      let conversationId = currentConversationId;
+
+      if (!conversationId) {
+        if (!pendingConversationRef.current) {
+          const title = message.sender === 'user'
+            ? message.content.substring(0, 50) + (message.content.length > 50 ? '...' : '')
+            : 'New Conversation';
+          pendingConversationRef.current = createConversation(title);
+        }
+        conversationId = await pendingConversationRef.current;
+        if (!conversationId) {
+          pendingConversationRef.current = null;
+          return null;
+        }
+      }
+
+      const { error } = await supabase
+        .from('chat_messages')
+        .insert({
+          id: message.id,
+          conversation_id: conversationId,
+          parent_id: message.parentId ?? null,
+          content: message.content,
+          sender: message.sender,
+          author_id: message.sender === 'user' ? user.id : null,
+          timestamp: message.timestamp.toISOString(),
+          attachments: message.attachments || null
+        });
+
+      if (error) {
+        console.error('Error saving message:', error);
+        return null;
+      }
+
+      const updatedAt = new Date();
+      await supabase
+        .from('chat_conversations')
+        .update({ updated_at: updatedAt.toISOString(), active_message_id: message.id })
+        .eq('id', conversationId);
+
+      // Bump the conversation to the top of the sidebar without reloading everything
+      setConversations(prev => {
+        const current = prev.find(conv => conv.id === conversationId);
+        if (!current) return prev;
+        return [
+          { ...current, updatedAt, messageCount: current.messageCount + 1 },
+          ...prev.filter(conv => conv.id !== conversationId)
+        ];
+      });
+
+      return conversationId;
+    } catch (error) {
+      console.error('Error saving message:', error);
+      return null;
+    }
+  };
+
+  // Conversation the next reply belongs to, waiting for it if the first message is still creating it
+  const resolveCurrentConversationId = async (): Promise<string | null> =>
+    currentConversationId || (pendingConversationRef.current ? await pendingConversationRef.current : null);
+
+  const startNewConversation = () => {
+    pendingConversationRef.current = null;
+    setCurrentConversationId(null);
+    setCurrentSessionId(createSessionId());
+  };
+
+  const selectConversation = (conversationId: string, sessionId?: string) => {
+    const conversationSessionId = sessionId ?? conversations.find(conv => conv.id === conversationId)?.sessionId;
+    if (!conversationSessionId) return;
+
+    pendingConversationRef.current = null;
+    setCurrentConversationId(conversationId);
+    setCurrentSessionId(conversationSessionId);
+  };
+
+  // Looks a conversation up outside the loaded list, e.g. a link to one in another of the user's brands.
+  // Null when it doesn't exist or RLS hides it, including ids that aren't uuids.
+  const findConversation = async (conversationId: string): Promise<{ id: string; brandId: string; sessionId: string } | null> => {
+    if (!user || !isAuthenticated) return null;
+
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .select('id, brand_id, session_id')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) {
+      // 22P02: not a uuid
+      if (error.code !== '22P02') console.error('Error finding conversation:', error);
+      return null;
+    }
+
+    return data ? { id: data.id, brandId: data.brand_id, sessionId: data.session_id } : null;
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    if (!user || !isAuthenticated) return false;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversations')
+        .delete()
+        .eq('id', conversationId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting conversation:', error);
+        return false;
+      }
+
+      // Reload conversations
+      await loadConversations();
+      
+      // Clear current conversation if it was deleted
+      if (currentConversationId === conversationId) {
+        setCurrentConversationId(null);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      return false;
+    }
+  };
+
+  return {
+    conversations,
+    currentConversationId,
+    currentSessionId,
+    setCurrentConversationId,
+    isLoading,
+    saveConversation,
+    persistMessage,
+    resolveCurrentConversationId,
+    startNewConversation,
+    selectConversation,
+    findConversation,
+    loadConversationMessages,
+    loadConversationTree,
+    setActiveMessage,
+    deleteConversation,
+    loadConversations
+  };
+}
\ No newline at end of file
@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import { DOCUMENTS_BUCKET } from '../lib/documentLibrary';
+import {
+  Competitor,
+  CompetitorAsset,
+  CompetitorDraft,
+  CompetitorPayload,
+  PricePositioning,
+  buildCompetitorAssetPath,
+  normalizeWebsite,
+} from '../lib/competitors';
+
+interface CompetitorRow {
+  id: string;
+  name: string;
+  website: string;
+  price_positioning: string | null;
+  target_customer: string;
+  channels: string[] | null;
+  notes: string;
+  assets: CompetitorAsset[] | null;
+  position: number;
+  updated_at: string;
+}
+
+const toCompetitor = (row: CompetitorRow): Competitor => ({
+  id: row.id,
+  name: row.name,
+  website: row.website,
+  pricePositioning: row.price_positioning as PricePositioning | null,
+  targetCustomer: row.target_customer,
+  channels: row.channels || [],
+  notes: row.notes,
+  assets: row.assets || [],
+  position: row.position,
+  updatedAt: new Date(row.updated_at),
+});
+
+const toRow = (draft: CompetitorDraft) => ({
+  name: draft.name.trim(),
+  website: normalizeWebsite(draft.website),
+  price_positioning: draft.pricePositioning,
+  target_customer: draft.targetCustomer.trim(),
+  channels: draft.channels,
+  notes: draft.notes.trim(),
+});
+
+// Asset links handed to the agent stay valid for a day
+const PAYLOAD_LINK_SECONDS = 60 * 60 * 24;
+
+export function useCompetitors() {
+  const { user, isAuthenticated } = useAuth();
+  const { activeBrand } = useBrands();
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the active brand's competitors when user logs in or switches brand
+  useEffect(() => {
+    if (isAuthenticated && user && activeBrand) {
+      loadCompetitors();
+    } else {
+      setCompetitors([]);
+    }
+  }, [isAuthenticated, user, activeBrand?.id]);
+
+  const loadCompetitors = async () => {
+    if (!user || !activeBrand) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('brand_competitors')
+        .select('*')
+        .eq('brand_id', activeBrand.id)
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error loading competitors:', error);
+        if (error.code === '42P01') {
+          console.log('Competitors table not yet created - this is normal for new installations');
+        }
+        return;
+      }
+
+      setCompetitors((data || []).map(toCompetitor));
+    } catch (error) {
+      console.error('Error loading competitors:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addCompetitor = async (draft: CompetitorDraft): Promise<Competitor | null> => {
+    if (!user || !isAuthenticated || !activeBrand) return null;
+
+    const { data, error } = await supabase
+      .from('brand_competitors')
+      .insert({
+        user_id: user.id,
+        brand_id: activeBrand.id,
+        ...toRow(draft),
+        position: competitors.length > 0 ? Math.max(...competitors.map(competitor => competitor.position)) + 1 : 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding competitor:', error);
+      return null;
+    }
+
+    const competitor = toCompetitor(data);
+    setCompetitors(prev => [...prev, competitor]);
+    return competitor;
+  };
+
+  const updateCompetitor = async (id: string, draft: CompetitorDraft): Promise<Competitor | null> => {
+    if (!user || !isAuthenticated) return null;
+
+    const { data, error } = await supabase
+      .from('brand_competitors')
+      .update({ ...toRow(draft), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating competitor:', error);
+      return null;
+    }
+
+    const competitor = toCompetitor(data);
+    setCompetitors(prev => prev.map(existing => existing.id === id ? competitor : existing));
+    return competitor;
+  };
+
+  const deleteCompetitor = async (competitor: Competitor) => {
+    if (!user || !isAuthenticated) return false;
+
+    const { error } = await supabase
+      .from('brand_competitors')
+      .delete()
+      .eq('id', competitor.id);
+
+    if (error) {
+      console.error('Error deleting competitor:', error);
+      return false;
+    }
+
+    if (competitor.assets.length > 0) {
+      const { error: storageError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .remove(competitor.assets.map(asset => asset.storagePath));
+
+      if (storageError) {
+        console.error('Error deleting competitor assets:', storageError);
+      }
+    }
+
+    setCompetitors(prev => prev.filter(existing => existing.id !== competitor.id));
+    return true;
+  };
+
+  const saveAssets = async (competitor: Competitor, assets: CompetitorAsset[]) => {
+    const { data, error } = await supabase
+      .from('brand_competitors')
+      .update({ assets, updated_at: new Date().toISOString() })
+      .eq('id', competitor.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving competitor assets:', error);
+      return null;
+    }
+
+    const updated = toCompetitor(data);
+    setCompetitors(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    return updated;
+  };
+
+  // Screenshots and lookbooks
+  const addAssets = async (competitor: Competitor, files: File[]): Promise<Competitor | null> => {
+    if (!user || !isAuthenticated) return null;
+
+    const uploaded: CompetitorAsset[] = [];
+    for (const file of files) {
+      const storagePath = buildCompetitorAssetPath(user.id, file.name);
+      const { error } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined });
+
+      if (error) {
+        console.error('Error uploading competitor asset:', error);
+        continue;
+      }
+      uploaded.push({ storagePath, fileName: file.name, mimeType: file.type || 'application/octet-stream' });
+    }
+
+    if (uploaded.length === 0) return null;
+
+    const updated = await saveAssets(competitor, [...competitor.assets, ...uploaded]);
+    if (!updated) {
+      // Don't leave orphaned files behind
+      await supabase.storage.from(DOCUMENTS_BUCKET).remove(uploaded.map(asset => asset.storagePath));
+    }
+    return updated;
+  };
+
+  const removeAsset = async (competitor: Competitor, asset: CompetitorAsset) => {
+    if (!user || !isAuthenticated) return null;
+
+    const updated = await saveAssets(competitor, competitor.assets.filter(existing => existing.storagePath !== asset.storagePath));
+    if (updated) {
+      await supabase.storage.from(DOCUMENTS_BUCKET).remove([asset.storagePath]);
+    }
+    return updated;
+  };
+
+  const getAssetUrl = async (asset: CompetitorAsset, expiresIn = 60 * 10): Promise<string | null> => {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(asset.storagePath, expiresIn);
+
+    if (error) {
+      console.error('Error creating asset link:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  };
+
+  // The typed payload sent to the agent in Phase 3
+  const buildCompetitorPayload = async (): Promise<CompetitorPayload[]> =>
+    Promise.all(competitors.map(async competitor => ({
+      name: competitor.name,
+      website: competitor.website,
+      pricePositioning: competitor.pricePositioning,
+      targetCustomer: competitor.targetCustomer,
+      channels: competitor.channels,
+      notes: competitor.notes,
+      assets: (await Promise.all(competitor.assets.map(async asset => {
+        const url = await getAssetUrl(asset, PAYLOAD_LINK_SECONDS);
+        return url ? [{ fileName: asset.fileName, mimeType: asset.mimeType, url }] : [];
+      }))).flat(),
+    })));
+
+  return {
+    competitors,
+    isLoading,
+    loadCompetitors,
+    addCompetitor,
+    updateCompetitor,
+    deleteCompetitor,
+    addAssets,
+    removeAsset,
+    getAssetUrl,
+    buildCompetitorPayload,
+  };
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import { DeliverableKey, PhaseId, getPhaseForDeliverable } from '../lib/journey';
+import { DeliverableDraft, DeliverableSource, DeliverableVersion } from '../lib/deliverables';
+
+const DELIVERABLE_COLUMNS = 'id, deliverable_key, phase, title, content, version, source, conversation_id, created_at';
+
+interface DeliverableRow {
+  id: string;
+  deliverable_key: string;
+  phase: string;
+  title: string;
+  content: string;
+  version: number;
+  source: string;
+  conversation_id: string | null;
+  created_at: string;
+}
+
+const toDeliverableVersion = (row: DeliverableRow): DeliverableVersion => ({
+  id: row.id,
+  key: row.deliverable_key as DeliverableKey,
+  phase: row.phase as PhaseId,
+  title: row.title,
+  content: row.content,
+  version: row.version,
+  source: row.source as DeliverableSource,
+  conversationId: row.conversation_id,
+  createdAt: new Date(row.created_at),
+});
+
+export function useDeliverables() {
+  const { user, isAuthenticated } = useAuth();
+  const { activeBrand } = useBrands();
+  const [versions, setVersions] = useState<DeliverableVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the active brand's library when user logs in or switches brand
+  useEffect(() => {
+    if (isAuthenticated && user && activeBrand) {
+      loadDeliverables();
+    } else {
+      setVersions([]);
+    }
+  }, [isAuthenticated, user, activeBrand?.id]);
+
+  const loadDeliverables = async () => {
+    if (!user || !activeBrand) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('brand_deliverables')
+        .select(DELIVERABLE_COLUMNS)
+        .eq('brand_id', activeBrand.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading deliverables:', error);
+        if (error.code === '42P01') {
+          console.log('Deliverables table not yet created - this is normal for new installations');
+        }
+        return;
+      }
+
+      setVersions((data || []).map(toDeliverableVersion));
+    } catch (error) {
+      console.error('Error loading deliverables:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Store each draft as the next version of its deliverable; unchanged content is not stored again
+  const saveDeliverables = async (drafts: DeliverableDraft[], conversationId: string | null) => {
+    if (!user || !isAuthenticated || !activeBrand || drafts.length === 0) return [];
+
+    const rows = drafts
+      .map(draft => {
+        const latest = versions
+          .filter(version => version.key === draft.key)
+          .reduce<DeliverableVersion | null>((max, version) => (!max || version.version > max.version ? version : max), null);
+
+        if (latest && latest.content === draft.content) return null;
+
+        return {
+          user_id: user.id,
+          brand_id: activeBrand.id,
+          deliverable_key: draft.key,
+          phase: getPhaseForDeliverable(draft.key).id,
+          title: draft.title,
+          content: draft.content,
+          version: (latest?.version || 0) + 1,
+          source: draft.source,
+          conversation_id: conversationId,
+        };
+      })
+      .filter((row): row is NonNullable<typeof row> => row !== null);
+
+    if (rows.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('brand_deliverables')
+        .insert(rows)
+        .select(DELIVERABLE_COLUMNS);
+
+      if (error) {
+        console.error('Error saving deliverables:', error);
+        // 23505: another tab stored the same version first, pick up its numbering
+        if (error.code === '23505') {
+          await loadDeliverables();
+        }
+        return [];
+      }
+
+      const saved = (data || []).map(toDeliverableVersion);
+
+      setVersions(prev => [...saved, ...prev]);
+      return saved;
+    } catch (error) {
+      console.error('Error saving deliverables:', error);
+      return [];
+    }
+  };
+
+  return {
+    versions,
+    isLoading,
+    saveDeliverables,
+    loadDeliverables,
+  };
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import { uploadDocument, N8NRequestError } from '../lib/n8nClient';
+import { DocumentType, guessDocumentType } from '../lib/documentLibrary';
+import {
+  IntakeItem,
+  ACTIVE_INTAKE_STATUSES,
+  MAX_CONCURRENT_UPLOADS,
+  interpretUploadResponse,
+  validateUploadFile,
+} from '../lib/documentIntake';
+
+interface DocumentIntakeOptions {
+  // Called once the workflow has taken a document, processed or still processing
+  onDocumentAccepted?: (item: IntakeItem) => void;
+}
+
+export function useDocumentIntake({ onDocumentAccepted }: DocumentIntakeOptions = {}) {
+  const { user } = useAuth();
+  const { activeBrand } = useBrands();
+  const [items, setItems] = useState<IntakeItem[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Read through a ref so uploads that started before a re-render report to the latest handler
+  const onAcceptedRef = useRef(onDocumentAccepted);
+  onAcceptedRef.current = onDocumentAccepted;
+
+  const updateItem = (id: string, changes: Partial<IntakeItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Abort whatever is still uploading when the intake goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  // Start queued uploads while there are free slots
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'uploading' || item.status === 'processing').length;
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active))
+      .forEach(startUpload);
+  }, [items]);
+
+  const startUpload = async (item: IntakeItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', progress: 0, message: undefined, error: undefined });
+
+    if (!user || !activeBrand) {
+      updateItem(item.id, { status: 'failed', error: 'Please log in to upload documents.' });
+      controllersRef.current.delete(item.id);
+      return;
+    }
+
+    try {
+      const response = await uploadDocument({
+        firstName: user.firstName,
+        lastName: user.lastName,
+        brandName: activeBrand.name,
+        brandId: activeBrand.id,
+        email: user.email,
+        // The upload workflow identifies users by email
+        userId: user.email,
+        file: item.file,
+        documentType: item.documentType,
+      }, {
+        signal: controller.signal,
+        onUploadProgress: (loaded, total) => updateItem(item.id, {
+          progress: total > 0 ? loaded / total : 0,
+          // The workflow starts once the last byte is in
+          status: loaded >= total ? 'processing' : 'uploading',
+        }),
+      });
+
+      const result = interpretUploadResponse(response);
+      updateItem(item.id, { ...result, progress: 1 });
+
+      if (result.status !== 'failed') {
+        onAcceptedRef.current?.({ ...item, ...result, progress: 1 });
+      }
+    } catch (error) {
+      if (error instanceof N8NRequestError && error.reason === 'aborted') {
+        updateItem(item.id, { status: 'cancelled' });
+        return;
+      }
+
+      console.error('Document upload error:', error);
+      updateItem(item.id, {
+        status: 'failed',
+        error: error instanceof N8NRequestError && error.reason === 'timeout'
+          ? 'The upload timed out. Please try again.'
+          : (error instanceof Error ? error.message : 'Unknown error'),
+      });
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  // Files are staged first so their document type can be checked before anything is sent
+  const addFiles = (files: File[]) => {
+    const added: IntakeItem[] = files.map(file => {
+      const rejection = validateUploadFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        documentType: guessDocumentType(file.name),
+        status: rejection ? 'failed' : 'ready',
+        progress: 0,
+        error: rejection || undefined,
+        rejected: !!rejection,
+      };
+    });
+    setItems(prev => [...prev, ...added]);
+  };
+
+  const setDocumentType = (id: string, documentType: DocumentType) => {
+    updateItem(id, { documentType });
+  };
+
+  const startAll = () => {
+    setItems(prev => prev.map(item => item.status === 'ready' ? { ...item, status: 'queued' } : item));
+  };
+
+  const cancel = (id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      setItems(prev => prev.map(item => item.id === id && ACTIVE_INTAKE_STATUSES.includes(item.status)
+        ? { ...item, status: 'cancelled' }
+        : item
+      ));
+    }
+  };
+
+  const retry = (id: string) => {
+    setItems(prev => prev.map(item => item.id === id && !item.rejected
+      ? { ...item, status: 'queued', progress: 0, error: undefined, message: undefined }
+      : item
+    ));
+  };
+
+  const remove = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const clearFinished = () => {
+    setItems(prev => prev.filter(item => item.status === 'ready' || ACTIVE_INTAKE_STATUSES.includes(item.status)));
+  };
+
+  return {
+    items,
+    activeCount: items.filter(item => ACTIVE_INTAKE_STATUSES.includes(item.status)).length,
+    addFiles,
+    setDocumentType,
+    startAll,
+    cancel,
+    retry,
+    remove,
+    clearFinished,
+  };
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import { PhaseId } from '../lib/journey';
+import {
+  DOCUMENTS_BUCKET,
+  DocumentType,
+  LibraryDocument,
+  buildStoragePath,
+  getDocumentPhase,
+} from '../lib/documentLibrary';
+
+interface DocumentRow {
+  id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  document_type: string;
+  phase: string | null;
+  uploaded_at: string;
+  updated_at: string;
+}
+
+const toLibraryDocument = (row: DocumentRow): LibraryDocument => ({
+  id: row.id,
+  storagePath: row.storage_path,
+  fileName: row.file_name,
+  mimeType: row.mime_type,
+  size: row.size_bytes,
+  documentType: row.document_type as DocumentType,
+  phase: row.phase as PhaseId | null,
+  uploadedAt: new Date(row.uploaded_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+export function useDocumentLibrary() {
+  const { user, isAuthenticated } = useAuth();
+  const { activeBrand } = useBrands();
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the active brand's library when user logs in or switches brand
+  useEffect(() => {
+    if (isAuthenticated && user && activeBrand) {
+      loadDocuments();
+    } else {
+      setDocuments([]);
+    }
+  }, [isAuthenticated, user, activeBrand?.id]);
+
+  const loadDocuments = async () => {
+    if (!user || !activeBrand) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('brand_documents')
+        .select('*')
+        .eq('brand_id', activeBrand.id)
+        .order('uploaded_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading documents:', error);
+        if (error.code === '42P01') {
+          console.log('Documents table not yet created - this is normal for new installations');
+        }
+        return;
+      }
+
+      setDocuments((data || []).map(toLibraryDocument));
+    } catch (error) {
+      console.error('Error loading documents:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const uploadDocument = async (file: File, documentType: DocumentType): Promise<LibraryDocument | null> => {
+    if (!user || !isAuthenticated || !activeBrand) return null;
+
+    try {
+      const storagePath = buildStoragePath(user.id, file.name);
+
+      const { error: uploadError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined });
+
+      if (uploadError) {
+        console.error('Error uploading document:', uploadError);
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('brand_documents')
+        .insert({
+          user_id: user.id,
+          brand_id: activeBrand.id,
+          storage_path: storagePath,
+          file_name: file.name,
+          mime_type: file.type || 'application/octet-stream',
+          size_bytes: file.size,
+          document_type: documentType,
+          phase: getDocumentPhase(documentType),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving document:', error);
+        // Don't leave an orphaned file behind
+        await supabase.storage.from(DOCUMENTS_BUCKET).remove([storagePath]);
+        return null;
+      }
+
+      const document = toLibraryDocument(data);
+      setDocuments(prev => [document, ...prev]);
+      return document;
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      return null;
+    }
+  };
+
+  // Swap the file behind a document, keeping its id and type
+  const replaceDocument = async (document: LibraryDocument, file: File): Promise<LibraryDocument | null> => {
+    if (!user || !isAuthenticated) return null;
+
+    try {
+      const storagePath = buildStoragePath(user.id, file.name);
+
+      const { error: uploadError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined });
+
+      if (uploadError) {
+        console.error('Error uploading replacement:', uploadError);
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('brand_documents')
+        .update({
+          storage_path: storagePath,
+          file_name: file.name,
+          mime_type: file.type || 'application/octet-stream',
+          size_bytes: file.size,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', document.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error replacing document:', error);
+        await supabase.storage.from(DOCUMENTS_BUCKET).remove([storagePath]);
+        return null;
+      }
+
+      await supabase.storage.from(DOCUMENTS_BUCKET).remove([document.storagePath]);
+
+      const replaced = toLibraryDocument(data);
+      setDocuments(prev => prev.map(doc => doc.id === replaced.id ? replaced : doc));
+      return replaced;
+    } catch (error) {
+      console.error('Error replacing document:', error);
+      return null;
+    }
+  };
+
+  const updateDocumentType = async (document: LibraryDocument, documentType: DocumentType) => {
+    if (!user || !isAuthenticated) return false;
+
+    const { error } = await supabase
+      .from('brand_documents')
+      .update({ document_type: documentType, phase: getDocumentPhase(documentType) })
+      .eq('id', document.id);
+
+    if (error) {
+      console.error('Error updating document type:', error);
+      return false;
+    }
+
+    setDocuments(prev => prev.map(doc => doc.id === document.id
+      ? { ...doc, documentType, phase: getDocumentPhase(documentType) }
+      : doc
+    ));
+    return true;
+  };
+
+  const deleteDocument = async (document: LibraryDocument) => {
+    if (!user || !isAuthenticated) return false;
+
+    try {
+      const { error } = await supabase
+        .from('brand_documents')
+        .delete()
+        .eq('id', document.id);
+
+      if (error) {
+        console.error('Error deleting document:', error);
+        return false;
+      }
+
+      const { error: storageError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .remove([document.storagePath]);
+
+      if (storageError) {
+        console.error('Error deleting stored file:', storageError);
+      }
+
+      setDocuments(prev => prev.filter(doc => doc.id !== document.id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      return false;
+    }
+  };
+
+  // Short-lived link for previewing a private file in the browser
+  const getPreviewUrl = async (document: LibraryDocument): Promise<string | null> => {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(document.storagePath, 60 * 10);
+
+    if (error) {
+      console.error('Error creating preview link:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  };
+
+  // Download the stored file so it can be attached to a new message
+  const fetchDocumentFile = async (document: LibraryDocument): Promise<File | null> => {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .download(document.storagePath);
+
+    if (error || !data) {
+      console.error('Error downloading document:', error);
+      return null;
+    }
+
+    return new File([data], document.fileName, { type: document.mimeType });
+  };
+
+  return {
+    documents,
+    isLoading,
+    loadDocuments,
+    uploadDocument,
+    replaceDocument,
+    updateDocumentType,
+    deleteDocument,
+    getPreviewUrl,
+    fetchDocumentFile,
+  };
+}
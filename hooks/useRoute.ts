@@ -0,0 +1,16 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { navigate, parseRoute, subscribeToRoute } from '../lib/routes';
+
+const getLocation = () => window.location.pathname + window.location.search;
+
+// The current route, re-rendering on navigation and the browser's back and forward buttons
+export function useRoute() {
+  const location = useSyncExternalStore(subscribeToRoute, getLocation);
+
+  const route = useMemo(() => {
+    const url = new URL(location, window.location.origin);
+    return parseRoute(url.pathname, url.search);
+  }, [location]);
+
+  return { route, location, navigate };
+}
@@ -0,0 +1,284 @@
+import { ChatResponse } from './n8nClient';
+import { PhaseId, DocumentKey, DeliverableKey, JOURNEY_PHASES } from './journey';
+
+/*
+  Agent response envelope, version 1
+
+  The chat workflow should answer with a JSON object of this shape:
+
+    {
+      "version": 1,
+      "body": "## Brand Analysis\n...",          // markdown, required (may be "" when only blocks/error are sent)
+      "blocks": [                                  // optional structured content rendered under the body
+        { "type": "table", "title": "...", "columns": ["..."], "rows": [["..."]] },
+        { "type": "list", "title": "...", "items": ["..."] },
+        { "type": "callout", "tone": "info" | "success" | "warning", "text": "..." },
+        { "type": "deliverable", "key": "uvp", "title": "...", "markdown": "..." }
+      ],
+      "phase": {                                   // optional journey metadata
+        "current": "foundations" | "customer_insights" | "market_positioning",
+        "documentsReceived": ["personality_interview_pap", ...],
+        "deliverables": ["brand_analysis", ...]
+      },
+      "error": { "code": "...", "message": "...", "retryable": true }   // optional
+    }
+
+  Anything without `"version": 1` goes through adaptLegacyResponse, which understands the
+  shapes the workflow used before the envelope existed.
+*/
+
+export const AGENT_ENVELOPE_VERSION = 1;
+
+export interface AgentTableBlock {
+  type: 'table';
+  title?: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export interface AgentListBlock {
+  type: 'list';
+  title?: string;
+  items: string[];
+}
+
+export interface AgentCalloutBlock {
+  type: 'callout';
+  tone: 'info' | 'success' | 'warning';
+  text: string;
+}
+
+export interface AgentDeliverableBlock {
+  type: 'deliverable';
+  key: DeliverableKey;
+  title: string;
+  markdown: string;
+}
+
+export type AgentBlock = AgentTableBlock | AgentListBlock | AgentCalloutBlock | AgentDeliverableBlock;
+
+export interface AgentPhaseMetadata {
+  current?: PhaseId;
+  documentsReceived?: DocumentKey[];
+  deliverables?: DeliverableKey[];
+}
+
+export interface AgentError {
+  code: string;
+  message: string;
+  retryable?: boolean;
+}
+
+export interface AgentEnvelope {
+  version: typeof AGENT_ENVELOPE_VERSION;
+  body: string;
+  blocks?: AgentBlock[];
+  phase?: AgentPhaseMetadata;
+  error?: AgentError;
+}
+
+export type EnvelopeValidation =
+  | { ok: true; envelope: AgentEnvelope }
+  | { ok: false; issues: string[] };
+
+const PHASE_IDS = JOURNEY_PHASES.map(phase => phase.id) as string[];
+const DOCUMENT_KEYS = JOURNEY_PHASES.flatMap(phase => phase.documents.map(doc => doc.key)) as string[];
+const DELIVERABLE_KEYS = JOURNEY_PHASES.flatMap(phase => phase.deliverables.map(item => item.key)) as string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const validateBlock = (block: unknown, path: string, issues: string[]) => {
+  if (!isRecord(block)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+
+  if (block.title !== undefined && typeof block.title !== 'string') {
+    issues.push(`${path}.title must be a string`);
+  }
+
+  switch (block.type) {
+    case 'table':
+      if (!isStringArray(block.columns)) issues.push(`${path}.columns must be an array of strings`);
+      if (!Array.isArray(block.rows) || !block.rows.every(isStringArray)) {
+        issues.push(`${path}.rows must be an array of string arrays`);
+      }
+      break;
+    case 'list':
+      if (!isStringArray(block.items)) issues.push(`${path}.items must be an array of strings`);
+      break;
+    case 'callout':
+      if (!['info', 'success', 'warning'].includes(block.tone as string)) {
+        issues.push(`${path}.tone must be info, success or warning`);
+      }
+      if (typeof block.text !== 'string') issues.push(`${path}.text must be a string`);
+      break;
+    case 'deliverable':
+      if (!DELIVERABLE_KEYS.includes(block.key as string)) issues.push(`${path}.key is not a known deliverable`);
+      if (typeof block.title !== 'string') issues.push(`${path}.title must be a string`);
+      if (typeof block.markdown !== 'string') issues.push(`${path}.markdown must be a string`);
+      break;
+    default:
+      issues.push(`${path}.type "${String(block.type)}" is not supported`);
+  }
+};
+
+export const validateAgentEnvelope = (value: unknown): EnvelopeValidation => {
+  const issues: string[] = [];
+
+  if (!isRecord(value)) {
+    return { ok: false, issues: ['envelope must be an object'] };
+  }
+
+  if (value.version !== AGENT_ENVELOPE_VERSION) {
+    issues.push(`version must be ${AGENT_ENVELOPE_VERSION}`);
+  }
+
+  if (typeof value.body !== 'string') {
+    issues.push('body must be a string');
+  }
+
+  if (value.blocks !== undefined) {
+    if (!Array.isArray(value.blocks)) {
+      issues.push('blocks must be an array');
+    } else {
+      value.blocks.forEach((block, index) => validateBlock(block, `blocks[${index}]`, issues));
+    }
+  }
+
+  if (value.phase !== undefined) {
+    const phase = value.phase;
+    if (!isRecord(phase)) {
+      issues.push('phase must be an object');
+    } else {
+      if (phase.current !== undefined && !PHASE_IDS.includes(phase.current as string)) {
+        issues.push('phase.current is not a known phase');
+      }
+      if (phase.documentsReceived !== undefined &&
+          !(isStringArray(phase.documentsReceived) && phase.documentsReceived.every(key => DOCUMENT_KEYS.includes(key)))) {
+        issues.push('phase.documentsReceived must list known document keys');
+      }
+      if (phase.deliverables !== undefined &&
+          !(isStringArray(phase.deliverables) && phase.deliverables.every(key => DELIVERABLE_KEYS.includes(key)))) {
+        issues.push('phase.deliverables must list known deliverable keys');
+      }
+    }
+  }
+
+  if (value.error !== undefined) {
+    const error = value.error;
+    if (!isRecord(error) || typeof error.code !== 'string' || typeof error.message !== 'string') {
+      issues.push('error must have a string code and message');
+    } else if (error.retryable !== undefined && typeof error.retryable !== 'boolean') {
+      issues.push('error.retryable must be a boolean');
+    }
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, envelope: value as unknown as AgentEnvelope };
+};
+
+// Text fields the workflow has used for the reply before the envelope, in priority order
+const LEGACY_TEXT_FIELDS = [
+  'output', 'message', 'content', 'data', 'response', 'text', 'result', 'answer', 'reply', 'body', 'value',
+];
+
+// Undo double-encoding (a JSON string whose newlines arrive as literal "\n") and HTML entities.
+// This only ever rewrites characters, it never drops lines.
+const decodeText = (text: string): string => {
+  let decoded = text;
+
+  if (!decoded.includes('\n') && decoded.includes('\\n')) {
+    decoded = decoded
+      .replace(/\\n/g, '\n')
+      .replace(/\\r/g, '')
+      .replace(/\\t/g, '\t')
+      .replace(/\\"/g, '"');
+  }
+
+  return decoded
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#34;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const extractLegacyText = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    // Some workflows JSON-encode the reply twice
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[') || trimmed.startsWith('"')) {
+      try {
+        return extractLegacyText(JSON.parse(trimmed));
+      } catch {
+        // Plain text that happens to start with a bracket
+      }
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? extractLegacyText(value[0]) : null;
+  }
+
+  if (isRecord(value)) {
+    for (const field of LEGACY_TEXT_FIELDS) {
+      const text = extractLegacyText(value[field]);
+      if (text && text.trim()) return text;
+    }
+  }
+
+  return null;
+};
+
+export const adaptLegacyResponse = (value: unknown): AgentEnvelope => {
+  const text = extractLegacyText(value);
+
+  if (text === null && isRecord(value)) {
+    // Unknown object shape: show it rather than guess which string matters
+    return {
+      version: AGENT_ENVELOPE_VERSION,
+      body: '```json\n' + JSON.stringify(value, null, 2) + '\n```',
+      error: { code: 'unrecognised_response', message: 'The agent answered in a format this app does not recognise.' },
+    };
+  }
+
+  return { version: AGENT_ENVELOPE_VERSION, body: decodeText(text || '') };
+};
+
+export const EMPTY_RESPONSE_ERROR: AgentError = {
+  code: 'empty_response',
+  message: 'The agent returned an empty response. Please try rephrasing your question or send it again.',
+  retryable: true,
+};
+
+export const normalizeAgentResponse = (response: ChatResponse | unknown): AgentEnvelope => {
+  let envelope: AgentEnvelope;
+
+  if (isRecord(response) && 'version' in response) {
+    const validation = validateAgentEnvelope(response);
+    // A valid envelope's body is markdown as the agent meant it, escapes and entities included
+    if (validation.ok) {
+      envelope = validation.envelope;
+    } else {
+      console.warn('Agent envelope failed validation, falling back to legacy adapter:', validation.issues);
+      envelope = adaptLegacyResponse(response);
+    }
+  } else {
+    envelope = adaptLegacyResponse(response);
+  }
+
+  if (!envelope.body && !envelope.blocks?.length && !envelope.error) {
+    return { ...envelope, error: EMPTY_RESPONSE_ERROR };
+  }
+
+  return envelope;
+};
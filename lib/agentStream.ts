@@ -0,0 +1,153 @@
+import { ChatRequest, N8NRequestOptions, N8NRequestError, n8nRequest, buildChatBody, parseResponseText } from './n8nClient';
+import { AgentEnvelope, normalizeAgentResponse } from './agentResponse';
+
+// Streaming chat replies.
+//
+// The chat webhook may answer in one of three ways:
+//   - Server-Sent Events (text/event-stream): each `data:` line is a chunk, `[DONE]` ends the stream
+//   - n8n streaming responses (application/x-ndjson / jsonl): one JSON object per line,
+//     `{ "type": "begin" | "item" | "end" | "error", "content": "..." }`
+//   - anything else is an older, non-streaming workflow and is read in one go
+//
+// A chunk is either a text delta or, as the last chunk, a complete agent envelope.
+
+export interface StreamChatResult {
+  envelope: AgentEnvelope;
+  // false when the workflow answered without streaming
+  streamed: boolean;
+  // true when the caller's signal stopped the stream; `envelope` holds what arrived until then
+  aborted: boolean;
+}
+
+export interface StreamChatHandlers {
+  // Called once the webhook has accepted the request, before its reply is read
+  onResponse?: () => void;
+  // Called with the full visible text so far every time a chunk arrives
+  onText?: (text: string) => void;
+}
+
+const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson, application/json;q=0.9, text/plain;q=0.8';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Whether streamed text is a JSON payload sent as tokens, which is parsed once complete instead of
+// shown. Only JSON framing counts (`{"`, `[{`, `["`), so markdown that opens with a link or a
+// bracket streams as usual. Undecided (undefined) until the first characters after `{` or `[` arrive.
+const isJsonFramed = (text: string): boolean | undefined => {
+  const start = text.trimStart();
+  if (/^[{[]?\s*$/.test(start)) return undefined;
+  return /^(?:\{\s*["}]|\[\s*[{"\]])/.test(start);
+};
+
+export const streamChatMessage = async (
+  request: ChatRequest,
+  handlers: StreamChatHandlers = {},
+  options: N8NRequestOptions = {},
+): Promise<StreamChatResult> => {
+  const response = await n8nRequest('chat', buildChatBody(request), {
+    ...options,
+    headers: { Accept: STREAM_ACCEPT, ...options.headers },
+  });
+  handlers.onResponse?.();
+
+  const contentType = response.headers.get('content-type') || '';
+  const isSse = contentType.includes('text/event-stream');
+  const isNdjson = contentType.includes('ndjson') || contentType.includes('jsonl');
+
+  if (!response.body || (!isSse && !isNdjson)) {
+    try {
+      const text = await response.text();
+      return { envelope: normalizeAgentResponse(parseResponseText(text)), streamed: false, aborted: false };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { envelope: normalizeAgentResponse(''), streamed: false, aborted: true };
+      }
+      throw error;
+    }
+  }
+
+  let text = '';
+  let finalPayload: unknown;
+  let aborted = false;
+  let jsonText: boolean | undefined;
+
+  const handleChunk = (data: string) => {
+    if (!data || data === '[DONE]') return;
+
+    let chunk: unknown;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      chunk = undefined;
+    }
+
+    // Plain text delta, including text that parses as a number, boolean or null, like "3" or "true"
+    if (typeof chunk !== 'string' && !isRecord(chunk)) {
+      text += data;
+      return;
+    }
+
+    if (typeof chunk === 'string') {
+      text += chunk;
+    } else if (isRecord(chunk) && 'version' in chunk) {
+      finalPayload = chunk;
+    } else if (isRecord(chunk) && chunk.type === 'error') {
+      throw new N8NRequestError(
+        `n8n chat stream failed: ${String(chunk.content || chunk.message || 'Unknown error')}`,
+        'chat',
+        'http',
+        500,
+      );
+    } else if (isRecord(chunk)) {
+      const delta = chunk.content ?? chunk.text ?? chunk.delta ?? chunk.token;
+      if (typeof delta === 'string') text += delta;
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // SSE events end with a blank line; NDJSON records with a newline
+  const separator = isSse ? /\r?\n\r?\n/ : /\r?\n/;
+  const handleRecord = (record: string) => {
+    if (!isSse) {
+      handleChunk(record.trim());
+      return;
+    }
+    const data = record
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    handleChunk(data);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const records = buffer.split(separator);
+      buffer = records.pop() || '';
+      records.forEach(handleRecord);
+
+      if (jsonText === undefined) jsonText = isJsonFramed(text);
+      if (jsonText === false) handlers.onText?.(text);
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) handleRecord(buffer);
+  } catch (error) {
+    if (!options.signal?.aborted) throw error;
+    aborted = true;
+    reader.cancel().catch(() => undefined);
+  }
+
+  const envelope = finalPayload !== undefined
+    ? normalizeAgentResponse(finalPayload)
+    : normalizeAgentResponse(parseResponseText(text));
+
+  return { envelope, streamed: true, aborted };
+};
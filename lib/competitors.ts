@@ -0,0 +1,181 @@
+import { AgentBlock } from './agentResponse';
+import { parseMarkdown, toPlainText } from './markdownBlocks';
+
+// Competitors for Phase 3, one row per competitor in `brand_competitors`. Screenshots and
+// lookbooks are stored next to the brand's documents under `<user id>/competitors/`.
+
+export const REQUIRED_COMPETITORS = 3;
+
+export type PricePositioning = 'budget' | 'mid_market' | 'premium' | 'luxury';
+
+export const PRICE_POSITIONING_OPTIONS: Array<{ value: PricePositioning; label: string }> = [
+  { value: 'budget', label: 'Budget' },
+  { value: 'mid_market', label: 'Mid-market' },
+  { value: 'premium', label: 'Premium' },
+  { value: 'luxury', label: 'Luxury' },
+];
+
+export const CHANNEL_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'online_store', label: 'Own online store' },
+  { value: 'marketplaces', label: 'Marketplaces' },
+  { value: 'social_commerce', label: 'Social commerce' },
+  { value: 'own_retail', label: 'Own stores' },
+  { value: 'wholesale', label: 'Wholesale / stockists' },
+  { value: 'pop_ups', label: 'Pop-ups & events' },
+];
+
+export interface CompetitorAsset {
+  storagePath: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface CompetitorDraft {
+  name: string;
+  website: string;
+  pricePositioning: PricePositioning | null;
+  targetCustomer: string;
+  channels: string[];
+  notes: string;
+}
+
+export interface Competitor extends CompetitorDraft {
+  id: string;
+  assets: CompetitorAsset[];
+  position: number;
+  updatedAt: Date;
+}
+
+// What the agent receives; asset links are signed and expire after a day
+export interface CompetitorPayload extends CompetitorDraft {
+  assets: Array<{ fileName: string; mimeType: string; url: string }>;
+}
+
+export const EMPTY_COMPETITOR: CompetitorDraft = {
+  name: '',
+  website: '',
+  pricePositioning: null,
+  targetCustomer: '',
+  channels: [],
+  notes: '',
+};
+
+export const getPricePositioningLabel = (value: PricePositioning | null) =>
+  PRICE_POSITIONING_OPTIONS.find(option => option.value === value)?.label || 'Not set';
+
+export const getChannelLabel = (value: string) =>
+  CHANNEL_OPTIONS.find(option => option.value === value)?.label || value;
+
+export const buildCompetitorAssetPath = (userId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-120);
+  return `${userId}/competitors/${crypto.randomUUID()}-${safeName}`;
+};
+
+// "acme.com" is accepted and stored as "https://acme.com"
+export const normalizeWebsite = (website: string) => {
+  const trimmed = website.trim();
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// ---------------------------------------------------------------------------
+// Competitor Benchmark
+// ---------------------------------------------------------------------------
+
+export interface BenchmarkTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface BenchmarkMatch {
+  table: BenchmarkTable;
+  // The reply without the table, which is shown as an editable comparison instead
+  content: string;
+  blocks?: AgentBlock[];
+}
+
+const BENCHMARK_TITLE = /benchmark|competitor/i;
+const MARKDOWN_TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+// Drop the first pipe table after `fromIndex` and return it alongside the remaining markdown
+const takeMarkdownTable = (markdown: string, fromIndex = 0): { table: BenchmarkTable; rest: string } | null => {
+  const lines = markdown.split('\n');
+  const start = lines.findIndex((line, index) => index >= fromIndex && MARKDOWN_TABLE_ROW.test(line));
+  if (start === -1) return null;
+
+  let end = start;
+  while (end < lines.length && MARKDOWN_TABLE_ROW.test(lines[end])) end++;
+
+  const parsed = parseMarkdown(lines.slice(start, end).join('\n'))
+    .find(block => block.type === 'table');
+  if (!parsed || parsed.type !== 'table') return null;
+
+  return {
+    table: {
+      columns: parsed.header.map(toPlainText),
+      rows: parsed.rows.map(row => row.map(toPlainText)),
+    },
+    rest: [...lines.slice(0, start), ...lines.slice(end)].join('\n'),
+  };
+};
+
+// Competitors read best as columns; agent tables usually have one row per competitor
+export const toSideBySide = (table: BenchmarkTable): BenchmarkTable => {
+  if (!/competitor|brand|name/i.test(table.columns[0] || '')) return table;
+
+  return {
+    columns: ['', ...table.rows.map(row => row[0] || '')],
+    rows: table.columns.slice(1).map((criterion, index) => [criterion, ...table.rows.map(row => row[index + 1] || '')]),
+  };
+};
+
+// Finds the Competitor Benchmark in a reply: a titled table block, the benchmark deliverable,
+// or a table under a "Competitor Benchmark" heading in the body
+export const findBenchmark = (content: string, blocks?: AgentBlock[]): BenchmarkMatch | null => {
+  const tableIndex = blocks?.findIndex(block => block.type === 'table' && BENCHMARK_TITLE.test(block.title || '')) ?? -1;
+  if (blocks && tableIndex !== -1) {
+    const block = blocks[tableIndex];
+    if (block.type === 'table') {
+      return {
+        table: toSideBySide({ columns: block.columns, rows: block.rows }),
+        content,
+        blocks: blocks.filter((_, index) => index !== tableIndex),
+      };
+    }
+  }
+
+  const deliverableIndex = blocks?.findIndex(block => block.type === 'deliverable' && block.key === 'competitor_benchmark') ?? -1;
+  if (blocks && deliverableIndex !== -1) {
+    const block = blocks[deliverableIndex];
+    const taken = block.type === 'deliverable' ? takeMarkdownTable(block.markdown) : null;
+    if (block.type === 'deliverable' && taken) {
+      return {
+        table: toSideBySide(taken.table),
+        content,
+        blocks: blocks.map((candidate, index) => index === deliverableIndex ? { ...block, markdown: taken.rest } : candidate),
+      };
+    }
+  }
+
+  const lines = content.split('\n');
+  const heading = lines.findIndex(line => /^#{1,4}\s+.*competitor benchmark/i.test(line));
+  if (heading !== -1) {
+    const taken = takeMarkdownTable(content, heading);
+    if (taken) {
+      // The table is shown under its own title, so the heading goes too
+      const rest = taken.rest.split('\n').filter((_, index) => index !== heading).join('\n');
+      return { table: toSideBySide(taken.table), content: rest, blocks };
+    }
+  }
+
+  return null;
+};
+
+const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const benchmarkToMarkdown = (table: BenchmarkTable) =>
+  [
+    `| ${table.columns.map(escapeCell).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${table.columns.map((_, index) => escapeCell(row[index] || '')).join(' | ')} |`),
+  ].join('\n');
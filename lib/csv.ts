@@ -0,0 +1,115 @@
+// CSV reading for exports from shops and spreadsheets: quoted fields with embedded
+// delimiters and line breaks, the delimiter Excel picked for the user's locale, and
+// files saved as UTF-8, UTF-16 or Windows-1252.
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+  encoding: string;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Excel's UTF-8 export starts with a BOM; UTF-16 is "Unicode text". Anything that is
+// not valid UTF-8 is most likely an older Windows export.
+export const decodeCsvBytes = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16LE' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16BE' };
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8' };
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+// Pick the delimiter that splits the first records into the same, largest number of columns
+export const detectDelimiter = (text: string) => {
+  const sample = text.slice(0, 20_000);
+
+  let best = ',';
+  let bestScore = 0;
+  DELIMITERS.forEach(delimiter => {
+    // The sample may cut the last record short, so it does not count towards consistency
+    const counts = splitRecords(sample, delimiter, 11).slice(0, 10).map(record => record.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+
+    const consistent = counts.every(count => count === counts[0]);
+    const score = counts[0] * (consistent ? 2 : 1);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// RFC 4180 with the usual leniency: quotes inside unquoted fields are kept as they are
+const splitRecords = (text: string, delimiter: string, limit = Infinity): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length && records.length < limit) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (records.length < limit && (field !== '' || record.length > 0)) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): Omit<ParsedCsv, 'encoding'> => {
+  const records = splitRecords(text, delimiter)
+    .filter(record => record.some(field => field.trim() !== ''));
+  const [headerRecord = [], ...rows] = records;
+
+  return {
+    headers: headerRecord.map((header, index) => header.trim() || `Column ${index + 1}`),
+    rows,
+    delimiter,
+  };
+};
+
+export const readCsvFile = async (file: File): Promise<ParsedCsv> => {
+  const { text, encoding } = decodeCsvBytes(await file.arrayBuffer());
+  return { ...parseCsv(text), encoding };
+};
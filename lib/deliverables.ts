@@ -0,0 +1,130 @@
+import { DeliverableKey, PhaseId, JourneyPhase, JOURNEY_PHASES, getPhaseForDeliverable } from './journey';
+import { AgentEnvelope, AgentDeliverableBlock } from './agentResponse';
+
+// Deliverables the agent produced, kept as versioned documents.
+//
+// A reply can hold deliverables in two ways:
+//   - tagged:   an envelope `deliverable` block, which names the deliverable explicitly
+//   - detected: a markdown section in the reply body whose heading is a deliverable name,
+//               e.g. "## Ideal Customer Map", for workflows that do not tag their output yet
+
+export type DeliverableSource = 'tagged' | 'detected';
+
+export interface DeliverableDraft {
+  key: DeliverableKey;
+  title: string;
+  content: string;
+  source: DeliverableSource;
+}
+
+export interface DeliverableVersion extends DeliverableDraft {
+  id: string;
+  phase: PhaseId;
+  version: number;
+  conversationId: string | null;
+  createdAt: Date;
+}
+
+export interface DeliverableHistory {
+  key: DeliverableKey;
+  label: string;
+  // Newest first; empty when the deliverable has not been produced yet
+  versions: DeliverableVersion[];
+}
+
+export interface PhaseDeliverables {
+  phase: JourneyPhase;
+  deliverables: DeliverableHistory[];
+}
+
+// Headings that name a deliverable. Document recommendations are only picked up when tagged.
+const HEADING_ALIASES: Partial<Record<DeliverableKey, string[]>> = {
+  brand_analysis: ['brand analysis'],
+  brand_summary: ['brand summary'],
+  uvp: ['uvp', 'brand uvp', 'unique value proposition', 'your unique value proposition'],
+  ideal_customer_map: ['ideal customer map', 'ideal customer'],
+  competitor_benchmark: ['competitor benchmark', 'competitive benchmark', 'competitor analysis'],
+  positioning: ['positioning', 'brand positioning', 'positioning statement'],
+  brand_voice: ['brand voice', 'tone of voice', 'brand voice guidelines'],
+};
+
+// Shorter sections are mentions ("next we will work on your Brand Voice"), not the deliverable itself
+const MIN_DETECTED_LENGTH = 200;
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.+?)\s*#*\s*$/;
+
+const normalizeHeading = (heading: string) =>
+  heading
+    .replace(/[*_`]/g, '')
+    .replace(/^[^a-z]*/i, '')
+    .replace(/[:.\s]+$/, '')
+    .toLowerCase();
+
+const matchHeading = (heading: string): DeliverableKey | null => {
+  const normalized = normalizeHeading(heading);
+  const match = (Object.keys(HEADING_ALIASES) as DeliverableKey[])
+    .find(key => HEADING_ALIASES[key]!.includes(normalized));
+  return match || null;
+};
+
+export const getDeliverableLabel = (key: DeliverableKey): string =>
+  getPhaseForDeliverable(key).deliverables.find(item => item.key === key)!.label;
+
+// Each matching heading starts a section that runs until the next heading of the same or a higher level
+export const detectDeliverables = (markdown: string): DeliverableDraft[] => {
+  const lines = markdown.split('\n');
+  const found: DeliverableDraft[] = [];
+
+  for (let start = 0; start < lines.length; start++) {
+    const heading = lines[start].match(HEADING_PATTERN);
+    if (!heading) continue;
+
+    const key = matchHeading(heading[2]);
+    if (!key || found.some(draft => draft.key === key)) continue;
+
+    const level = heading[1].length;
+    let end = start + 1;
+    while (end < lines.length) {
+      const next = lines[end].match(HEADING_PATTERN);
+      if (next && next[1].length <= level) break;
+      end++;
+    }
+
+    const content = lines.slice(start + 1, end).join('\n').trim();
+    if (content.length >= MIN_DETECTED_LENGTH) {
+      found.push({ key, title: getDeliverableLabel(key), content, source: 'detected' });
+    }
+  }
+
+  return found;
+};
+
+// Tagged blocks win over a section detected for the same deliverable
+export const extractDeliverables = (envelope: AgentEnvelope): DeliverableDraft[] => {
+  const tagged = (envelope.blocks || [])
+    .filter((block): block is AgentDeliverableBlock => block.type === 'deliverable')
+    .map((block): DeliverableDraft => ({
+      key: block.key,
+      title: block.title || getDeliverableLabel(block.key),
+      content: block.markdown.trim(),
+      source: 'tagged',
+    }))
+    .filter(draft => draft.content.length > 0);
+
+  const detected = envelope.error ? [] : detectDeliverables(envelope.body)
+    .filter(draft => !tagged.some(other => other.key === draft.key));
+
+  return [...tagged, ...detected];
+};
+
+export const groupDeliverablesByPhase = (versions: DeliverableVersion[]): PhaseDeliverables[] =>
+  JOURNEY_PHASES.map(phase => ({
+    phase,
+    deliverables: phase.deliverables.map(item => ({
+      key: item.key,
+      label: item.label,
+      versions: versions
+        .filter(version => version.key === item.key)
+        .sort((a, b) => b.version - a.version),
+    })),
+  }));
@@ -0,0 +1,102 @@
+import { DocumentUploadResponse } from './n8nClient';
+import { DocumentType } from './documentLibrary';
+
+// Document intake: files sent to the n8n document-upload workflow for processing.
+//
+//   ready -> queued -> uploading -> processing -> processed | accepted | failed
+//                                   (any active state) -> cancelled
+//
+// `processing` covers the time between the last byte sent and the workflow's answer.
+// `accepted` means the workflow took the file but reported that it is still working on it.
+
+export type IntakeStatus = 'ready' | 'queued' | 'uploading' | 'processing' | 'processed' | 'accepted' | 'failed' | 'cancelled';
+
+export interface IntakeItem {
+  id: string;
+  file: File;
+  documentType: DocumentType;
+  status: IntakeStatus;
+  // 0..1 of the upload itself
+  progress: number;
+  // Status text reported by the workflow
+  message?: string;
+  error?: string;
+  // Rejected before upload (wrong type, too large); retrying would not help
+  rejected?: boolean;
+}
+
+export const INTAKE_STATUS_LABELS: Record<IntakeStatus, string> = {
+  ready: 'Ready',
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  processed: 'Processed',
+  accepted: 'Processing in n8n',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const ACTIVE_INTAKE_STATUSES: IntakeStatus[] = ['queued', 'uploading', 'processing'];
+
+export const MAX_CONCURRENT_UPLOADS = 2;
+
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+export const UPLOAD_ACCEPT = '.pdf,.doc,.docx,.csv,.txt,.vtt,.srt,.jpg,.jpeg,.png,.gif,.webp,text/csv,application/csv';
+
+const ALLOWED_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'text/vtt',
+  'application/x-subrip',
+  'text/csv',
+  'application/csv',
+  'application/vnd.ms-excel', // For CSV files that might be detected as Excel
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+
+export const isCsvFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.csv') ||
+  file.type === 'text/csv' ||
+  file.type === 'application/csv' ||
+  file.type === 'application/vnd.ms-excel';
+
+// Returns the reason a file cannot be uploaded, or null when it is fine
+export const validateUploadFile = (file: File): string | null => {
+  // Subtitle transcripts often come without a MIME type
+  if (!ALLOWED_TYPES.includes(file.type) && !isCsvFile(file) && !/\.(vtt|srt)$/i.test(file.name)) {
+    return 'Invalid file type. Please select PDF, Word, CSV, text, transcript, or image files.';
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return 'File size must be less than 10MB.';
+  }
+  return null;
+};
+
+const FAILED_STATES = ['error', 'failed', 'failure', 'rejected'];
+const PENDING_STATES = ['processing', 'pending', 'queued', 'accepted', 'running', 'in_progress'];
+
+// The workflow has answered with plain text, `{ message }` and `{ status, message }`; anything
+// that does not report a failure or pending work counts as processed
+export const interpretUploadResponse = (response: DocumentUploadResponse): Pick<IntakeItem, 'status' | 'message' | 'error'> => {
+  const rawStatus = String(response.status ?? response.state ?? '').toLowerCase();
+  const message = typeof response.message === 'string' && response.message.trim() ? response.message.trim() : undefined;
+  const error = typeof response.error === 'string'
+    ? response.error
+    : (response.error && typeof response.error === 'object' && typeof (response.error as Record<string, unknown>).message === 'string'
+      ? (response.error as Record<string, string>).message
+      : undefined);
+
+  if (error || response.success === false || FAILED_STATES.includes(rawStatus)) {
+    return { status: 'failed', error: error || message || 'The workflow could not process this document.' };
+  }
+  if (PENDING_STATES.includes(rawStatus)) {
+    return { status: 'accepted', message: message || 'Received, still being processed' };
+  }
+  return { status: 'processed', message: message || 'Processed' };
+};
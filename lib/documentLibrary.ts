@@ -0,0 +1,53 @@
+import { DocumentKey, PhaseId, JOURNEY_PHASES, getPhaseForDocument } from './journey';
+
+// Documents uploaded by the client, kept in Supabase Storage so they can be reused across sessions.
+// Files live in the private `brand-documents` bucket under `<user id>/`, one row per file in
+// `brand_documents` describes what the file is.
+
+export const DOCUMENTS_BUCKET = 'brand-documents';
+
+export type DocumentType = DocumentKey | 'other';
+
+export interface LibraryDocument {
+  id: string;
+  storagePath: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  documentType: DocumentType;
+  phase: PhaseId | null;
+  uploadedAt: Date;
+  updatedAt: Date;
+}
+
+export const DOCUMENT_TYPE_OPTIONS: Array<{ value: DocumentType; label: string }> = [
+  ...JOURNEY_PHASES.flatMap(phase => phase.documents.map(doc => ({ value: doc.key as DocumentType, label: doc.label }))),
+  { value: 'other', label: 'Other document' },
+];
+
+export const getDocumentTypeLabel = (type: DocumentType) =>
+  DOCUMENT_TYPE_OPTIONS.find(option => option.value === type)?.label || 'Other document';
+
+export const getDocumentPhase = (type: DocumentType): PhaseId | null =>
+  type === 'other' ? null : getPhaseForDocument(type).id;
+
+// The welcome message asks for these exact file names, so most uploads can be typed from the name alone
+const FILE_NAME_HINTS: Array<{ pattern: RegExp; type: DocumentKey }> = [
+  { pattern: /\bpap\b|personality/i, type: 'personality_interview_pap' },
+  { pattern: /transcript|customer[\s_-]*interview|\.(vtt|srt)$/i, type: 'customer_interview_transcript' },
+  { pattern: /order|sales|shopify/i, type: 'order_history' },
+  { pattern: /competitor/i, type: 'competitors' },
+];
+
+export const guessDocumentType = (fileName: string): DocumentType =>
+  FILE_NAME_HINTS.find(hint => hint.pattern.test(fileName))?.type || 'other';
+
+export const buildStoragePath = (userId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-120);
+  return `${userId}/${crypto.randomUUID()}-${safeName}`;
+};
+
+export const isPreviewable = (document: Pick<LibraryDocument, 'mimeType'>) =>
+  document.mimeType === 'application/pdf' ||
+  document.mimeType.startsWith('image/') ||
+  document.mimeType.startsWith('text/');
@@ -0,0 +1,450 @@
+import { User } from '../types/auth';
+import { AgentBlock } from './agentResponse';
+import { MarkdownBlock, parseMarkdown, parseInline, toPlainText } from './markdownBlocks';
+
+// Export of conversations, single replies and deliverables.
+//
+// Every format starts from the same markdown: the message text plus its agent blocks written
+// out as markdown, so headings, lists and tables survive in all of them. PDF and DOCX are
+// generated in the browser; their libraries are loaded only when an export is requested.
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf' | 'docx';
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string }> = [
+  { format: 'markdown', label: 'Markdown', extension: 'md' },
+  { format: 'json', label: 'JSON transcript', extension: 'json' },
+  { format: 'pdf', label: 'PDF', extension: 'pdf' },
+  { format: 'docx', label: 'Word (DOCX)', extension: 'docx' },
+];
+
+export interface ExportMessage {
+  content: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  blocks?: AgentBlock[];
+}
+
+export interface ExportDocument {
+  title: string;
+  user: Pick<User, 'firstName' | 'lastName' | 'createdAt'>;
+  brandName: string;
+  messages: ExportMessage[];
+  // When the exported conversation or deliverable version was created
+  createdAt?: Date;
+  exportedAt?: Date;
+}
+
+const BRAND_PINK = 'EC4899';
+const BRAND_BLUE = '0EA5E9';
+const APP_NAME = 'Brand Challenger';
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const speakerLabel = (message: ExportMessage, document: ExportDocument) =>
+  message.sender === 'user' ? `${document.user.firstName} ${document.user.lastName}` : APP_NAME;
+
+const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const blocksToMarkdown = (blocks: AgentBlock[] = []): string =>
+  blocks
+    .map(block => {
+      switch (block.type) {
+        case 'table':
+          return [
+            block.title ? `### ${block.title}\n` : '',
+            `| ${block.columns.map(escapeCell).join(' | ')} |`,
+            `| ${block.columns.map(() => '---').join(' | ')} |`,
+            ...block.rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+          ].join('\n');
+        case 'list':
+          return [block.title ? `### ${block.title}\n` : '', ...block.items.map(item => `- ${item}`)].join('\n');
+        case 'callout':
+          return `> ${block.text}`;
+        case 'deliverable':
+          return `## ${block.title}\n\n${block.markdown}`;
+        default:
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+export const messageToMarkdown = (message: ExportMessage): string =>
+  [message.content.trim(), blocksToMarkdown(message.blocks)].filter(Boolean).join('\n\n');
+
+const metadataLines = (document: ExportDocument): Array<[string, string]> => {
+  const lines: Array<[string, string]> = [
+    ['Brand', document.brandName],
+    ['Prepared for', `${document.user.firstName} ${document.user.lastName}`],
+    ['Client since', formatDate(document.user.createdAt)],
+  ];
+  if (document.createdAt) lines.push(['Created', formatDateTime(document.createdAt)]);
+  lines.push(['Exported', formatDateTime(document.exportedAt || new Date())]);
+  return lines;
+};
+
+// A single reply or deliverable is exported as a document, not as a transcript
+const isTranscript = (document: ExportDocument) => document.messages.length > 1;
+
+export const toMarkdown = (document: ExportDocument): string => {
+  const header = [
+    `# ${document.title}`,
+    metadataLines(document).map(([label, value]) => `**${label}:** ${value}  `).join('\n'),
+    '---',
+  ];
+
+  const body = document.messages.map(message => isTranscript(document)
+    ? `### ${speakerLabel(message, document)} · ${formatDateTime(message.timestamp)}\n\n${messageToMarkdown(message)}`
+    : messageToMarkdown(message)
+  );
+
+  return [...header, ...body].join('\n\n').replace(/\n{3,}/g, '\n\n') + '\n';
+};
+
+export const toJsonTranscript = (document: ExportDocument): string =>
+  JSON.stringify({
+    title: document.title,
+    brand: document.brandName,
+    preparedFor: `${document.user.firstName} ${document.user.lastName}`,
+    clientSince: document.user.createdAt.toISOString(),
+    createdAt: document.createdAt?.toISOString(),
+    exportedAt: (document.exportedAt || new Date()).toISOString(),
+    messages: document.messages.map(message => ({
+      sender: message.sender,
+      timestamp: message.timestamp.toISOString(),
+      content: message.content,
+      blocks: message.blocks,
+    })),
+  }, null, 2);
+
+// The standard PDF fonts only cover Latin-1, so emoji and other symbols are dropped
+const pdfSafe = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\t\n\r\x20-\x7E\xA0-\xFF•]/g, '')
+    .trim();
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+
+export const toPdf = async (document: ExportDocument): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 56;
+  const contentWidth = pageWidth - margin * 2;
+  const bottom = pageHeight - margin;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  const writeText = (text: string, options: { size?: number; style?: 'normal' | 'bold' | 'italic'; font?: 'helvetica' | 'courier'; indent?: number; color?: string; gap?: number } = {}) => {
+    const { size = 11, style = 'normal', font = 'helvetica', indent = 0, color = '1F2937', gap = 6 } = options;
+    pdf.setFont(font, style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(...hexToRgb(color));
+    const lines: string[] = pdf.splitTextToSize(pdfSafe(text), contentWidth - indent);
+    const lineHeight = size * 1.4;
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      pdf.text(line, margin + indent, y + size);
+      y += lineHeight;
+    });
+    y += gap;
+  };
+
+  const writeTable = (header: string[], rows: string[][]) => {
+    const columns = Math.max(header.length, ...rows.map(row => row.length));
+    const columnWidth = contentWidth / columns;
+    const padding = 4;
+    const size = 9;
+    const lineHeight = size * 1.35;
+
+    const writeRow = (cells: string[], isHeader: boolean) => {
+      pdf.setFont('helvetica', isHeader ? 'bold' : 'normal');
+      pdf.setFontSize(size);
+      const wrapped = Array.from({ length: columns }, (_, index) =>
+        pdf.splitTextToSize(pdfSafe(toPlainText(cells[index] || '')), columnWidth - padding * 2) as string[]
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2;
+      ensureSpace(height);
+
+      wrapped.forEach((lines, index) => {
+        const x = margin + index * columnWidth;
+        if (isHeader) {
+          pdf.setFillColor(243, 244, 246);
+          pdf.rect(x, y, columnWidth, height, 'F');
+        }
+        pdf.setDrawColor(209, 213, 219);
+        pdf.rect(x, y, columnWidth, height);
+        pdf.setTextColor(31, 41, 55);
+        lines.forEach((line, lineIndex) => pdf.text(line, x + padding, y + padding + size + lineIndex * lineHeight));
+      });
+      y += height;
+    };
+
+    writeRow(header, true);
+    rows.forEach(row => writeRow(row, false));
+    y += 10;
+  };
+
+  const writeBlock = (block: MarkdownBlock) => {
+    switch (block.type) {
+      case 'heading':
+        ensureSpace(40);
+        y += 6;
+        writeText(toPlainText(block.text), { size: [0, 18, 15, 13][block.level], style: 'bold', color: '111827' });
+        break;
+      case 'paragraph':
+        writeText(toPlainText(block.text));
+        break;
+      case 'list':
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${index + 1}.` : '•';
+          pdf.setFont('helvetica', 'normal');
+          pdf.setFontSize(11);
+          ensureSpace(16);
+          pdf.text(marker, margin + 6, y + 11);
+          writeText(toPlainText(item), { indent: 22, gap: 2 });
+        });
+        y += 4;
+        break;
+      case 'table':
+        writeTable(block.header, block.rows);
+        break;
+      case 'quote': {
+        const start = y;
+        writeText(toPlainText(block.text), { style: 'italic', indent: 12, color: '374151' });
+        pdf.setDrawColor(...hexToRgb(BRAND_BLUE));
+        pdf.setLineWidth(2);
+        pdf.line(margin + 2, Math.max(start, margin), margin + 2, y - 6);
+        pdf.setLineWidth(1);
+        break;
+      }
+      case 'code':
+        writeText(block.text, { size: 9, font: 'courier', color: '374151' });
+        break;
+      case 'rule':
+        ensureSpace(12);
+        pdf.setDrawColor(209, 213, 219);
+        pdf.line(margin, y + 4, pageWidth - margin, y + 4);
+        y += 12;
+        break;
+    }
+  };
+
+  // Branded title band
+  pdf.setFillColor(...hexToRgb(BRAND_PINK));
+  pdf.rect(0, 0, pageWidth, 96, 'F');
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(22);
+  pdf.text(pdfSafe(document.brandName || APP_NAME), margin, 46);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(11);
+  pdf.text(APP_NAME, margin, 68);
+  y = 96 + 32;
+
+  writeText(document.title, { size: 20, style: 'bold', color: '111827', gap: 8 });
+  metadataLines(document).forEach(([label, value]) =>
+    writeText(`${label}: ${value}`, { size: 10, color: '6B7280', gap: 0 })
+  );
+  y += 16;
+
+  document.messages.forEach(message => {
+    if (isTranscript(document)) {
+      ensureSpace(48);
+      y += 6;
+      writeText(`${speakerLabel(message, document)} · ${formatDateTime(message.timestamp)}`, {
+        size: 10,
+        style: 'bold',
+        color: message.sender === 'user' ? BRAND_BLUE : BRAND_PINK,
+        gap: 4,
+      });
+    }
+    parseMarkdown(messageToMarkdown(message)).forEach(writeBlock);
+  });
+
+  // Footer on every page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(156, 163, 175);
+    pdf.text(pdfSafe(`${document.brandName} · ${APP_NAME}`), margin, pageHeight - 28);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 28, { align: 'right' });
+  }
+
+  return pdf.output('blob');
+};
+
+export const toDocx = async (document: ExportDocument): Promise<Blob> => {
+  const {
+    Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell,
+    WidthType, ShadingType, Footer, AlignmentType, PageNumber, BorderStyle,
+  } = await import('docx');
+
+  const headingLevels = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+  let listInstance = 0;
+
+  const runs = (text: string, options: { bold?: boolean; italics?: boolean } = {}) =>
+    parseInline(text).map(run => new TextRun({
+      text: run.text,
+      bold: run.bold || options.bold,
+      italics: run.italic || options.italics,
+      font: run.code ? 'Courier New' : undefined,
+    }));
+
+  const toElements = (block: MarkdownBlock): Array<InstanceType<typeof Paragraph> | InstanceType<typeof Table>> => {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({ heading: headingLevels[block.level], children: runs(block.text) })];
+      case 'paragraph':
+        return [new Paragraph({ children: runs(block.text), spacing: { after: 120 } })];
+      case 'list': {
+        const instance = ++listInstance;
+        return block.items.map(item => new Paragraph({
+          children: runs(item),
+          ...(block.ordered
+            ? { numbering: { reference: 'ordered-list', level: 0, instance } }
+            : { bullet: { level: 0 } }),
+        }));
+      }
+      case 'table':
+        return [new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [block.header, ...block.rows].map((row, rowIndex) => new TableRow({
+            tableHeader: rowIndex === 0,
+            children: block.header.map((_, cellIndex) => new TableCell({
+              shading: rowIndex === 0 ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' } : undefined,
+              children: [new Paragraph({ children: runs(row[cellIndex] || '', { bold: rowIndex === 0 }) })],
+            })),
+          })),
+        }), new Paragraph({ text: '' })];
+      case 'quote':
+        return [new Paragraph({
+          children: runs(block.text, { italics: true }),
+          indent: { left: 360 },
+          border: { left: { style: BorderStyle.SINGLE, size: 12, color: BRAND_BLUE, space: 8 } },
+          spacing: { after: 120 },
+        })];
+      case 'code':
+        return block.text.split('\n').map(line => new Paragraph({
+          children: [new TextRun({ text: line, font: 'Courier New', size: 18 })],
+        }));
+      case 'rule':
+        return [new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 4 } },
+          spacing: { after: 120 },
+        })];
+    }
+  };
+
+  const children = [
+    new Paragraph({
+      children: [new TextRun({ text: document.brandName || APP_NAME, bold: true, size: 40, color: BRAND_PINK })],
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: APP_NAME, color: '6B7280' })],
+      spacing: { after: 240 },
+    }),
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(document.title)] }),
+    ...metadataLines(document).map(([label, value]) => new Paragraph({
+      children: [
+        new TextRun({ text: `${label}: `, bold: true, color: '6B7280', size: 20 }),
+        new TextRun({ text: value, color: '6B7280', size: 20 }),
+      ],
+    })),
+    new Paragraph({
+      border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: BRAND_PINK, space: 4 } },
+      spacing: { after: 240 },
+    }),
+    ...document.messages.flatMap(message => [
+      ...(isTranscript(document)
+        ? [new Paragraph({
+            spacing: { before: 240, after: 120 },
+            children: [new TextRun({
+              text: `${speakerLabel(message, document)} · ${formatDateTime(message.timestamp)}`,
+              bold: true,
+              color: message.sender === 'user' ? BRAND_BLUE : BRAND_PINK,
+            })],
+          })]
+        : []),
+      ...parseMarkdown(messageToMarkdown(message)).flatMap(toElements),
+    ]),
+  ];
+
+  const doc = new Document({
+    creator: APP_NAME,
+    title: document.title,
+    numbering: {
+      config: [{
+        reference: 'ordered-list',
+        levels: [{ level: 0, format: 'decimal', text: '%1.', alignment: AlignmentType.START }],
+      }],
+    },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [
+              new TextRun({ text: `${document.brandName} · ${APP_NAME} · Page `, size: 16, color: '9CA3AF' }),
+              new TextRun({ children: [PageNumber.CURRENT], size: 16, color: '9CA3AF' }),
+            ],
+          })],
+        }),
+      },
+      children,
+    }],
+  });
+
+  return Packer.toBlob(doc);
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+
+export const getExportFileName = (document: ExportDocument, format: ExportFormat) => {
+  const { extension } = EXPORT_FORMATS.find(option => option.format === format)!;
+  const date = (document.exportedAt || new Date()).toISOString().slice(0, 10);
+  return `${[slugify(document.brandName), slugify(document.title), date].filter(Boolean).join('-')}.${extension}`;
+};
+
+export const buildExportBlob = async (document: ExportDocument, format: ExportFormat): Promise<Blob> => {
+  switch (format) {
+    case 'markdown':
+      return new Blob([toMarkdown(document)], { type: 'text/markdown;charset=utf-8' });
+    case 'json':
+      return new Blob([toJsonTranscript(document)], { type: 'application/json' });
+    case 'pdf':
+      return toPdf(document);
+    case 'docx':
+      return toDocx(document);
+  }
+};
+
+export const downloadExport = async (document: ExportDocument, format: ExportFormat) => {
+  const blob = await buildExportBlob(document, format);
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = getExportFileName(document, format);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
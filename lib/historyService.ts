@@ -0,0 +1,206 @@
+import { RetrieveHistoryResponse } from './n8nClient';
+
+// Merges the three places chat history lives into one timeline:
+//   - supabase: the app's own chat_conversations / chat_messages
+//   - n8n:      the agent's memory in n8n_chat_histories
+//   - webhook:  the retrieve-history workflow
+// The same exchange is usually present in more than one of them, so messages are
+// de-duplicated and every message keeps the list of sources it was found in.
+
+export type HistorySource = 'supabase' | 'n8n' | 'webhook';
+
+export const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+  supabase: 'Saved chat',
+  n8n: 'Agent memory',
+  webhook: 'History archive',
+};
+
+export interface TimelineMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  attachments?: Array<{
+    name: string;
+    size: number;
+    type: string;
+  }>;
+  // Where the kept copy came from, and every source the message was seen in
+  source: HistorySource;
+  sources: HistorySource[];
+  // False when the source had no timestamp for the message and one was assumed
+  timestampKnown: boolean;
+  conversationId?: string;
+  sessionId?: string;
+}
+
+export interface TimelineResult {
+  messages: TimelineMessage[];
+  failures: Array<{ source: HistorySource; error: string }>;
+}
+
+export type TimelineLoaders = Partial<Record<HistorySource, () => Promise<TimelineMessage[]>>>;
+
+// Prefer the app's own copy when the same message exists in several sources
+const SOURCE_PRIORITY: HistorySource[] = ['supabase', 'n8n', 'webhook'];
+
+// Two copies of a message further apart than this are treated as separate messages
+const DUPLICATE_WINDOW_MS = 10 * 60 * 1000;
+
+export const normalizeSender = (raw: unknown): 'user' | 'bot' =>
+  typeof raw === 'string' && ['user', 'human', 'customer'].includes(raw.toLowerCase()) ? 'user' : 'bot';
+
+export const extractContent = (raw: unknown): string => {
+  if (typeof raw === 'string') return raw.trim();
+  if (raw && typeof raw === 'object') {
+    const record = raw as Record<string, unknown>;
+    const value = record.content ?? record.message ?? record.text;
+    if (typeof value === 'string') return value.trim();
+    // LangChain memory rows nest the message: { type, data: { content } }
+    if (record.data && typeof record.data === 'object') return extractContent(record.data);
+  }
+  return '';
+};
+
+const parseTimestamp = (raw: unknown): Date | null => {
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+interface SourceMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  attachments?: TimelineMessage['attachments'];
+}
+
+export const fromChatMessages = (messages: SourceMessage[], conversationId: string): TimelineMessage[] =>
+  messages.map(message => ({
+    ...message,
+    id: `supabase-${message.id}`,
+    source: 'supabase',
+    sources: ['supabase'],
+    timestampKnown: true,
+    conversationId,
+  }));
+
+export const fromN8NMessages = (messages: Array<SourceMessage & { sessionId: string }>): TimelineMessage[] =>
+  messages.map(message => ({
+    ...message,
+    source: 'n8n',
+    sources: ['n8n'],
+    timestampKnown: true,
+  }));
+
+// The retrieve-history workflow has answered with a bare array, a wrapper object or plain text
+export const fromWebhookResponse = (response: RetrieveHistoryResponse): TimelineMessage[] => {
+  let items: unknown[] = [];
+
+  if (Array.isArray(response)) {
+    items = response;
+  } else if (response && typeof response === 'object') {
+    const wrapper = response as Record<string, unknown>;
+    const list = [wrapper.messages, wrapper.data, wrapper.history, wrapper.chat_history, wrapper.conversations, wrapper.items]
+      .find(Array.isArray);
+    items = list || (extractContent(wrapper) ? [wrapper] : []);
+  } else if (typeof response === 'string' && response.trim()) {
+    items = [{ content: response, sender: 'bot' }];
+  }
+
+  const fetchedAt = new Date();
+
+  return items
+    .map((item, index): TimelineMessage => {
+      const record = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+      const timestamp = parseTimestamp(record.timestamp ?? record.created_at);
+      return {
+        id: `webhook-${index}`,
+        content: extractContent(item),
+        sender: normalizeSender(record.sender ?? record.role ?? record.type),
+        timestamp: timestamp || fetchedAt,
+        timestampKnown: !!timestamp,
+        attachments: Array.isArray(record.attachments) ? record.attachments as TimelineMessage['attachments'] : undefined,
+        source: 'webhook',
+        sources: ['webhook'],
+      };
+    })
+    .filter(message => message.content.length > 0);
+};
+
+const contentKey = (message: TimelineMessage) =>
+  `${message.sender}:${message.content.replace(/\s+/g, ' ').trim().toLowerCase()}`;
+
+const timeApart = (a: TimelineMessage, b: TimelineMessage) => Math.abs(a.timestamp.getTime() - b.timestamp.getTime());
+
+// A message is only ever a copy of one message from another source, so repeats like "yes" twice stay
+// apart. With timestamps on both sides it pairs with the closest copy in the window; without one it
+// pairs with the earliest copy its source has not been paired with yet.
+const findCopy = (kept: TimelineMessage[], message: TimelineMessage): TimelineMessage | undefined => {
+  const unpaired = kept.filter(other => !other.sources.includes(message.source));
+  if (!message.timestampKnown) {
+    return unpaired.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())[0];
+  }
+  return unpaired
+    .filter(other => other.timestampKnown && timeApart(other, message) <= DUPLICATE_WINDOW_MS)
+    .sort((a, b) => timeApart(a, message) - timeApart(b, message))[0];
+};
+
+export const mergeTimelines = (...lists: TimelineMessage[][]): TimelineMessage[] => {
+  const byContent = new Map<string, TimelineMessage[]>();
+  const merged: TimelineMessage[] = [];
+
+  const candidates = lists
+    .flat()
+    .sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+
+  for (const message of candidates) {
+    const key = contentKey(message);
+    const kept = byContent.get(key) || [];
+    const existing = findCopy(kept, message);
+
+    if (existing) {
+      existing.sources = Array.from(new Set([...existing.sources, ...message.sources]));
+      if (!existing.timestampKnown && message.timestampKnown) {
+        existing.timestamp = message.timestamp;
+        existing.timestampKnown = true;
+      }
+      existing.sessionId = existing.sessionId || message.sessionId;
+      existing.conversationId = existing.conversationId || message.conversationId;
+    } else {
+      const copy = { ...message, sources: [...message.sources] };
+      kept.push(copy);
+      byContent.set(key, kept);
+      merged.push(copy);
+    }
+  }
+
+  // Ties keep each source's own order, e.g. n8n messages that share their row's created_at
+  return merged
+    .map((message, index) => ({ message, index }))
+    .sort((a, b) => a.message.timestamp.getTime() - b.message.timestamp.getTime() || a.index - b.index)
+    .map(({ message }) => message);
+};
+
+export const buildHistoryTimeline = async (loaders: TimelineLoaders): Promise<TimelineResult> => {
+  const sources = (Object.keys(loaders) as HistorySource[]).filter(source => loaders[source]);
+  const results = await Promise.allSettled(sources.map(source => loaders[source]!()));
+
+  const lists: TimelineMessage[][] = [];
+  const failures: TimelineResult['failures'] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      lists.push(result.value);
+    } else {
+      console.error(`Error loading ${sources[index]} history:`, result.reason);
+      failures.push({
+        source: sources[index],
+        error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+      });
+    }
+  });
+
+  return { messages: mergeTimelines(...lists), failures };
+};
@@ -0,0 +1,175 @@
+export type PhaseId = 'foundations' | 'customer_insights' | 'market_positioning';
+
+export type DocumentKey =
+  | 'personality_interview_pap'
+  | 'customer_interview_transcript'
+  | 'order_history'
+  | 'competitors';
+
+export type DeliverableKey =
+  | 'brand_analysis'
+  | 'document_recommendations'
+  | 'brand_summary'
+  | 'uvp'
+  | 'ideal_customer_map'
+  | 'competitor_benchmark'
+  | 'positioning'
+  | 'brand_voice';
+
+export interface JourneyDocument {
+  key: DocumentKey;
+  label: string;
+  required: boolean;
+}
+
+export interface JourneyDeliverable {
+  key: DeliverableKey;
+  label: string;
+}
+
+export interface JourneyPhase {
+  id: PhaseId;
+  number: number;
+  title: string;
+  documents: JourneyDocument[];
+  deliverables: JourneyDeliverable[];
+}
+
+export type PhaseStatus = 'locked' | 'active' | 'complete';
+
+export interface JourneyState {
+  currentPhase: PhaseId;
+  // Keyed by document/deliverable, value is the ISO timestamp it was recorded
+  submittedDocuments: Partial<Record<DocumentKey, string>>;
+  receivedDeliverables: Partial<Record<DeliverableKey, string>>;
+}
+
+export interface PhaseAccess {
+  allowed: boolean;
+  // The earliest phase that still has open items, if any
+  blockingPhase?: JourneyPhase;
+  missingDocuments: JourneyDocument[];
+  missingDeliverables: JourneyDeliverable[];
+}
+
+// Mirrors the journey laid out in the IntegratedChat welcome message
+export const JOURNEY_PHASES: JourneyPhase[] = [
+  {
+    id: 'foundations',
+    number: 1,
+    title: 'Foundations',
+    documents: [
+      { key: 'personality_interview_pap', label: 'Personality Interview & PAP', required: true },
+    ],
+    deliverables: [
+      { key: 'brand_analysis', label: 'Brand Analysis' },
+      { key: 'document_recommendations', label: 'Document Recommendations' },
+      { key: 'brand_summary', label: 'Brand Summary' },
+      { key: 'uvp', label: 'Brand UVP' },
+    ],
+  },
+  {
+    id: 'customer_insights',
+    number: 2,
+    title: 'Customer Insights',
+    documents: [
+      { key: 'customer_interview_transcript', label: 'Customer Interview Transcript', required: true },
+      { key: 'order_history', label: 'Order History', required: false },
+    ],
+    deliverables: [
+      { key: 'ideal_customer_map', label: 'Ideal Customer Map' },
+    ],
+  },
+  {
+    id: 'market_positioning',
+    number: 3,
+    title: 'Market Positioning',
+    documents: [
+      { key: 'competitors', label: '3 Competitors', required: true },
+    ],
+    deliverables: [
+      { key: 'competitor_benchmark', label: 'Competitor Benchmark' },
+      { key: 'positioning', label: 'Positioning' },
+      { key: 'brand_voice', label: 'Brand Voice' },
+    ],
+  },
+];
+
+export const INITIAL_JOURNEY_STATE: JourneyState = {
+  currentPhase: 'foundations',
+  submittedDocuments: {},
+  receivedDeliverables: {},
+};
+
+export const getPhase = (phaseId: PhaseId): JourneyPhase =>
+  JOURNEY_PHASES.find(phase => phase.id === phaseId)!;
+
+export const getPhaseForDocument = (key: DocumentKey): JourneyPhase =>
+  JOURNEY_PHASES.find(phase => phase.documents.some(doc => doc.key === key))!;
+
+export const getPhaseForDeliverable = (key: DeliverableKey): JourneyPhase =>
+  JOURNEY_PHASES.find(phase => phase.deliverables.some(item => item.key === key))!;
+
+const getMissingItems = (state: JourneyState, phase: JourneyPhase) => ({
+  missingDocuments: phase.documents.filter(doc => doc.required && !state.submittedDocuments[doc.key]),
+  missingDeliverables: phase.deliverables.filter(item => !state.receivedDeliverables[item.key]),
+});
+
+export const isPhaseComplete = (state: JourneyState, phase: JourneyPhase): boolean => {
+  const { missingDocuments, missingDeliverables } = getMissingItems(state, phase);
+  return missingDocuments.length === 0 && missingDeliverables.length === 0;
+};
+
+export const getPhaseStatus = (state: JourneyState, phaseId: PhaseId): PhaseStatus => {
+  const phase = getPhase(phaseId);
+  const current = getPhase(state.currentPhase);
+
+  if (phase.number < current.number || isPhaseComplete(state, phase)) return 'complete';
+  if (phase.number === current.number) return 'active';
+  return 'locked';
+};
+
+// A phase may be entered once every earlier phase is complete
+export const checkPhaseAccess = (state: JourneyState, phaseId: PhaseId): PhaseAccess => {
+  const target = getPhase(phaseId);
+
+  for (const phase of JOURNEY_PHASES) {
+    if (phase.number >= target.number) break;
+
+    const missing = getMissingItems(state, phase);
+    if (missing.missingDocuments.length > 0 || missing.missingDeliverables.length > 0) {
+      return { allowed: false, blockingPhase: phase, ...missing };
+    }
+  }
+
+  return { allowed: true, missingDocuments: [], missingDeliverables: [] };
+};
+
+// Recording a document needs its phase to be open; documents recorded before never ask again
+export const checkDocumentAccess = (state: JourneyState, key: DocumentKey): PhaseAccess =>
+  state.submittedDocuments[key]
+    ? { allowed: true, missingDocuments: [], missingDeliverables: [] }
+    : checkPhaseAccess(state, getPhaseForDocument(key).id);
+
+// Move the current phase forward past every phase that is already complete
+const advance = (state: JourneyState): JourneyState => {
+  let current = getPhase(state.currentPhase);
+
+  while (current.number < JOURNEY_PHASES.length && isPhaseComplete(state, current)) {
+    current = JOURNEY_PHASES[current.number];
+  }
+
+  return { ...state, currentPhase: current.id };
+};
+
+export const submitDocument = (state: JourneyState, key: DocumentKey, at = new Date()): JourneyState =>
+  advance({
+    ...state,
+    submittedDocuments: { ...state.submittedDocuments, [key]: at.toISOString() },
+  });
+
+export const receiveDeliverable = (state: JourneyState, key: DeliverableKey, at = new Date()): JourneyState =>
+  advance({
+    ...state,
+    receivedDeliverables: { ...state.receivedDeliverables, [key]: at.toISOString() },
+  });
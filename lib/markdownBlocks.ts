@@ -0,0 +1,146 @@
+// Small block-level markdown reader for the exporters.
+//
+// Covers what the agent writes and MessageContent renders: headings, paragraphs, bullet and
+// numbered lists, blockquotes, code blocks, horizontal rules and pipe tables, plus bold,
+// italic and inline code inside a line. Anything else is kept as plain paragraph text.
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^\s*[-*+•]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ').trim() });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: Math.min(heading[1].length, 3) as 1 | 2 | 3, text: heading[2] });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (TABLE_ROW.test(line) && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      flushParagraph();
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) rows.push(splitTableRow(lines[i++]));
+      i--;
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items = [(bullet || numbered)![1]];
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1].match(pattern);
+        if (next) {
+          items.push(next[1]);
+        } else if (/^\s{2,}\S/.test(lines[i + 1]) && !BULLET.test(lines[i + 1]) && !NUMBERED.test(lines[i + 1])) {
+          // Continuation line of the previous item
+          items[items.length - 1] += ' ' + lines[i + 1].trim();
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (line.trim().startsWith('>')) {
+      flushParagraph();
+      const quote = [line.trim().replace(/^>\s?/, '')];
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('>')) {
+        quote.push(lines[++i].trim().replace(/^>\s?/, ''));
+      }
+      blocks.push({ type: 'quote', text: quote.join(' ').trim() });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+// Splits a line into runs of **bold**, *italic* / _italic_ and `code`; links keep their text only
+export const parseInline = (text: string): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  const source = text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1');
+  const pattern = /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3|`([^`]+)`/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    if (match.index > last) runs.push({ text: source.slice(last, match.index) });
+    if (match[2] !== undefined) runs.push({ text: match[2], bold: true });
+    else if (match[4] !== undefined) runs.push({ text: match[4], italic: true });
+    else runs.push({ text: match[5], code: true });
+    last = pattern.lastIndex;
+  }
+
+  if (last < source.length) runs.push({ text: source.slice(last) });
+  return runs;
+};
+
+export const toPlainText = (text: string): string =>
+  parseInline(text).map(run => run.text).join('');
@@ -0,0 +1,90 @@
+import { ChatRequest, N8NErrorCategory } from './n8nClient';
+
+// Chat messages that have not reached the agent yet, kept in IndexedDB so neither a failed request
+// nor a reload loses them. A message lands here when it is sent offline or its request fails, with
+// its attachments as Blobs, and leaves once delivered or discarded. Messages only go into the chat
+// history in Supabase after delivery, so the two never hold the same message.
+
+export interface OutboxEntry<TMessage = unknown> {
+  // The id of the chat bubble
+  id: string;
+  userId: string;
+  sessionId: string;
+  // The bubble as shown, to restore it after a reload
+  message: TMessage;
+  // Everything needed to send it again, resolved at the time the user sent it
+  request: ChatRequest;
+  // Sent as the first message of a new chat, which only exists once a message is delivered
+  startsConversation: boolean;
+  attempts: number;
+  category: N8NErrorCategory;
+  // Next automatic attempt (epoch ms); null waits for the user to retry
+  nextAttemptAt: number | null;
+  createdAt: number;
+}
+
+const DB_NAME = 'brand-challenger';
+const DB_VERSION = 1;
+const STORE = 'chat-outbox';
+
+// Automatic retries back off from 5 seconds to 5 minutes, then leave it to the user
+export const MAX_AUTOMATIC_ATTEMPTS = 6;
+
+export const outboxRetryDelay = (attempts: number) => Math.min(5 * 60_000, 5_000 * 2 ** Math.max(0, attempts - 1));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Outbox failures are logged, not thrown: the message is still on screen and can be retried from there
+export const saveOutboxEntry = async <TMessage>(entry: OutboxEntry<TMessage>): Promise<void> => {
+  try {
+    await run('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error('Error saving message to outbox:', error);
+  }
+};
+
+export const removeOutboxEntry = async (id: string): Promise<void> => {
+  try {
+    await run('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Error removing message from outbox:', error);
+  }
+};
+
+// Oldest first, the order they were written in
+export const loadOutboxEntries = async <TMessage>(userId: string): Promise<OutboxEntry<TMessage>[]> => {
+  try {
+    const entries = await run<OutboxEntry<TMessage>[]>('readonly', store => store.index('userId').getAll(userId));
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Error loading outbox:', error);
+    return [];
+  }
+};
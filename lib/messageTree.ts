@@ -0,0 +1,47 @@
+// Conversations branch. Editing a sent message or regenerating a reply adds a sibling next to the
+// original instead of replacing it, so every message points at its parent and the chat shows the
+// path from the first message to one leaf: the active branch.
+
+export interface TreeMessage {
+  id: string;
+  // null for the first message of a branch; undefined when unknown, e.g. on history timelines
+  parentId?: string | null;
+  timestamp: Date;
+}
+
+const byTime = (a: TreeMessage, b: TreeMessage) => a.timestamp.getTime() - b.timestamp.getTime();
+
+export const childrenOf = <T extends TreeMessage>(messages: T[], parentId: string | null): T[] =>
+  messages.filter(message => (message.parentId ?? null) === parentId).sort(byTime);
+
+// The message itself and the alternatives written in its place
+export const siblingsOf = <T extends TreeMessage>(messages: T[], message: T): T[] =>
+  childrenOf(messages, message.parentId ?? null);
+
+// Follows the newest child down to the end of the branch
+export const latestLeaf = <T extends TreeMessage>(messages: T[], fromId: string | null): string | null => {
+  let leafId = fromId;
+  for (;;) {
+    const children = childrenOf(messages, leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+};
+
+// First message to `leafId`; empty when the leaf is unknown
+export const pathTo = <T extends TreeMessage>(messages: T[], leafId: string | null): T[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: T[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// Messages without parents, like history timelines, form one branch in the order given
+export const linkLinear = <T extends TreeMessage>(messages: T[]): T[] =>
+  messages.map((message, index) => message.parentId !== undefined
+    ? message
+    : { ...message, parentId: index === 0 ? null : messages[index - 1].id });
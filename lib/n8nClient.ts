@@ -0,0 +1,498 @@
+// Single entry point for every n8n webhook the app talks to.
+//
+// Endpoints are resolved from a profile (VITE_N8N_PROFILE = development | staging | production | mock,
+// defaulting to development under `vite dev` and production otherwise). Each profile can be
+// overridden per deployment with VITE_N8N_BASE_URL and VITE_N8N_<ENDPOINT>_PATH. The mock profile
+// talks to the local stand-in in mock-n8n/ (`npm run mock:n8n`) instead of n8n cloud.
+
+import { OrderHistorySummary } from './orderHistory';
+import { InterviewTranscript } from './transcript';
+import { BenchmarkTable, CompetitorPayload } from './competitors';
+
+export type N8NProfile = 'development' | 'staging' | 'production' | 'mock';
+
+export type N8NEndpoint = 'chat' | 'documentUpload' | 'retrieveHistory' | 'identifyUser';
+
+interface N8NConfig {
+  profile: N8NProfile;
+  baseUrl: string;
+  paths: Record<N8NEndpoint, string>;
+  timeoutMs: Record<N8NEndpoint, number>;
+  retries: Record<N8NEndpoint, number>;
+}
+
+const N8N_HOST = 'https://iamfashion.app.n8n.cloud';
+
+const WEBHOOK_IDS: Record<N8NEndpoint, string> = {
+  chat: 'dccf8360-e9ae-44df-8a2d-6cf329c76ec6',
+  documentUpload: 'document-upload',
+  retrieveHistory: '511abe15-0332-4bf8-9ed7-bc718465191c',
+  identifyUser: 'identify-user',
+};
+
+const webhookPaths = (prefix: 'webhook' | 'webhook-test'): Record<N8NEndpoint, string> => ({
+  chat: `${prefix}/${WEBHOOK_IDS.chat}`,
+  documentUpload: `${prefix}/${WEBHOOK_IDS.documentUpload}`,
+  retrieveHistory: `${prefix}/${WEBHOOK_IDS.retrieveHistory}`,
+  identifyUser: `${prefix}/${WEBHOOK_IDS.identifyUser}`,
+});
+
+const PROFILES: Record<N8NProfile, Pick<N8NConfig, 'baseUrl' | 'paths'>> = {
+  // Production workflows through the vite dev-server proxy (see vite.config.ts). Document upload
+  // and identify-user stay on their test webhooks, which is where development has always sent them
+  development: {
+    baseUrl: '/api',
+    paths: {
+      ...webhookPaths('webhook'),
+      documentUpload: webhookPaths('webhook-test').documentUpload,
+      identifyUser: webhookPaths('webhook-test').identifyUser,
+    },
+  },
+  // n8n test webhooks, only live while the workflow is listening in the editor
+  staging: { baseUrl: N8N_HOST, paths: webhookPaths('webhook-test') },
+  production: { baseUrl: N8N_HOST, paths: webhookPaths('webhook') },
+  // The local mock server, through the vite dev-server proxy
+  mock: { baseUrl: '/mock-n8n', paths: webhookPaths('webhook') },
+};
+
+// Agent replies for long strategy documents can take well over a minute
+const DEFAULT_TIMEOUTS: Record<N8NEndpoint, number> = {
+  chat: 180_000,
+  documentUpload: 120_000,
+  retrieveHistory: 30_000,
+  identifyUser: 15_000,
+};
+
+// Chat is not retried automatically: the workflow is not idempotent and a retry would send the message twice
+const DEFAULT_RETRIES: Record<N8NEndpoint, number> = {
+  chat: 0,
+  documentUpload: 1,
+  retrieveHistory: 2,
+  identifyUser: 2,
+};
+
+const ENV_PATH_KEYS: Record<N8NEndpoint, string> = {
+  chat: 'VITE_N8N_CHAT_PATH',
+  documentUpload: 'VITE_N8N_DOCUMENT_UPLOAD_PATH',
+  retrieveHistory: 'VITE_N8N_RETRIEVE_HISTORY_PATH',
+  identifyUser: 'VITE_N8N_IDENTIFY_USER_PATH',
+};
+
+const resolveConfig = (): N8NConfig => {
+  const env = import.meta.env;
+  const requestedProfile = env.VITE_N8N_PROFILE as N8NProfile | undefined;
+  const profile: N8NProfile = requestedProfile && requestedProfile in PROFILES
+    ? requestedProfile
+    : (env.DEV ? 'development' : 'production');
+  const defaults = PROFILES[profile];
+
+  const paths = { ...defaults.paths };
+  (Object.keys(ENV_PATH_KEYS) as N8NEndpoint[]).forEach(endpoint => {
+    const override = env[ENV_PATH_KEYS[endpoint]];
+    if (override) paths[endpoint] = override;
+  });
+
+  return {
+    profile,
+    baseUrl: (env.VITE_N8N_BASE_URL || defaults.baseUrl).replace(/\/+$/, ''),
+    paths,
+    timeoutMs: DEFAULT_TIMEOUTS,
+    retries: DEFAULT_RETRIES,
+  };
+};
+
+export const n8nConfig = resolveConfig();
+
+export const getEndpointUrl = (endpoint: N8NEndpoint): string =>
+  `${n8nConfig.baseUrl}/${n8nConfig.paths[endpoint].replace(/^\/+/, '')}`;
+
+// ---------------------------------------------------------------------------
+// Contracts
+// ---------------------------------------------------------------------------
+
+export interface ChatRequest {
+  chatInput: string;
+  sessionId: string;
+  userId: string;
+  userName?: string;
+  brandName?: string;
+  // The active brand; conversations, and so session ids, belong to one brand
+  brandId?: string;
+  files?: File[];
+  // Document type of each file, in the same order as `files`
+  documentTypes?: string[];
+  // Text extracted in the browser from PDF, DOCX and TXT attachments, as reviewed by the user.
+  // Sent next to the file it came from as `attachment_<index>_extractedText`
+  extractedText?: ExtractedAttachmentText[];
+  // Aggregated order-history analysis from the import wizard, sent instead of the raw CSV
+  orderHistory?: OrderHistorySummary;
+  // Reviewed customer interviews as speaker turns; the agent uses the customer's turns only
+  interviews?: InterviewTranscript[];
+  // The brand's competitors, sent with every message once Phase 3 (market positioning) starts
+  competitors?: CompetitorPayload[];
+  // The Competitor Benchmark as corrected by the user, competitors as columns
+  competitorBenchmark?: BenchmarkTable;
+  // Set when the message starts a new branch: 'edit' rewrites an earlier user message,
+  // 'regenerate' asks for another reply to the same one
+  branchAction?: 'edit' | 'regenerate';
+  // The conversation as the user sees it before this message. Sent with `branchAction`, since the
+  // agent's memory for the session still holds the branch the user moved away from
+  branchHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface ExtractedAttachmentText {
+  filename: string;
+  index: number;
+  format: string;
+  pageCount?: number;
+  text: string;
+  // The PDF has no text layer; `text` is empty and only the file itself was sent
+  noTextLayer?: boolean;
+  // The user trimmed or edited the extracted text before sending
+  edited?: boolean;
+  truncated?: boolean;
+}
+
+// Parsed JSON when the workflow answers with JSON, the raw text otherwise
+export type ChatResponse = string | Record<string, unknown> | unknown[];
+
+export interface DocumentUploadRequest {
+  firstName: string;
+  lastName: string;
+  brandName: string;
+  brandId?: string;
+  email: string;
+  userId: string;
+  file: File;
+  // Journey document key, or `other`
+  documentType?: string;
+}
+
+export interface DocumentUploadResponse {
+  message?: string;
+  [key: string]: unknown;
+}
+
+export interface RetrieveHistoryRequest {
+  userId: string;
+  email: string;
+  // Only the history of this brand
+  brandId?: string;
+}
+
+// The history workflow has answered with several shapes over time; callers normalise it
+export type RetrieveHistoryResponse = ChatResponse;
+
+export interface IdentifyUserRequest {
+  userEmail: string;
+}
+
+export type IdentifyUserResponse = Record<string, unknown>;
+
+export interface N8NRequestOptions {
+  signal?: AbortSignal;
+  // Covers the wait for response headers; a streamed body is only bounded by `signal`
+  timeoutMs?: number;
+  retries?: number;
+  headers?: Record<string, string>;
+  // Bytes of a FormData body sent so far; setting it sends the request through XMLHttpRequest
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+export type N8NErrorReason = 'http' | 'timeout' | 'network' | 'aborted' | 'parse';
+
+export class N8NRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: N8NEndpoint,
+    public readonly reason: N8NErrorReason,
+    public readonly status?: number,
+    public readonly body?: string,
+  ) {
+    super(message);
+    this.name = 'N8NRequestError';
+  }
+
+  get retryable(): boolean {
+    if (this.reason === 'timeout' || this.reason === 'network') return true;
+    return this.reason === 'http' && (this.status === 429 || (this.status ?? 0) >= 500);
+  }
+}
+
+// What went wrong from the user's point of view, for picking a message and whether to retry
+export type N8NErrorCategory =
+  | 'offline'
+  | 'network'
+  | 'timeout'
+  | 'rate_limited'
+  | 'server'
+  | 'not_found'
+  | 'rejected'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'unknown';
+
+// The reason comes first: a request the user stopped while offline is still cancelled, not retried
+export const categorizeN8NError = (error: unknown): N8NErrorCategory => {
+  const isOffline = typeof navigator !== 'undefined' && !navigator.onLine;
+  if (!(error instanceof N8NRequestError)) return isOffline ? 'offline' : 'unknown';
+
+  switch (error.reason) {
+    case 'aborted':
+      return 'cancelled';
+    case 'timeout':
+      return 'timeout';
+    case 'network':
+      return isOffline ? 'offline' : 'network';
+    case 'parse':
+      return 'invalid_response';
+    case 'http':
+      if (error.status === 429) return 'rate_limited';
+      if (error.status === 404) return 'not_found';
+      return (error.status ?? 0) >= 500 ? 'server' : 'rejected';
+  }
+};
+
+// Worth trying again later without the user changing anything
+export const isRetryableCategory = (category: N8NErrorCategory): boolean =>
+  category === 'offline' || category === 'network' || category === 'timeout' || category === 'rate_limited' || category === 'server';
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    // Detached once the wait is over, so a long-lived signal doesn't collect a listener per retry
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const backoffDelay = (attempt: number) => Math.min(8000, 500 * 2 ** attempt) + Math.random() * 250;
+
+export const parseResponseText = (text: string): ChatResponse => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Not valid JSON after all - hand back the text
+    }
+  }
+  return trimmed;
+};
+
+// fetch cannot report upload progress, so progress-tracked uploads use XMLHttpRequest and are
+// wrapped in a Response to go through the same error handling
+const sendWithProgress = (
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal,
+  onUploadProgress: NonNullable<N8NRequestOptions['onUploadProgress']>,
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    Object.entries((init.headers || {}) as Record<string, string>).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      const hasBody = ![204, 205, 304].includes(xhr.status);
+      resolve(new Response(hasBody ? xhr.responseText : null, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: { 'Content-Type': xhr.getResponseHeader('Content-Type') || 'text/plain' },
+      }));
+    };
+    xhr.onerror = () => reject(new TypeError('Failed to fetch'));
+    xhr.onabort = () => reject(new DOMException('Aborted', 'AbortError'));
+    signal.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+
+// One attempt with its own timeout, linked to the caller's signal
+const attempt = async (
+  endpoint: N8NEndpoint,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  onUploadProgress?: N8NRequestOptions['onUploadProgress'],
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  // Stays attached after a successful attempt so the caller can still cancel reading the body
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = onUploadProgress && init.body instanceof FormData
+      ? await sendWithProgress(getEndpointUrl(endpoint), init, controller.signal, onUploadProgress)
+      : await fetch(getEndpointUrl(endpoint), { ...init, signal: controller.signal });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new N8NRequestError(
+        `n8n ${endpoint} request failed (${response.status}): ${response.statusText}${body ? ' - ' + body : ''}`,
+        endpoint,
+        'http',
+        response.status,
+        body,
+      );
+    }
+
+    return response;
+  } catch (error) {
+    signal?.removeEventListener('abort', onAbort);
+    if (error instanceof N8NRequestError) throw error;
+    if (signal?.aborted) {
+      throw new N8NRequestError(`n8n ${endpoint} request was cancelled`, endpoint, 'aborted');
+    }
+    if (timedOut) {
+      throw new N8NRequestError(`n8n ${endpoint} request timed out after ${timeoutMs}ms`, endpoint, 'timeout');
+    }
+    throw new N8NRequestError(
+      `n8n ${endpoint} network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      endpoint,
+      'network',
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const n8nRequest = async (endpoint: N8NEndpoint, body: FormData | object, options: N8NRequestOptions = {}): Promise<Response> => {
+  const timeoutMs = options.timeoutMs ?? n8nConfig.timeoutMs[endpoint];
+  const retries = options.retries ?? n8nConfig.retries[endpoint];
+  const init: RequestInit = body instanceof FormData
+    ? { method: 'POST', headers: options.headers, body }
+    : { method: 'POST', headers: { 'Content-Type': 'application/json', ...options.headers }, body: JSON.stringify(body) };
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      return await attempt(endpoint, init, timeoutMs, options.signal, options.onUploadProgress);
+    } catch (error) {
+      const requestError = error as N8NRequestError;
+      if (!requestError.retryable || attemptIndex >= retries) throw requestError;
+
+      console.warn(`Retrying n8n ${endpoint} request (${attemptIndex + 1}/${retries}):`, requestError.message);
+      try {
+        await sleep(backoffDelay(attemptIndex), options.signal);
+      } catch {
+        throw new N8NRequestError(`n8n ${endpoint} request was cancelled`, endpoint, 'aborted');
+      }
+    }
+  }
+};
+
+const requestParsed = async (endpoint: N8NEndpoint, body: FormData | object, options?: N8NRequestOptions): Promise<ChatResponse> => {
+  const response = await n8nRequest(endpoint, body, options);
+  return parseResponseText(await response.text());
+};
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+export const buildChatBody = (request: ChatRequest): FormData | object => {
+  if (!request.files || request.files.length === 0) {
+    return {
+      chatInput: request.chatInput,
+      sessionId: request.sessionId,
+      userId: request.userId,
+      userName: request.userName,
+      brandName: request.brandName,
+      brandId: request.brandId,
+      orderHistory: request.orderHistory,
+      interviews: request.interviews,
+      competitors: request.competitors,
+      competitorBenchmark: request.competitorBenchmark,
+      branchAction: request.branchAction,
+      branchHistory: request.branchHistory,
+    };
+  }
+
+  const formData = new FormData();
+  formData.append('chatInput', request.chatInput);
+  formData.append('sessionId', request.sessionId);
+  formData.append('userId', request.userId);
+  if (request.userName) formData.append('userName', request.userName);
+  if (request.brandName) formData.append('brandName', request.brandName);
+  if (request.brandId) formData.append('brandId', request.brandId);
+
+  request.files.forEach((file, index) => {
+    formData.append(`attachment_${index}`, file);
+    formData.append(`attachment_${index}_name`, file.name);
+    formData.append(`attachment_${index}_type`, file.type);
+    if (request.documentTypes?.[index]) formData.append(`attachment_${index}_documentType`, request.documentTypes[index]);
+    const extracted = request.extractedText?.find(entry => entry.index === index);
+    if (extracted) formData.append(`attachment_${index}_extractedText`, JSON.stringify(extracted));
+  });
+  formData.append('attachmentCount', request.files.length.toString());
+
+  if (request.orderHistory) {
+    formData.append('orderHistory', JSON.stringify(request.orderHistory));
+  }
+  if (request.interviews && request.interviews.length > 0) {
+    formData.append('interviews', JSON.stringify(request.interviews));
+  }
+  if (request.competitors && request.competitors.length > 0) {
+    formData.append('competitors', JSON.stringify(request.competitors));
+  }
+  if (request.competitorBenchmark) {
+    formData.append('competitorBenchmark', JSON.stringify(request.competitorBenchmark));
+  }
+  if (request.branchAction) {
+    formData.append('branchAction', request.branchAction);
+    formData.append('branchHistory', JSON.stringify(request.branchHistory || []));
+  }
+
+  return formData;
+};
+
+export const sendChatMessage = (request: ChatRequest, options?: N8NRequestOptions): Promise<ChatResponse> =>
+  requestParsed('chat', buildChatBody(request), options);
+
+export const uploadDocument = async (request: DocumentUploadRequest, options?: N8NRequestOptions): Promise<DocumentUploadResponse> => {
+  const formData = new FormData();
+  formData.append('firstName', request.firstName);
+  formData.append('lastName', request.lastName);
+  formData.append('brandName', request.brandName);
+  formData.append('email', request.email);
+  formData.append('userId', request.userId);
+  formData.append('userName', `${request.firstName} ${request.lastName}`);
+  formData.append('userBrandName', request.brandName);
+  if (request.brandId) formData.append('brandId', request.brandId);
+  if (request.documentType) formData.append('documentType', request.documentType);
+  formData.append('data', request.file);
+
+  const result = await requestParsed('documentUpload', formData, options);
+  if (typeof result === 'string') return { message: result };
+  return Array.isArray(result) ? { items: result } : result;
+};
+
+export const retrieveHistory = (request: RetrieveHistoryRequest, options?: N8NRequestOptions): Promise<RetrieveHistoryResponse> =>
+  requestParsed('retrieveHistory', {
+    userId: request.userId,
+    email: request.email,
+    brandId: request.brandId,
+    timestamp: new Date().toISOString(),
+  }, options);
+
+export const identifyUser = async (request: IdentifyUserRequest, options?: N8NRequestOptions): Promise<IdentifyUserResponse> => {
+  const result = await requestParsed('identifyUser', { user_email: request.userEmail }, options);
+  return result && typeof result === 'object' && !Array.isArray(result) ? result : { result };
+};
@@ -0,0 +1,389 @@
+// Order history analysis for Phase 2. Exports are mapped to a handful of fields, grouped
+// into orders and scored per customer (recency, frequency, monetary value); only the
+// aggregated summary is sent to the agent, never customer names or emails.
+
+export type OrderField = 'orderId' | 'customer' | 'date' | 'amount' | 'product' | 'quantity';
+
+export const ORDER_FIELDS: Array<{ key: OrderField; label: string; required: boolean }> = [
+  { key: 'orderId', label: 'Order ID', required: true },
+  { key: 'customer', label: 'Customer (email or ID)', required: true },
+  { key: 'date', label: 'Order date', required: true },
+  { key: 'amount', label: 'Order total', required: true },
+  { key: 'product', label: 'Product', required: false },
+  { key: 'quantity', label: 'Quantity', required: false },
+];
+
+// Column index per field
+export type ColumnMapping = Partial<Record<OrderField, number>>;
+
+export type ImportPresetId = 'shopify' | 'woocommerce' | 'generic';
+
+interface ImportPreset {
+  id: ImportPresetId;
+  label: string;
+  // Header names to look for, lower case, best match first
+  columns: Record<OrderField, string[]>;
+}
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'shopify',
+    label: 'Shopify orders export',
+    columns: {
+      orderId: ['name', 'id'],
+      customer: ['email', 'billing name'],
+      date: ['created at', 'paid at'],
+      amount: ['total'],
+      product: ['lineitem name'],
+      quantity: ['lineitem quantity'],
+    },
+  },
+  {
+    id: 'woocommerce',
+    label: 'WooCommerce orders export',
+    columns: {
+      orderId: ['order number', 'order id'],
+      customer: ['billing email', 'billing email address', 'customer email', 'customer user', 'customer id'],
+      date: ['order date', 'date created', 'date'],
+      amount: ['order total amount', 'order total', 'total'],
+      product: ['item name', 'product name', 'product(s)'],
+      quantity: ['quantity', 'item quantity', 'qty'],
+    },
+  },
+  {
+    id: 'generic',
+    label: 'Other spreadsheet',
+    columns: {
+      orderId: ['order id', 'order number', 'order', 'order_id', 'invoice', 'id'],
+      customer: ['customer email', 'email', 'customer id', 'customer', 'client'],
+      date: ['order date', 'date', 'created at', 'created_at', 'purchase date'],
+      amount: ['order total', 'total', 'amount', 'revenue', 'value', 'price'],
+      product: ['product name', 'product', 'item', 'sku'],
+      quantity: ['quantity', 'qty', 'units'],
+    },
+  },
+];
+
+export const mapColumns = (headers: string[], presetId: ImportPresetId): ColumnMapping => {
+  const preset = IMPORT_PRESETS.find(candidate => candidate.id === presetId) || IMPORT_PRESETS[2];
+  const normalized = headers.map(header => header.trim().toLowerCase());
+
+  const mapping: ColumnMapping = {};
+  ORDER_FIELDS.forEach(({ key }) => {
+    for (const name of preset.columns[key]) {
+      const index = normalized.indexOf(name);
+      if (index !== -1 && !Object.values(mapping).includes(index)) {
+        mapping[key] = index;
+        break;
+      }
+    }
+  });
+  return mapping;
+};
+
+// The preset whose column names are found most completely; ties go to the more specific export
+export const detectPreset = (headers: string[]): ImportPresetId => {
+  const lowered = headers.map(header => header.trim().toLowerCase());
+  if (lowered.includes('lineitem name')) return 'shopify';
+  if (lowered.some(header => header.startsWith('billing ')) && lowered.some(header => header.startsWith('order '))) return 'woocommerce';
+
+  let best: ImportPresetId = 'generic';
+  let bestCount = 0;
+  IMPORT_PRESETS.forEach(preset => {
+    const count = Object.keys(mapColumns(headers, preset.id)).length;
+    if (count > bestCount) {
+      best = preset.id;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+export const getMissingFields = (mapping: ColumnMapping) =>
+  ORDER_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+// Accepts "1,234.56", "1.234,56", "€ 49,90" and "USD 120"
+export const parseAmount = (value: string): number | null => {
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // A comma followed by one or two digits is a decimal separator, otherwise a thousands separator
+    cleaned = /,\d{1,2}$/.test(cleaned)
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const NUMERIC_DATE = /^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})/;
+
+// Day-first when any date has a first part above 12; month-first when any has a second part above 12.
+// null when every numeric date would read either way, e.g. 03/04/2024: only the user knows which it is
+export const detectDayFirst = (values: string[]): boolean | null => {
+  let ambiguous = false;
+  for (const value of values) {
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match) continue;
+    if (Number(match[1]) > 12) return true;
+    if (Number(match[2]) > 12) return false;
+    ambiguous = true;
+  }
+  // No numeric dates at all (e.g. ISO dates): the order is never used
+  return ambiguous ? null : true;
+};
+
+export const parseOrderDate = (value: string, dayFirst: boolean): Date | null => {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+
+  const numeric = trimmed.match(NUMERIC_DATE);
+  if (numeric) {
+    const [day, month] = dayFirst ? [numeric[1], numeric[2]] : [numeric[2], numeric[1]];
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    const date = new Date(Date.UTC(year, Number(month) - 1, Number(day)));
+    return date.getUTCMonth() === Number(month) - 1 ? date : null;
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+};
+
+interface OrderRecord {
+  id: string;
+  customer: string;
+  date: Date;
+  amount: number;
+  products: Map<string, number>;
+}
+
+// Exports with one row per line item repeat the order id and only fill the total once
+export const buildOrders = (rows: string[][], mapping: ColumnMapping, dayFirst: boolean) => {
+  const orders = new Map<string, OrderRecord>();
+  let skippedRows = 0;
+  const cell = (row: string[], field: OrderField) =>
+    mapping[field] === undefined ? '' : (row[mapping[field]!] || '').trim();
+
+  rows.forEach(row => {
+    const id = cell(row, 'orderId');
+    if (!id) {
+      skippedRows++;
+      return;
+    }
+
+    let order = orders.get(id);
+    if (!order) {
+      const customer = cell(row, 'customer').toLowerCase();
+      const date = parseOrderDate(cell(row, 'date'), dayFirst);
+      if (!customer || !date) {
+        skippedRows++;
+        return;
+      }
+      order = { id, customer, date, amount: 0, products: new Map() };
+      orders.set(id, order);
+    }
+
+    if (!order.amount) {
+      order.amount = parseAmount(cell(row, 'amount')) || 0;
+    }
+
+    const product = cell(row, 'product');
+    if (product) {
+      const quantity = parseAmount(cell(row, 'quantity')) || 1;
+      order.products.set(product, (order.products.get(product) || 0) + quantity);
+    }
+  });
+
+  return { orders: Array.from(orders.values()), skippedRows };
+};
+
+export type CustomerSegment = 'champions' | 'loyal' | 'new' | 'promising' | 'at_risk' | 'hibernating';
+
+export const CUSTOMER_SEGMENT_LABELS: Record<CustomerSegment, string> = {
+  champions: 'Champions',
+  loyal: 'Loyal customers',
+  new: 'New customers',
+  promising: 'Promising',
+  at_risk: 'At risk',
+  hibernating: 'Hibernating',
+};
+
+export interface SegmentSummary {
+  segment: CustomerSegment;
+  customers: number;
+  // 0..1 of all customers and of all revenue
+  customerShare: number;
+  revenueShare: number;
+  averageOrders: number;
+  averageSpend: number;
+  averageDaysSinceLastOrder: number;
+}
+
+export interface ProductSummary {
+  name: string;
+  orders: number;
+  quantity: number;
+  customers: number;
+}
+
+export interface OrderHistorySummary {
+  source: { fileName: string; preset: ImportPresetId; rows: number; skippedRows: number };
+  period: { from: string; to: string };
+  orders: number;
+  customers: number;
+  revenue: number;
+  averageOrderValue: number;
+  // 0..1 of customers with two or more orders
+  repeatPurchaseRate: number;
+  averageOrdersPerCustomer: number;
+  medianDaysBetweenOrders: number | null;
+  segments: SegmentSummary[];
+  topProducts: ProductSummary[];
+  monthly: Array<{ month: string; orders: number; revenue: number }>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const TOP_PRODUCT_COUNT = 10;
+const MONTHS_SHOWN = 24;
+
+// 1..5 by quintile; equal values share the score of the first of them
+const scoreByQuintile = (values: number[]) => {
+  const firstRank = new Map<number, number>();
+  [...values].sort((a, b) => a - b).forEach((value, rank) => {
+    if (!firstRank.has(value)) firstRank.set(value, rank);
+  });
+  return values.map(value => Math.floor((firstRank.get(value)! / values.length) * 5) + 1);
+};
+
+const segmentFor = (recency: number, frequencyMonetary: number): CustomerSegment => {
+  if (recency >= 4 && frequencyMonetary >= 4) return 'champions';
+  if (recency >= 3 && frequencyMonetary >= 3) return 'loyal';
+  if (recency >= 4 && frequencyMonetary <= 1) return 'new';
+  if (recency >= 3) return 'promising';
+  if (frequencyMonetary >= 3) return 'at_risk';
+  return 'hibernating';
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const summarizeOrders = (
+  orders: OrderRecord[],
+  source: OrderHistorySummary['source']
+): OrderHistorySummary => {
+  const sortedOrders = [...orders].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const revenue = sortedOrders.reduce((sum, order) => sum + order.amount, 0);
+  // Recency is measured from the last order in the export, not from today
+  const referenceDate = sortedOrders.length > 0 ? sortedOrders[sortedOrders.length - 1].date.getTime() : Date.now();
+
+  const byCustomer = new Map<string, OrderRecord[]>();
+  sortedOrders.forEach(order => {
+    const customerOrders = byCustomer.get(order.customer);
+    if (customerOrders) customerOrders.push(order);
+    else byCustomer.set(order.customer, [order]);
+  });
+  const customers = Array.from(byCustomer.values()).map(customerOrders => ({
+    orders: customerOrders,
+    daysSinceLastOrder: (referenceDate - customerOrders[customerOrders.length - 1].date.getTime()) / DAY,
+    spend: customerOrders.reduce((sum, order) => sum + order.amount, 0),
+  }));
+
+  // Lower recency in days is better, so it is scored on the negated value
+  const recencyScores = scoreByQuintile(customers.map(customer => -customer.daysSinceLastOrder));
+  const frequencyScores = scoreByQuintile(customers.map(customer => customer.orders.length));
+  const monetaryScores = scoreByQuintile(customers.map(customer => customer.spend));
+
+  const segmentMembers = new Map<CustomerSegment, typeof customers>();
+  customers.forEach((customer, index) => {
+    const segment = segmentFor(recencyScores[index], Math.round((frequencyScores[index] + monetaryScores[index]) / 2));
+    const members = segmentMembers.get(segment);
+    if (members) members.push(customer);
+    else segmentMembers.set(segment, [customer]);
+  });
+
+  const segments = (Object.keys(CUSTOMER_SEGMENT_LABELS) as CustomerSegment[])
+    .filter(segment => segmentMembers.has(segment))
+    .map(segment => {
+      const members = segmentMembers.get(segment)!;
+      const segmentRevenue = members.reduce((sum, customer) => sum + customer.spend, 0);
+      return {
+        segment,
+        customers: members.length,
+        customerShare: round(members.length / customers.length, 3),
+        revenueShare: revenue > 0 ? round(segmentRevenue / revenue, 3) : 0,
+        averageOrders: round(members.reduce((sum, customer) => sum + customer.orders.length, 0) / members.length),
+        averageSpend: round(segmentRevenue / members.length),
+        averageDaysSinceLastOrder: Math.round(members.reduce((sum, customer) => sum + customer.daysSinceLastOrder, 0) / members.length),
+      };
+    });
+
+  const gaps = customers.flatMap(customer => customer.orders.slice(1).map((order, index) =>
+    (order.date.getTime() - customer.orders[index].date.getTime()) / DAY
+  ));
+
+  const products = new Map<string, { orders: number; quantity: number; customers: Set<string> }>();
+  sortedOrders.forEach(order => {
+    order.products.forEach((quantity, name) => {
+      const product = products.get(name) || { orders: 0, quantity: 0, customers: new Set<string>() };
+      product.orders++;
+      product.quantity += quantity;
+      product.customers.add(order.customer);
+      products.set(name, product);
+    });
+  });
+
+  const monthly = new Map<string, { orders: number; revenue: number }>();
+  sortedOrders.forEach(order => {
+    const month = order.date.toISOString().slice(0, 7);
+    const entry = monthly.get(month) || { orders: 0, revenue: 0 };
+    entry.orders++;
+    entry.revenue += order.amount;
+    monthly.set(month, entry);
+  });
+
+  return {
+    source,
+    period: {
+      from: sortedOrders[0]?.date.toISOString().slice(0, 10) || '',
+      to: sortedOrders[sortedOrders.length - 1]?.date.toISOString().slice(0, 10) || '',
+    },
+    orders: sortedOrders.length,
+    customers: customers.length,
+    revenue: round(revenue),
+    averageOrderValue: sortedOrders.length > 0 ? round(revenue / sortedOrders.length) : 0,
+    repeatPurchaseRate: customers.length > 0 ? round(customers.filter(customer => customer.orders.length > 1).length / customers.length, 3) : 0,
+    averageOrdersPerCustomer: customers.length > 0 ? round(sortedOrders.length / customers.length) : 0,
+    medianDaysBetweenOrders: gaps.length > 0 ? Math.round(median(gaps)!) : null,
+    segments,
+    topProducts: Array.from(products.entries())
+      .map(([name, product]) => ({ name, orders: product.orders, quantity: round(product.quantity), customers: product.customers.size }))
+      .sort((a, b) => b.orders - a.orders || b.quantity - a.quantity)
+      .slice(0, TOP_PRODUCT_COUNT),
+    monthly: Array.from(monthly.entries())
+      .map(([month, entry]) => ({ month, orders: entry.orders, revenue: round(entry.revenue) }))
+      .slice(-MONTHS_SHOWN),
+  };
+};
+
+export const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: value >= 100 ? 0 : 2 });
+
+export const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+
+// One line for the attachment chip and the message bubble
+export const describeOrderHistory = (summary: OrderHistorySummary) =>
+  `${summary.orders.toLocaleString()} orders · ${summary.customers.toLocaleString()} customers · ${formatShare(summary.repeatPurchaseRate)} repeat`;
@@ -0,0 +1,73 @@
+// Rules for new passwords, shared by the reset screen and anywhere else a password is chosen.
+// Supabase only enforces a minimum length; everything else is checked here before it is sent.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface PasswordRequirement {
+  id: 'length' | 'lowercase' | 'uppercase' | 'number';
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_REQUIREMENTS: PasswordRequirement[] = [
+  { id: 'length', label: `At least ${MIN_PASSWORD_LENGTH} characters`, test: password => password.length >= MIN_PASSWORD_LENGTH },
+  { id: 'lowercase', label: 'A lowercase letter', test: password => /[a-z]/.test(password) },
+  { id: 'uppercase', label: 'An uppercase letter', test: password => /[A-Z]/.test(password) },
+  { id: 'number', label: 'A number', test: password => /\d/.test(password) },
+];
+
+export type PasswordStrengthLevel = 'too_weak' | 'weak' | 'fair' | 'good' | 'strong';
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrengthLevel, string> = {
+  too_weak: 'Too weak',
+  weak: 'Weak',
+  fair: 'Fair',
+  good: 'Good',
+  strong: 'Strong',
+};
+
+export interface PasswordStrength {
+  level: PasswordStrengthLevel;
+  // 0 to 4, for the strength bar
+  score: number;
+  unmet: PasswordRequirement[];
+  // Why the password is rejected even though it meets the requirements
+  warning?: string;
+  isValid: boolean;
+}
+
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password123', 'passw0rd', 'qwerty123', 'qwertyuiop', 'letmein1',
+  'welcome1', 'welcome123', 'iloveyou1', 'admin123', 'abc12345', '12345678', '123456789', '1234567890',
+]);
+
+const LEVELS: PasswordStrengthLevel[] = ['too_weak', 'weak', 'fair', 'good', 'strong'];
+
+export const getPasswordStrength = (password: string, email = ''): PasswordStrength => {
+  const unmet = PASSWORD_REQUIREMENTS.filter(requirement => !requirement.test(password));
+  const lower = password.toLowerCase();
+  const emailName = email.split('@')[0].toLowerCase();
+
+  let warning: string | undefined;
+  if (COMMON_PASSWORDS.has(lower)) {
+    warning = 'This is one of the most common passwords.';
+  } else if (emailName.length >= 3 && lower.includes(emailName)) {
+    warning = 'Don\'t use your email address in your password.';
+  } else if (/^(.)\1+$/.test(password)) {
+    warning = 'Avoid repeating a single character.';
+  }
+
+  const isValid = unmet.length === 0 && !warning;
+  // Anything valid is at least fair; length and symbols make it stronger
+  const score = isValid
+    ? 2 + (password.length >= 12 ? 1 : 0) + (/[^a-zA-Z0-9]/.test(password) ? 1 : 0)
+    : (unmet.length <= 1 && !warning ? 1 : 0);
+
+  return {
+    level: LEVELS[score],
+    score,
+    unmet,
+    warning,
+    isValid,
+  };
+};
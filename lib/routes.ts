@@ -0,0 +1,110 @@
+// Client-side routes. The app is one page; the path decides which screen or modal is open, so the
+// back button, bookmarks and shared links work. Navigation goes through the History API and is
+// announced with a `routechange` event that useRoute listens to, next to the browser's `popstate`.
+
+export type Route =
+  | { name: 'login'; returnTo?: string }
+  | { name: 'signup' }
+  | { name: 'forgot-password' }
+  | { name: 'reset-password' }
+  | { name: 'chat'; conversationId?: string }
+  | { name: 'documents' }
+  | { name: 'deliverables' }
+  | { name: 'competitors' }
+  | { name: 'settings' }
+  | { name: 'team' }
+  | { name: 'not-found' };
+
+export type RouteName = Route['name'];
+
+// Reachable without logging in; logged-in users are sent on from the first three
+export const PUBLIC_ROUTES: RouteName[] = ['login', 'signup', 'forgot-password', 'reset-password'];
+
+const ROUTE_CHANGE_EVENT = 'routechange';
+
+// Paths without a parameter, both ways
+const STATIC_PATHS: Partial<Record<RouteName, string>> = {
+  'signup': '/signup',
+  'forgot-password': '/forgot-password',
+  'reset-password': '/reset-password',
+  'documents': '/documents',
+  'deliverables': '/deliverables',
+  'competitors': '/competitors',
+  'settings': '/settings',
+  'team': '/team',
+};
+
+// Only paths inside the app, so a crafted link can't send someone elsewhere after logging in.
+// The browser resolves it, since it also reads forms like `/\evil.com` as another host.
+const safeReturnTo = (path: string | null): string | null => {
+  if (!path || !path.startsWith('/')) return null;
+
+  let url: URL;
+  try {
+    url = new URL(path, window.location.origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== window.location.origin || url.pathname.startsWith('/login')) return null;
+  return url.pathname + url.search;
+};
+
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+
+  if (path === '/' || path === '/chat') return { name: 'chat' };
+
+  if (path === '/login') {
+    const returnTo = safeReturnTo(new URLSearchParams(search).get('returnTo'));
+    return returnTo ? { name: 'login', returnTo } : { name: 'login' };
+  }
+
+  const chatMatch = path.match(/^\/chat\/([^/]+)$/);
+  if (chatMatch) {
+    try {
+      return { name: 'chat', conversationId: decodeURIComponent(chatMatch[1]) };
+    } catch {
+      // A malformed escape like /chat/%E0
+      return { name: 'not-found' };
+    }
+  }
+
+  const staticMatch = (Object.keys(STATIC_PATHS) as RouteName[]).find(name => STATIC_PATHS[name] === path);
+  return staticMatch ? { name: staticMatch } as Route : { name: 'not-found' };
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'login':
+      return route.returnTo ? `/login?returnTo=${encodeURIComponent(route.returnTo)}` : '/login';
+    case 'chat':
+      return route.conversationId ? `/chat/${encodeURIComponent(route.conversationId)}` : '/';
+    case 'not-found':
+      return window.location.pathname;
+    default:
+      return STATIC_PATHS[route.name] || '/';
+  }
+};
+
+export const getCurrentRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+export const navigate = (to: Route | string, options: { replace?: boolean } = {}) => {
+  const path = typeof to === 'string' ? to : routePath(to);
+  if (path === window.location.pathname + window.location.search) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+export const subscribeToRoute = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(ROUTE_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(ROUTE_CHANGE_EVENT, onChange);
+  };
+};
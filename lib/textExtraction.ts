@@ -0,0 +1,224 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// In-browser text extraction for PDF, DOCX and TXT attachments. Everything runs locally:
+// the PDF worker is bundled with the app and DOCX files are unzipped and read as XML.
+//
+// The result keeps page (PDF) and section (DOCX headings) boundaries so the agent can
+// cite where something came from, and flags PDFs without a text layer (scans, photos)
+// so they are not sent as if the agent could read them.
+
+export type ExtractionFormat = 'pdf' | 'docx' | 'txt';
+
+export interface ExtractedSection {
+  // PDF page number, starting at 1
+  page?: number;
+  // DOCX heading the section starts with
+  heading?: string;
+  text: string;
+}
+
+export interface ExtractionResult {
+  format: ExtractionFormat;
+  sections: ExtractedSection[];
+  pageCount?: number;
+  // PDF pages that came back without any text
+  emptyPages: number[];
+  // No page of the PDF has a text layer: most likely a scan
+  noTextLayer: boolean;
+  // The text was cut at MAX_EXTRACTED_CHARS
+  truncated: boolean;
+}
+
+// Roughly 25k tokens; longer documents are cut so a single attachment cannot flood the agent
+export const MAX_EXTRACTED_CHARS = 100_000;
+
+// Pages with less text than this are page numbers or stray marks on a scanned image
+const MIN_PAGE_CHARS = 20;
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export const getExtractionFormat = (file: File): ExtractionFormat | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) return 'docx';
+  if (file.type === 'text/plain' || name.endsWith('.txt')) return 'txt';
+  return null;
+};
+
+export const isExtractable = (file: File) => getExtractionFormat(file) !== null;
+
+// Normalise whitespace and undo line-end hyphenation left over from page layout
+export const cleanText = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00a0/g, ' ')
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const extractPdf = async (file: File): Promise<ExtractedSection[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const sections: ExtractedSection[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+      sections.push({ page: pageNumber, text: cleanText(text) });
+      page.cleanup();
+    }
+    return sections;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const paragraphText = (paragraph: Element) => {
+  let text = '';
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      if (child.namespaceURI !== WORD_NS) return;
+      switch (child.localName) {
+        case 't':
+          text += child.textContent || '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        // Paragraphs nested in text boxes are read on their own
+        case 'p':
+        case 'txbxContent':
+          break;
+        default:
+          walk(child);
+      }
+    });
+  };
+  walk(paragraph);
+  return text;
+};
+
+const isHeadingParagraph = (paragraph: Element) => {
+  const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0];
+  const styleName = style?.getAttributeNS(WORD_NS, 'val') || style?.getAttribute('w:val') || '';
+  return /^(heading|title|titre|berschrift|kop)/i.test(styleName.replace(/^\W+/, ''));
+};
+
+const extractDocx = async (file: File): Promise<ExtractedSection[]> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error('This file is not a Word document.');
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The Word document could not be read.');
+  }
+
+  const sections: ExtractedSection[] = [];
+  let current: ExtractedSection = { text: '' };
+  Array.from(xml.getElementsByTagNameNS(WORD_NS, 'p')).forEach(paragraph => {
+    const text = paragraphText(paragraph).trim();
+    if (!text) return;
+
+    if (isHeadingParagraph(paragraph)) {
+      if (current.heading || current.text) sections.push(current);
+      current = { heading: text, text: '' };
+    } else {
+      current.text += `${text}\n\n`;
+    }
+  });
+  if (current.heading || current.text) sections.push(current);
+
+  return sections.map(section => ({ ...section, text: cleanText(section.text) }));
+};
+
+const truncateSections = (sections: ExtractedSection[]) => {
+  let remaining = MAX_EXTRACTED_CHARS;
+  let truncated = false;
+  const kept: ExtractedSection[] = [];
+  for (const section of sections) {
+    // Everything from here on is left out, even when the limit was reached exactly
+    if (remaining <= 0) {
+      truncated = true;
+      break;
+    }
+    if (section.text.length > remaining) {
+      kept.push({ ...section, text: section.text.slice(0, remaining) });
+      truncated = true;
+    } else {
+      kept.push(section);
+    }
+    remaining -= section.text.length;
+  }
+  return { sections: kept, truncated };
+};
+
+export const extractText = async (file: File): Promise<ExtractionResult> => {
+  const format = getExtractionFormat(file);
+  if (!format) throw new Error('Text can only be extracted from PDF, DOCX and TXT files.');
+
+  let sections: ExtractedSection[];
+  try {
+    if (format === 'pdf') {
+      sections = await extractPdf(file);
+    } else if (format === 'docx') {
+      sections = await extractDocx(file);
+    } else {
+      sections = [{ text: cleanText(await file.text()) }];
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new Error('This PDF is password protected.');
+    }
+    throw error;
+  }
+
+  const emptyPages = format === 'pdf'
+    ? sections.filter(section => section.text.length < MIN_PAGE_CHARS).map(section => section.page!)
+    : [];
+  const noTextLayer = format === 'pdf' && sections.length > 0 && emptyPages.length === sections.length;
+
+  return {
+    format,
+    ...truncateSections(noTextLayer ? [] : sections),
+    pageCount: format === 'pdf' ? sections.length : undefined,
+    emptyPages,
+    noTextLayer,
+  };
+};
+
+// Plain text with the boundaries written out; this is what the user reviews and trims
+export const formatExtraction = (result: ExtractionResult) =>
+  result.sections
+    .filter(section => section.text || section.heading)
+    .map(section => {
+      if (section.page) return `[Page ${section.page}]\n${section.text}`;
+      if (section.heading) return `## ${section.heading}\n\n${section.text}`.trim();
+      return section.text;
+    })
+    .join('\n\n');
+
+export const describeExtraction = (result: ExtractionResult) => {
+  if (result.noTextLayer) return 'No text layer found (scanned?)';
+
+  const parts: string[] = [];
+  if (result.pageCount) parts.push(`${result.pageCount} page${result.pageCount === 1 ? '' : 's'}`);
+  const headings = result.sections.filter(section => section.heading).length;
+  if (headings > 0) parts.push(`${headings} section${headings === 1 ? '' : 's'}`);
+  const words = formatExtraction(result).split(/\s+/).filter(Boolean).length;
+  parts.push(`${words.toLocaleString()} words`);
+  if (result.truncated) parts.push('truncated');
+  return parts.join(' · ');
+};
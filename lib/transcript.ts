@@ -0,0 +1,250 @@
+import { extractText } from './textExtraction';
+
+// Customer interview transcripts for Phase 2. Exports from Zoom, Google Meet, Teams and
+// Otter are read into speaker turns; the user confirms who the interviewer and who the
+// customer is, and the agent builds the Ideal Customer Map from the customer's turns.
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'txt' | 'docx';
+
+export type SpeakerRole = 'interviewer' | 'customer' | 'other';
+
+export interface TranscriptTurn {
+  speaker: string;
+  // Seconds from the start of the recording
+  start?: number;
+  text: string;
+}
+
+export interface InterviewTranscript {
+  label: string;
+  fileName: string;
+  format: TranscriptFormat;
+  durationSeconds?: number;
+  speakers: Array<{ name: string; role: SpeakerRole }>;
+  turns: Array<TranscriptTurn & { role: SpeakerRole }>;
+}
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  interviewer: 'Interviewer',
+  customer: 'Customer',
+  other: 'Other',
+};
+
+// Turns without a speaker label in the file
+export const UNKNOWN_SPEAKER = 'Unknown speaker';
+
+export const getTranscriptFormat = (file: File): TranscriptFormat | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.vtt') || file.type === 'text/vtt') return 'vtt';
+  if (name.endsWith('.srt') || file.type === 'application/x-subrip') return 'srt';
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.txt') || file.type === 'text/plain') return 'txt';
+  return null;
+};
+
+// Subtitle files are always transcripts; text and Word files only when they are named like one
+export const isTranscriptFile = (file: File) => {
+  const format = getTranscriptFormat(file);
+  return format === 'vtt' || format === 'srt' || (format !== null && /transcript|interview/i.test(file.name));
+};
+
+// "01:02:03.456", "01:02:03,456", "02:03" and "2:03"
+export const parseTimestamp = (value: string): number | undefined => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d+))?$/);
+  if (!match) return undefined;
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction}`);
+};
+
+export const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const rest = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+// "Name: text", as long as "Name" looks like a name and not the start of a sentence
+const SPEAKER_PREFIX = /^([A-ZÀ-ſ][^:.!?]{0,39}?):\s+(.+)$/;
+
+const splitSpeaker = (text: string): { speaker?: string; text: string } => {
+  const match = text.match(SPEAKER_PREFIX);
+  if (match && match[1].split(/\s+/).length <= 4) return { speaker: match[1].trim(), text: match[2] };
+  return { text };
+};
+
+// WebVTT and SRT share the cue layout: optional id, timing line, text lines
+const parseCues = (text: string): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  text.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) return;
+
+    const start = parseTimestamp(lines[timingIndex].split('-->')[0]);
+    let cue = lines.slice(timingIndex + 1).join(' ');
+
+    // Zoom and Teams put the speaker in a voice tag: <v Jane Doe>text</v>
+    const voice = cue.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    cue = cue.replace(/<[^>]+>/g, '').trim();
+    if (!cue) return;
+
+    const { speaker, text: spoken } = voice ? { speaker: voice[1].trim(), text: cue } : splitSpeaker(cue);
+    turns.push({ speaker: speaker || UNKNOWN_SPEAKER, start, text: spoken });
+  });
+  return turns;
+};
+
+// Otter and Meet put the speaker and time on their own line above the paragraph
+const HEADER_LINE = /^(.{1,40}?)(?:\s{2,}|\t)(\d{1,2}:\d{2}(?::\d{2})?)$/;
+// "[00:01:02] Jane: text" or "00:01:02 Jane: text"
+const TIMESTAMP_PREFIX = /^[[(]?(\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?)[\])]?\s*[-–]?\s*(.*)$/;
+
+const parsePlainText = (text: string): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  let current: TranscriptTurn | null = null;
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const header = line.match(HEADER_LINE);
+    if (header && !SPEAKER_PREFIX.test(line)) {
+      current = { speaker: header[1].trim(), start: parseTimestamp(header[2]), text: '' };
+      turns.push(current);
+      return;
+    }
+
+    let rest = line;
+    let start: number | undefined;
+    const stamped = line.match(TIMESTAMP_PREFIX);
+    if (stamped) {
+      start = parseTimestamp(stamped[1]);
+      rest = stamped[2];
+    }
+
+    const { speaker, text: spoken } = splitSpeaker(rest);
+    if (speaker) {
+      current = { speaker, start, text: spoken };
+      turns.push(current);
+    } else if (current) {
+      current.text = current.text ? `${current.text} ${spoken}` : spoken;
+    } else {
+      current = { speaker: UNKNOWN_SPEAKER, start, text: spoken };
+      turns.push(current);
+    }
+  });
+
+  return turns.filter(turn => turn.text);
+};
+
+export const mergeConsecutiveTurns = <T extends TranscriptTurn>(turns: T[]): T[] =>
+  turns.reduce<T[]>((merged, turn) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === turn.speaker) {
+      merged[merged.length - 1] = { ...previous, text: `${previous.text} ${turn.text}` };
+    } else {
+      merged.push({ ...turn });
+    }
+    return merged;
+  }, []);
+
+export const parseTranscript = (text: string, format: TranscriptFormat): TranscriptTurn[] =>
+  mergeConsecutiveTurns(format === 'vtt' || format === 'srt' ? parseCues(text) : parsePlainText(text));
+
+export const readTranscriptFile = async (file: File): Promise<{ format: TranscriptFormat; turns: TranscriptTurn[] }> => {
+  const format = getTranscriptFormat(file);
+  if (!format) throw new Error('Transcripts can be read from VTT, SRT, TXT and DOCX files.');
+
+  const text = format === 'docx'
+    ? (await extractText(file)).sections.map(section => [section.heading, section.text].filter(Boolean).join('\n')).join('\n')
+    : await file.text();
+
+  const turns = parseTranscript(text, format);
+  if (turns.length === 0) throw new Error(`No conversation was found in ${file.name}.`);
+  return { format, turns };
+};
+
+const FILLERS = /(^|[\s,.;!?])(?:u+m+|u+h+m*|e+r+m+|h+m+|mm-?hmm|a+h+)(?=[\s,.;!?]|$)[,.]?/gi;
+const VERBAL_TICS = /\b(?:you know|I mean),\s*/gi;
+// Only repeats broken by a comma or dash ("I, I think", "we- we"), since "had had" and "that that"
+// are English; a hyphen needs a space next to it, so "so-so" stays
+const STUTTERS = /\b(\w+)(?:(?:\s*[,—]\s*|-{1,2}\s+|\s+-{1,2}\s*)\1\b)+/gi;
+
+// Drop hesitations and stutters; what is left of a turn that was only filler is empty
+export const stripFiller = (text: string) => {
+  const cleaned = text
+    .replace(FILLERS, '$1')
+    .replace(VERBAL_TICS, '')
+    .replace(STUTTERS, '$1')
+    .replace(/\s+([,.;!?])/g, '$1')
+    .replace(/([,;])(?=[,.;!?])/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s,.;]+/, '')
+    .trim();
+  return /\w/.test(cleaned) ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1) : '';
+};
+
+export const getSpeakers = (turns: TranscriptTurn[]) =>
+  Array.from(new Set(turns.map(turn => turn.speaker)));
+
+// The interviewer asks the most questions; the customer does most of the talking among the rest
+export const guessRoles = (turns: TranscriptTurn[]): Record<string, SpeakerRole> => {
+  const stats = getSpeakers(turns).map(name => {
+    const spoken = turns.filter(turn => turn.speaker === name);
+    return {
+      name,
+      questions: spoken.reduce((sum, turn) => sum + (turn.text.match(/\?/g) || []).length, 0),
+      words: spoken.reduce((sum, turn) => sum + turn.text.split(/\s+/).length, 0),
+    };
+  });
+
+  const roles: Record<string, SpeakerRole> = Object.fromEntries(stats.map(stat => [stat.name, 'other' as SpeakerRole]));
+  if (stats.length === 1) {
+    roles[stats[0].name] = 'customer';
+    return roles;
+  }
+
+  const interviewer = [...stats].sort((a, b) => b.questions - a.questions || a.words - b.words)[0];
+  const customer = stats
+    .filter(stat => stat !== interviewer)
+    .sort((a, b) => b.words - a.words)[0];
+  roles[interviewer.name] = 'interviewer';
+  if (customer) roles[customer.name] = 'customer';
+  return roles;
+};
+
+export const buildInterview = (
+  { label, fileName, format, turns, roles, removeFiller }: {
+    label: string;
+    fileName: string;
+    format: TranscriptFormat;
+    turns: TranscriptTurn[];
+    roles: Record<string, SpeakerRole>;
+    removeFiller: boolean;
+  }
+): InterviewTranscript => {
+  const cleaned = mergeConsecutiveTurns(turns)
+    .map(turn => ({ ...turn, role: roles[turn.speaker] || 'other', text: removeFiller ? stripFiller(turn.text) : turn.text }))
+    .filter(turn => turn.text);
+  const starts = cleaned.map(turn => turn.start).filter((start): start is number => start !== undefined);
+
+  return {
+    label,
+    fileName,
+    format,
+    durationSeconds: starts.length > 0 ? Math.round(Math.max(...starts)) : undefined,
+    speakers: getSpeakers(cleaned).map(name => ({ name, role: roles[name] || 'other' })),
+    turns: cleaned,
+  };
+};
+
+export const describeInterview = (interview: InterviewTranscript) => {
+  const customer = interview.speakers.find(speaker => speaker.role === 'customer');
+  const parts = [
+    customer ? `customer: ${customer.name}` : 'no customer selected',
+    `${interview.turns.length} turns`,
+  ];
+  if (interview.durationSeconds) parts.push(formatTimestamp(interview.durationSeconds));
+  return parts.join(' · ');
+};
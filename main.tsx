@@ -1,10 +1,16 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { AuthProvider } from './hooks/useAuth';
+import { BrandProvider } from './hooks/useBrands';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AuthProvider>
+      <BrandProvider>
+        <App />
+      </BrandProvider>
+    </AuthProvider>
   </StrictMode>
 );
@@ -0,0 +1,212 @@
+// Scripted stand-in for the Brand Challenger agent. It walks the three journey phases the way the
+// real workflow does: it asks for each phase's documents, answers with that phase's deliverables
+// once they arrive, and reports progress in the envelope's `phase` metadata (see lib/agentResponse.ts).
+//
+// Progress is kept per brand, like the journey in the app; nothing survives a restart.
+
+// Mirrors JOURNEY_PHASES in lib/journey.ts
+const PHASES = [
+  {
+    id: 'foundations',
+    title: 'Foundations',
+    documents: ['personality_interview_pap'],
+    deliverables: ['brand_analysis', 'document_recommendations', 'brand_summary', 'uvp'],
+  },
+  {
+    id: 'customer_insights',
+    title: 'Customer Insights',
+    documents: ['customer_interview_transcript', 'order_history'],
+    deliverables: ['ideal_customer_map'],
+  },
+  {
+    id: 'market_positioning',
+    title: 'Market Positioning',
+    documents: ['competitors'],
+    deliverables: ['competitor_benchmark', 'positioning', 'brand_voice'],
+  },
+];
+
+const DELIVERABLE_TITLES = {
+  brand_analysis: 'Brand Analysis',
+  document_recommendations: 'Document Recommendations',
+  brand_summary: 'Brand Summary',
+  uvp: 'Brand UVP',
+  ideal_customer_map: 'Ideal Customer Map',
+  competitor_benchmark: 'Competitor Benchmark',
+  positioning: 'Positioning',
+  brand_voice: 'Brand Voice',
+};
+
+const journeys = new Map();
+
+const getJourney = (key) => {
+  if (!journeys.has(key)) {
+    journeys.set(key, { phase: 'foundations', documents: new Set(), deliverables: new Set() });
+  }
+  return journeys.get(key);
+};
+
+export const resetJourneys = () => journeys.clear();
+
+// Document uploads count towards the journey too, like the document-upload workflow
+export const recordDocument = (journeyKey, documentType) => {
+  if (documentType && documentType !== 'other') getJourney(journeyKey).documents.add(documentType);
+};
+
+const deliverable = (key, brandName, markdown) => ({
+  type: 'deliverable',
+  key,
+  title: `${DELIVERABLE_TITLES[key]} for ${brandName}`,
+  markdown,
+});
+
+const foundationsReply = (brandName, journey) => {
+  ['brand_analysis', 'document_recommendations', 'brand_summary'].forEach(key => journey.deliverables.add(key));
+  return {
+    body: `## Brand Analysis\n\nThanks for the Personality Interview & PAP. Here is what stands out about **${brandName}**:\n\n- A founder-led voice that is confident and a little irreverent\n- A clear craft story that is under-used on the website\n- Pricing that signals premium without explaining why\n\nAsk me for your **UVP** when you are ready, then we move on to Customer Insights.`,
+    blocks: [
+      deliverable('brand_analysis', brandName, '### Strengths\n- Distinct founder story\n- Consistent visual identity\n\n### Gaps\n- No proof points for quality\n- Audience described too broadly'),
+      {
+        type: 'list',
+        title: 'Document recommendations',
+        items: ['Add three customer quotes to the PAP', 'Name the one feeling the brand should leave behind', 'Cut the mission statement to one sentence'],
+      },
+      deliverable('brand_summary', brandName, `${brandName} makes considered essentials for people who buy less and expect more.`),
+    ],
+  };
+};
+
+const uvpReply = (brandName, journey) => {
+  journey.deliverables.add('uvp');
+  return {
+    body: `## Your UVP\n\n> ${brandName} gives busy creatives wardrobe pieces that last a decade, made in small batches they can trace.\n\nPhase 1 is complete. Next, send a **Customer Interview Transcript**, and your **Order History** if you have it.`,
+    blocks: [
+      deliverable('uvp', brandName, `**${brandName}** gives busy creatives wardrobe pieces that last a decade, made in small batches they can trace.`),
+      { type: 'callout', tone: 'success', text: 'Phase 1 — Foundations is complete.' },
+    ],
+  };
+};
+
+const customerReply = (brandName, journey, request) => {
+  journey.deliverables.add('ideal_customer_map');
+  const orderHistory = request.orderHistory;
+  const orderNote = orderHistory
+    ? `\n\nFrom your order history (${orderHistory.orders} orders, ${orderHistory.customers} customers), ${Math.round((orderHistory.repeatPurchaseRate || 0) * 100)}% of customers came back for a second order.`
+    : '';
+  return {
+    body: `## Ideal Customer Map\n\nYour interviews point to one core customer: the **quiet professional** who researches before buying and stays loyal once convinced.${orderNote}\n\nWhen you are ready, add **3 competitors** to start Market Positioning.`,
+    blocks: [
+      {
+        type: 'table',
+        title: 'Ideal Customer Map',
+        columns: ['Segment', 'Motivation', 'Where to reach them'],
+        rows: [
+          ['Quiet professional', 'Fewer, better things', 'Newsletters, long-form content'],
+          ['Gift buyer', 'A safe, beautiful choice', 'Seasonal campaigns'],
+        ],
+      },
+      deliverable('ideal_customer_map', brandName, '- **Quiet professional**: 30-45, urban, buys twice a year\n- **Gift buyer**: buys in November and December, rarely returns'),
+      { type: 'callout', tone: 'success', text: 'Phase 2 — Customer Insights is complete.' },
+    ],
+  };
+};
+
+const benchmarkReply = (brandName, journey, competitors) => {
+  journey.deliverables.add('competitor_benchmark');
+  const names = competitors.map(competitor => competitor.name || 'Unnamed competitor');
+  return {
+    body: `## Competitor Benchmark\n\nI compared **${brandName}** with ${names.join(', ')}. Correct anything that looks off and send the table back; I will base your positioning on it.`,
+    blocks: [
+      {
+        type: 'table',
+        title: 'Competitor Benchmark',
+        columns: ['Competitor', 'Price positioning', 'Target customer', 'Channels'],
+        rows: competitors.map(competitor => [
+          competitor.name || 'Unnamed competitor',
+          competitor.pricePositioning || 'Unknown',
+          competitor.targetCustomer || 'Unknown',
+          (competitor.channels || []).join(', ') || 'Unknown',
+        ]),
+      },
+    ],
+  };
+};
+
+const positioningReply = (brandName, journey) => {
+  journey.deliverables.add('positioning');
+  journey.deliverables.add('brand_voice');
+  return {
+    body: `## Your Positioning\n\nThanks for the corrected benchmark. **${brandName}** owns the space between premium craft and everyday wear: more accessible than the luxury names, more considered than the high street.\n\n## Brand Voice\n\nCalm, precise and warm. Say less, show the making.`,
+    blocks: [
+      deliverable('positioning', brandName, 'Premium craft for everyday life, priced for people who buy less and expect more.'),
+      deliverable('brand_voice', brandName, '- Calm, never loud\n- Precise about materials\n- Warm about people'),
+      { type: 'callout', tone: 'success', text: 'Phase 3 — Market Positioning is complete. Your brand strategy is ready.' },
+    ],
+  };
+};
+
+// What the current phase is still waiting for
+const guidanceReply = (brandName, journey, chatInput) => {
+  const phase = PHASES.find(candidate => candidate.id === journey.phase);
+  const missing = phase.documents.filter(document => !journey.documents.has(document));
+  const asks = {
+    foundations: 'upload your **Personality Interview & PAP** so I can write your Brand Analysis',
+    customer_insights: 'send a **Customer Interview Transcript** (the microphone button), and your **Order History** if you have it',
+    market_positioning: 'add **3 competitors** in the Competitors tab',
+  };
+  return {
+    body: `You said: _${chatInput || 'nothing'}_\n\nWe are in **${phase.title}** for ${brandName}. To move on, ${asks[phase.id]}.`,
+    blocks: missing.length > 0
+      ? [{ type: 'callout', tone: 'info', text: `Still needed for ${phase.title}: ${missing.join(', ')}` }]
+      : undefined,
+  };
+};
+
+const advancePhase = (journey) => {
+  const index = PHASES.findIndex(phase => phase.id === journey.phase);
+  const phase = PHASES[index];
+  if (index < PHASES.length - 1 && phase.deliverables.every(key => journey.deliverables.has(key))) {
+    journey.phase = PHASES[index + 1].id;
+  }
+};
+
+// `request` is the chat webhook body as the app sends it (lib/n8nClient.ts buildChatBody)
+export const scriptedReply = (journeyKey, request) => {
+  const journey = getJourney(journeyKey);
+  const brandName = request.brandName || 'your brand';
+  const chatInput = (request.chatInput || '').trim();
+
+  (request.documentTypes || []).forEach(type => recordDocument(journeyKey, type));
+  if (request.orderHistory) journey.documents.add('order_history');
+  if (request.interviews && request.interviews.length > 0) journey.documents.add('customer_interview_transcript');
+  const competitors = request.competitors || [];
+  if (competitors.length >= 3) journey.documents.add('competitors');
+
+  let reply;
+  if (request.competitorBenchmark) {
+    reply = positioningReply(brandName, journey);
+  } else if (journey.phase === 'market_positioning' && competitors.length >= 3 && !journey.deliverables.has('competitor_benchmark')) {
+    reply = benchmarkReply(brandName, journey, competitors);
+  } else if (journey.phase === 'customer_insights' && journey.documents.has('customer_interview_transcript')) {
+    reply = customerReply(brandName, journey, request);
+  } else if (journey.phase === 'foundations' && journey.documents.has('personality_interview_pap') && !journey.deliverables.has('brand_analysis')) {
+    reply = foundationsReply(brandName, journey);
+  } else if (journey.phase === 'foundations' && journey.deliverables.has('brand_analysis') && /\buvp\b|value proposition/i.test(chatInput)) {
+    reply = uvpReply(brandName, journey);
+  } else {
+    reply = guidanceReply(brandName, journey, chatInput);
+  }
+  advancePhase(journey);
+
+  const prefix = request.branchAction === 'regenerate' ? '_Another take:_\n\n' : '';
+  return {
+    version: 1,
+    body: prefix + reply.body,
+    ...(reply.blocks ? { blocks: reply.blocks } : {}),
+    phase: {
+      current: journey.phase,
+      documentsReceived: [...journey.documents],
+      deliverables: [...journey.deliverables],
+    },
+  };
+};
@@ -0,0 +1,381 @@
+// Local stand-in for the n8n workflows, for development, demos and reproducing odd responses
+// without network access. No dependencies beyond Node 18+.
+//
+//   npm run mock:n8n                       # listens on MOCK_N8N_PORT, default 5679
+//   VITE_N8N_PROFILE=mock npm run dev      # the app talks to it through the /mock-n8n proxy
+//
+// or keep the development profile and point its proxy here: N8N_PROXY_TARGET=http://localhost:5679.
+//
+// Endpoints answer with a scripted reply unless a fixture is selected. Fixtures live in
+// fixtures/<endpoint>/<name>.json, one per response shape the app has to handle:
+//
+//   { "description": "...", "status": 200, "contentType": "...", ...one of:
+//     "json": <any>                     sent as JSON
+//     "raw": "..."                      sent verbatim (plain text, broken JSON, double-encoded replies)
+//     "stream": { "format": "sse" | "ndjson", "chunks": [<string or object>], "intervalMs": 40 } }
+//
+// Faults make any endpoint misbehave. A fault spec is a space-separated list of
+//   latency=<ms>  status=<code>  empty  malformed  drop  chunkDelay=<ms>  rate=<0..1>
+// where `drop` closes the connection (halfway through a stream), and `rate` applies the rest of
+// the spec to that share of requests only.
+//
+// Selecting fixtures and faults, in order of precedence:
+//   - a chat message starting with `/fixture <name>` or `/fault <spec>`, for that message only
+//   - the control API: GET /__mock lists fixtures and the current settings,
+//     POST /__mock { "<endpoint>": { "fixture": "<name>" | null, "fault": "<spec>" | null } },
+//     POST /__mock/reset clears settings and scripted state
+//   - environment: MOCK_N8N_<ENDPOINT>_FIXTURE and MOCK_N8N_<ENDPOINT>_FAULT, with <ENDPOINT> as in
+//     VITE_N8N_<ENDPOINT>_PATH (CHAT, DOCUMENT_UPLOAD, RETRIEVE_HISTORY, IDENTIFY_USER)
+//
+// Chat replies stream as n8n does (MOCK_N8N_STREAM = ndjson, the default, sse, or off).
+
+import { createServer } from 'node:http';
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { scriptedReply, recordDocument, resetJourneys } from './agent.js';
+
+const PORT = Number(process.env.MOCK_N8N_PORT || 5679);
+const STREAM_FORMAT = process.env.MOCK_N8N_STREAM || 'ndjson';
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+// Keep in sync with WEBHOOK_IDS in lib/n8nClient.ts; the endpoint names are accepted too
+const WEBHOOK_IDS = {
+  chat: 'dccf8360-e9ae-44df-8a2d-6cf329c76ec6',
+  documentUpload: 'document-upload',
+  retrieveHistory: '511abe15-0332-4bf8-9ed7-bc718465191c',
+  identifyUser: 'identify-user',
+};
+
+const ENV_NAMES = {
+  chat: 'CHAT',
+  documentUpload: 'DOCUMENT_UPLOAD',
+  retrieveHistory: 'RETRIEVE_HISTORY',
+  identifyUser: 'IDENTIFY_USER',
+};
+
+const ENDPOINTS = Object.keys(WEBHOOK_IDS);
+
+const initialSettings = () => Object.fromEntries(ENDPOINTS.map(endpoint => [endpoint, {
+  fixture: process.env[`MOCK_N8N_${ENV_NAMES[endpoint]}_FIXTURE`] || null,
+  fault: process.env[`MOCK_N8N_${ENV_NAMES[endpoint]}_FAULT`] || null,
+}]));
+
+let settings = initialSettings();
+
+// Messages exchanged through the mock, replayed by the retrieve-history webhook
+let transcripts = [];
+
+// ---------------------------------------------------------------------------
+// Fixtures and faults
+// ---------------------------------------------------------------------------
+
+const listFixtures = (endpoint) => {
+  try {
+    return readdirSync(join(FIXTURES_DIR, endpoint))
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.replace(/\.json$/, ''))
+      .sort();
+  } catch {
+    return [];
+  }
+};
+
+const loadFixture = (endpoint, name) => {
+  if (!listFixtures(endpoint).includes(name)) {
+    throw new Error(`Unknown ${endpoint} fixture "${name}". Available: ${listFixtures(endpoint).join(', ') || 'none'}`);
+  }
+  return JSON.parse(readFileSync(join(FIXTURES_DIR, endpoint, `${name}.json`), 'utf8'));
+};
+
+const parseFault = (spec) => {
+  const fault = {};
+  (spec || '').split(/\s+/).filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=');
+    if (key === 'empty' || key === 'malformed' || key === 'drop') {
+      fault[key] = true;
+    } else if (['latency', 'status', 'chunkDelay', 'rate'].includes(key) && value !== undefined && !isNaN(Number(value))) {
+      fault[key] = Number(value);
+    } else {
+      throw new Error(`Invalid fault "${part}"`);
+    }
+  });
+  return fault;
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ---------------------------------------------------------------------------
+// Requests and responses
+// ---------------------------------------------------------------------------
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept',
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// The app's form fields that carry JSON (see buildChatBody)
+const JSON_FIELDS = ['orderHistory', 'interviews', 'competitors', 'competitorBenchmark', 'branchHistory'];
+
+// JSON bodies as they are; multipart bodies as fields, with files described and attachment
+// document types collected into `documentTypes` like the JSON body would have them
+const parseRequestBody = async (req, buffer) => {
+  const contentType = req.headers['content-type'] || '';
+  if (contentType.includes('multipart/form-data')) {
+    const form = await new Request('http://mock', { method: 'POST', headers: { 'content-type': contentType }, body: buffer }).formData();
+    const body = { documentTypes: [], files: [] };
+    for (const [key, value] of form.entries()) {
+      if (typeof value !== 'string') {
+        body.files.push({ field: key, name: value.name, size: value.size, type: value.type });
+      } else if (JSON_FIELDS.includes(key)) {
+        try {
+          body[key] = JSON.parse(value);
+        } catch {
+          body[key] = value;
+        }
+      } else if (/^attachment_\d+_documentType$/.test(key)) {
+        body.documentTypes.push(value);
+      } else {
+        body[key] = value;
+      }
+    }
+    return body;
+  }
+
+  const text = buffer.toString('utf8');
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { raw: text };
+  }
+};
+
+const send = (res, status, body, contentType = 'application/json') => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': contentType });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const STREAM_CONTENT_TYPES = { sse: 'text/event-stream', ndjson: 'application/x-ndjson' };
+
+const formatChunk = (format, chunk) => {
+  const data = typeof chunk === 'string' ? chunk : JSON.stringify(chunk);
+  return format === 'sse' ? `data: ${data.replace(/\n/g, '\ndata: ')}\n\n` : `${data}\n`;
+};
+
+const sendStream = async (res, stream, fault) => {
+  const format = stream.format === 'sse' ? 'sse' : 'ndjson';
+  const chunks = stream.chunks || [];
+  const intervalMs = fault.chunkDelay ?? stream.intervalMs ?? 40;
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': STREAM_CONTENT_TYPES[format], 'Cache-Control': 'no-cache' });
+
+  for (let index = 0; index < chunks.length; index++) {
+    if (res.destroyed) return;
+    if (fault.drop && index >= Math.ceil(chunks.length / 2)) {
+      res.destroy();
+      return;
+    }
+    res.write(formatChunk(format, chunks[index]));
+    await sleep(intervalMs);
+  }
+  res.end();
+};
+
+// Fixture responses go through the same path as scripted ones, so faults apply to both
+const sendResponse = async (res, response, fault) => {
+  if (fault.drop && !response.stream) {
+    res.destroy();
+    return;
+  }
+  if (fault.status) {
+    send(res, fault.status, { code: fault.status, message: `Mock n8n fault: status ${fault.status}` });
+    return;
+  }
+  if (fault.empty) {
+    send(res, 200, '', response.contentType || 'application/json');
+    return;
+  }
+  if (fault.malformed) {
+    send(res, 200, '{"version": 1, "body": "This reply was cut o', 'application/json');
+    return;
+  }
+  if (response.stream) {
+    await sendStream(res, response.stream, fault);
+    return;
+  }
+  if (response.raw !== undefined) {
+    send(res, response.status || 200, response.raw, response.contentType || 'text/plain; charset=utf-8');
+    return;
+  }
+  send(res, response.status || 200, response.json ?? '', response.contentType || 'application/json');
+};
+
+// Splits a reply into word-sized deltas followed by the complete envelope, like the real agent
+const streamEnvelope = (envelope, format) => {
+  const words = envelope.body.match(/\S+\s*|\s+/g) || [];
+  const deltas = [];
+  for (let index = 0; index < words.length; index += 3) {
+    deltas.push(words.slice(index, index + 3).join(''));
+  }
+  if (format === 'sse') {
+    return { format, chunks: [...deltas.map(content => ({ content })), envelope, '[DONE]'] };
+  }
+  return {
+    format,
+    chunks: [{ type: 'begin' }, ...deltas.map(content => ({ type: 'item', content })), envelope, { type: 'end' }],
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Scripted endpoints
+// ---------------------------------------------------------------------------
+
+const journeyKey = (body) => body.brandId || body.userId || 'anonymous';
+
+const record = (body, sender, content) => {
+  transcripts.push({
+    userId: body.userId,
+    brandId: body.brandId,
+    sessionId: body.sessionId,
+    sender,
+    content,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+const SCRIPTED = {
+  chat: (body) => {
+    const envelope = scriptedReply(journeyKey(body), body);
+    record(body, 'user', body.chatInput || '');
+    record(body, 'bot', envelope.body);
+    return STREAM_FORMAT === 'off'
+      ? { json: envelope }
+      : { stream: streamEnvelope(envelope, STREAM_FORMAT) };
+  },
+  documentUpload: (body) => {
+    recordDocument(journeyKey(body), body.documentType);
+    const file = body.files?.[0];
+    return { json: { message: `Received ${file ? file.name : 'your document'}${body.documentType ? ` as ${body.documentType}` : ''}.`, documentType: body.documentType || null } };
+  },
+  retrieveHistory: (body) => ({
+    json: transcripts
+      .filter(message => message.userId === body.userId && (!body.brandId || message.brandId === body.brandId))
+      .map(({ sender, content, timestamp, sessionId }) => ({ sender, content, timestamp, sessionId })),
+  }),
+  identifyUser: (body) => ({
+    json: { success: true, user_email: body.user_email || null, known: true },
+  }),
+};
+
+// `/fixture <name>` and `/fault <spec>` at the start of a chat message
+const parseChatCommands = (chatInput) => {
+  const commands = {};
+  let rest = (chatInput || '').trim();
+  for (;;) {
+    const match = rest.match(/^\/(fixture|fault)\s+(\S+(?:\s+\S+=\S+|\s+(?:empty|malformed|drop)\b)*)\s*/);
+    if (!match) break;
+    commands[match[1]] = match[2];
+    rest = rest.slice(match[0].length);
+  }
+  return { commands, chatInput: rest };
+};
+
+const resolveEndpoint = (pathname) => {
+  const id = pathname.replace(/^\/+/, '').replace(/^(webhook|webhook-test)\//, '');
+  return ENDPOINTS.find(endpoint => WEBHOOK_IDS[endpoint] === id || endpoint === id) || null;
+};
+
+const handleWebhook = async (req, res, endpoint) => {
+  const body = await parseRequestBody(req, await readBody(req));
+
+  let { fixture, fault: faultSpec } = settings[endpoint];
+  if (endpoint === 'chat') {
+    const { commands, chatInput } = parseChatCommands(body.chatInput);
+    body.chatInput = chatInput;
+    fixture = commands.fixture || fixture;
+    faultSpec = commands.fault || faultSpec;
+  }
+
+  const fault = parseFault(faultSpec);
+  const applies = fault.rate === undefined || Math.random() < fault.rate;
+  const activeFault = applies ? fault : {};
+  const response = fixture ? loadFixture(endpoint, fixture) : SCRIPTED[endpoint](body);
+
+  console.log(`[mock-n8n] ${endpoint}${fixture ? ` fixture=${fixture}` : ''}${applies && faultSpec ? ` fault="${faultSpec}"` : ''}`);
+  if (activeFault.latency) await sleep(activeFault.latency);
+  await sendResponse(res, response, activeFault);
+};
+
+const handleControl = async (req, res, pathname) => {
+  if (req.method === 'GET' && pathname === '/__mock') {
+    send(res, 200, {
+      settings,
+      streamFormat: STREAM_FORMAT,
+      fixtures: Object.fromEntries(ENDPOINTS.map(endpoint => [endpoint, listFixtures(endpoint)])),
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/__mock/reset') {
+    settings = initialSettings();
+    transcripts = [];
+    resetJourneys();
+    send(res, 200, { settings });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/__mock') {
+    const changes = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+    for (const [endpoint, change] of Object.entries(changes)) {
+      if (!settings[endpoint]) throw new Error(`Unknown endpoint "${endpoint}"`);
+      if (change.fixture) loadFixture(endpoint, change.fixture);
+      if (change.fault) parseFault(change.fault);
+      settings[endpoint] = { ...settings[endpoint], ...change };
+    }
+    send(res, 200, { settings });
+    return;
+  }
+
+  send(res, 404, { message: `No mock control route ${req.method} ${pathname}` });
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://mock');
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    if (pathname.startsWith('/__mock')) {
+      await handleControl(req, res, pathname);
+      return;
+    }
+
+    const endpoint = req.method === 'POST' ? resolveEndpoint(pathname) : null;
+    if (!endpoint) {
+      // What n8n answers for a webhook that is not registered
+      send(res, 404, { code: 404, message: `The requested webhook "${req.method} ${pathname}" is not registered.` });
+      return;
+    }
+
+    await handleWebhook(req, res, endpoint);
+  } catch (error) {
+    console.error('[mock-n8n]', error);
+    if (!res.headersSent) send(res, 400, { message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-n8n] listening on http://localhost:${PORT} (streaming: ${STREAM_FORMAT})`);
+});
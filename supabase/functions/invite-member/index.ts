@@ -0,0 +1,99 @@
+// Emails a stored brand invitation to the invited address.
+// POST { invitationId, redirectTo } with the inviting owner's session as the Authorization header.
+// New addresses get a Supabase invite; existing accounts get a sign-in link instead.
+// Any failure answers with a non-2xx status so the app can report the invitation as not sent.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return json({ error: 'Not signed in' }, 401);
+
+  let invitationId: unknown;
+  let redirectTo: unknown;
+  try {
+    ({ invitationId, redirectTo } = await req.json());
+  } catch {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+  if (typeof invitationId !== 'string' || (redirectTo !== undefined && typeof redirectTo !== 'string')) {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+
+  // Reads run as the caller so RLS decides what they may see
+  const caller = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+
+  const { data: invitation, error: invitationError } = await caller
+    .from('brand_invitations')
+    .select('id, brand_id, email, status')
+    .eq('id', invitationId)
+    .maybeSingle();
+
+  if (invitationError) {
+    console.error('Error loading invitation:', invitationError);
+    return json({ error: 'Could not load the invitation' }, 500);
+  }
+  if (!invitation) return json({ error: 'Invitation not found' }, 404);
+  if (invitation.status !== 'pending') return json({ error: 'Invitation is no longer open' }, 409);
+
+  // The invitee can read their own invitation too; only owners send it
+  const { data: role, error: roleError } = await caller.rpc('brand_role', { p_brand_id: invitation.brand_id });
+  if (roleError) {
+    console.error('Error checking brand role:', roleError);
+    return json({ error: 'Could not check your role' }, 500);
+  }
+  if (role !== 'owner') return json({ error: 'Only brand owners can invite people' }, 403);
+
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(invitation.email, {
+    redirectTo: redirectTo as string | undefined,
+    data: { registrationSource: 'invitation' },
+  });
+
+  if (!inviteError) return json({ sent: true });
+
+  // 422: the address already has an account; it accepts the invitation after signing in
+  if (inviteError.status !== 422) {
+    console.error('Error sending invite:', inviteError);
+    return json({ error: 'Could not send the invitation email' }, 502);
+  }
+
+  const mailer = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false },
+  });
+  const { error: linkError } = await mailer.auth.signInWithOtp({
+    email: invitation.email,
+    options: { shouldCreateUser: false, emailRedirectTo: redirectTo as string | undefined },
+  });
+
+  if (linkError) {
+    console.error('Error sending sign-in link:', linkError);
+    return json({ error: 'Could not send the invitation email' }, 502);
+  }
+
+  return json({ sent: true });
+});
@@ -0,0 +1,52 @@
+/*
+  # Create brand journey table for phase tracking
+
+  1. New Tables
+    - `brand_journeys`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users, one journey per user)
+      - `current_phase` (text, one of foundations / customer_insights / market_positioning)
+      - `submitted_documents` (jsonb, document key -> submitted at)
+      - `received_deliverables` (jsonb, deliverable key -> received at)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `brand_journeys`
+    - Add policies for users to access only their own journey
+*/
+
+-- Create brand_journeys table
+CREATE TABLE IF NOT EXISTS public.brand_journeys (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    current_phase text DEFAULT 'foundations' NOT NULL,
+    submitted_documents jsonb DEFAULT '{}'::jsonb NOT NULL,
+    received_deliverables jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT brand_journeys_pkey PRIMARY KEY (id),
+    CONSTRAINT brand_journeys_user_id_key UNIQUE (user_id),
+    CONSTRAINT brand_journeys_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT brand_journeys_current_phase_check CHECK (current_phase IN ('foundations', 'customer_insights', 'market_positioning'))
+);
+
+-- Enable RLS on brand_journeys
+ALTER TABLE public.brand_journeys ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for brand_journeys
+CREATE POLICY "Enable read access for users based on user_id"
+ON public.brand_journeys FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable insert for users based on user_id"
+ON public.brand_journeys FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for users based on user_id"
+ON public.brand_journeys FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for users based on user_id"
+ON public.brand_journeys FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,25 @@
+/*
+  # Add n8n session ids to chat conversations
+
+  1. Changes
+    - `chat_conversations`
+      - `session_id` (text, unique) - the sessionId sent to the n8n agent for this
+        conversation; n8n keys its memory (`n8n_chat_histories`) on it
+
+  2. Notes
+    - Existing conversations are backfilled with a fresh session id, since the
+      ids they were sent with were never stored
+*/
+
+ALTER TABLE public.chat_conversations
+  ADD COLUMN IF NOT EXISTS session_id text DEFAULT gen_random_uuid()::text;
+
+UPDATE public.chat_conversations
+SET session_id = gen_random_uuid()::text
+WHERE session_id IS NULL;
+
+ALTER TABLE public.chat_conversations
+  ALTER COLUMN session_id SET NOT NULL;
+
+ALTER TABLE public.chat_conversations
+  ADD CONSTRAINT chat_conversations_session_id_key UNIQUE (session_id);
@@ -0,0 +1,61 @@
+/*
+  # Create brand deliverables table for the deliverables library
+
+  1. New Tables
+    - `brand_deliverables`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `deliverable_key` (text, one of the journey deliverables)
+      - `phase` (text, journey phase the deliverable belongs to)
+      - `title` (text)
+      - `content` (text, markdown as produced by the agent)
+      - `version` (integer, counts up per user and deliverable starting at 1)
+      - `source` (text, `tagged` when the agent marked the deliverable, `detected` when it was found in a reply)
+      - `conversation_id` (uuid, foreign key to chat_conversations, the conversation that produced this version)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `brand_deliverables`
+    - Add policies for users to access only their own deliverables
+    - Versions are never edited, a new version is added instead
+*/
+
+-- Create brand_deliverables table
+CREATE TABLE IF NOT EXISTS public.brand_deliverables (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    deliverable_key text NOT NULL,
+    phase text NOT NULL,
+    title text NOT NULL,
+    content text NOT NULL,
+    version integer DEFAULT 1 NOT NULL,
+    source text DEFAULT 'tagged' NOT NULL,
+    conversation_id uuid,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT brand_deliverables_pkey PRIMARY KEY (id),
+    CONSTRAINT brand_deliverables_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT brand_deliverables_conversation_id_fkey FOREIGN KEY (conversation_id) REFERENCES public.chat_conversations(id) ON DELETE SET NULL,
+    CONSTRAINT brand_deliverables_version_key UNIQUE (user_id, deliverable_key, version),
+    CONSTRAINT brand_deliverables_deliverable_key_check CHECK (deliverable_key IN (
+        'brand_analysis', 'document_recommendations', 'brand_summary', 'uvp',
+        'ideal_customer_map', 'competitor_benchmark', 'positioning', 'brand_voice'
+    )),
+    CONSTRAINT brand_deliverables_phase_check CHECK (phase IN ('foundations', 'customer_insights', 'market_positioning')),
+    CONSTRAINT brand_deliverables_source_check CHECK (source IN ('tagged', 'detected'))
+);
+
+-- Enable RLS on brand_deliverables
+ALTER TABLE public.brand_deliverables ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for brand_deliverables
+CREATE POLICY "Enable read access for users based on user_id"
+ON public.brand_deliverables FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable insert for users based on user_id"
+ON public.brand_deliverables FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for users based on user_id"
+ON public.brand_deliverables FOR DELETE
+USING (auth.uid() = user_id);
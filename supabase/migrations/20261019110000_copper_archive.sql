@@ -0,0 +1,87 @@
+/*
+  # Create document library storage and table
+
+  1. Storage
+    - Private `brand-documents` bucket
+    - Objects are stored under `<user id>/...`, users can only access their own prefix
+
+  2. New Tables
+    - `brand_documents`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `storage_path` (text, object path in the `brand-documents` bucket)
+      - `file_name` (text)
+      - `mime_type` (text)
+      - `size_bytes` (bigint)
+      - `document_type` (text, journey document key or `other`)
+      - `phase` (text, journey phase of the document type, null for `other`)
+      - `uploaded_at` (timestamp)
+      - `updated_at` (timestamp, set when the file is replaced)
+
+  3. Security
+    - Enable RLS on `brand_documents`
+    - Add policies for users to access only their own documents and files
+*/
+
+-- Create the private bucket for uploaded documents
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('brand-documents', 'brand-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies: the first folder of the object path is the owner's user id
+CREATE POLICY "Enable read access for users based on folder"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'brand-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Enable insert for users based on folder"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'brand-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Enable update for users based on folder"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'brand-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Enable delete for users based on folder"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'brand-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Create brand_documents table
+CREATE TABLE IF NOT EXISTS public.brand_documents (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    storage_path text NOT NULL,
+    file_name text NOT NULL,
+    mime_type text DEFAULT 'application/octet-stream' NOT NULL,
+    size_bytes bigint DEFAULT 0 NOT NULL,
+    document_type text DEFAULT 'other' NOT NULL,
+    phase text,
+    uploaded_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT brand_documents_pkey PRIMARY KEY (id),
+    CONSTRAINT brand_documents_storage_path_key UNIQUE (storage_path),
+    CONSTRAINT brand_documents_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT brand_documents_document_type_check CHECK (document_type IN (
+        'personality_interview_pap', 'customer_interview_transcript', 'order_history', 'competitors', 'other'
+    )),
+    CONSTRAINT brand_documents_phase_check CHECK (phase IS NULL OR phase IN ('foundations', 'customer_insights', 'market_positioning'))
+);
+
+-- Enable RLS on brand_documents
+ALTER TABLE public.brand_documents ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for brand_documents
+CREATE POLICY "Enable read access for users based on user_id"
+ON public.brand_documents FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable insert for users based on user_id"
+ON public.brand_documents FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for users based on user_id"
+ON public.brand_documents FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for users based on user_id"
+ON public.brand_documents FOR DELETE
+USING (auth.uid() = user_id);
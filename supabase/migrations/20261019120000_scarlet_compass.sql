@@ -0,0 +1,64 @@
+/*
+  # Create brand_competitors table
+
+  1. New Tables
+    - `brand_competitors`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text)
+      - `website` (text)
+      - `price_positioning` (text, `budget` | `mid_market` | `premium` | `luxury`)
+      - `target_customer` (text)
+      - `channels` (text array, e.g. `online_store`, `marketplaces`, `retail`)
+      - `notes` (text)
+      - `assets` (jsonb, screenshots and lookbooks stored in the `brand-documents` bucket)
+      - `position` (integer, order in the editor)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `brand_competitors`
+    - Add policies for users to access only their own competitors
+    - Asset files live under `<user id>/competitors/...` and are covered by the bucket's folder policies
+*/
+
+-- Create brand_competitors table
+CREATE TABLE IF NOT EXISTS public.brand_competitors (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    name text NOT NULL,
+    website text DEFAULT '' NOT NULL,
+    price_positioning text,
+    target_customer text DEFAULT '' NOT NULL,
+    channels text[] DEFAULT '{}' NOT NULL,
+    notes text DEFAULT '' NOT NULL,
+    assets jsonb DEFAULT '[]'::jsonb NOT NULL,
+    position integer DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT brand_competitors_pkey PRIMARY KEY (id),
+    CONSTRAINT brand_competitors_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT brand_competitors_price_positioning_check CHECK (
+        price_positioning IS NULL OR price_positioning IN ('budget', 'mid_market', 'premium', 'luxury')
+    )
+);
+
+-- Enable RLS on brand_competitors
+ALTER TABLE public.brand_competitors ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for brand_competitors
+CREATE POLICY "Enable read access for users based on user_id"
+ON public.brand_competitors FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable insert for users based on user_id"
+ON public.brand_competitors FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for users based on user_id"
+ON public.brand_competitors FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for users based on user_id"
+ON public.brand_competitors FOR DELETE
+USING (auth.uid() = user_id);
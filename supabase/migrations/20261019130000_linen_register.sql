@@ -0,0 +1,174 @@
+/*
+  # Create users and user_accounts tables
+
+  1. New Tables
+    - `users` (the brand owner's profile, one row per auth user)
+      - `id` (uuid, primary key, foreign key to auth.users)
+      - `email` (text)
+      - `first_name` (text)
+      - `last_name` (text)
+      - `brand_name` (text)
+      - `created_at` (timestamp)
+      - `last_login` (timestamp)
+    - `user_accounts` (account state, one row per auth user)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users, unique)
+      - `account_status` (text, `active` | `suspended` | `deactivated`)
+      - `registration_source` (text, e.g. `web`)
+      - `registration_ip` (text, nullable)
+      - `email_verified` (boolean)
+      - `last_activity` (timestamp)
+      - `account_created_at` (timestamp)
+      - `account_updated_at` (timestamp)
+
+  2. Functions
+    - `handle_new_user` creates both rows when a user signs up, from the name and brand
+      passed as user metadata. It runs as a trigger because signups that still need email
+      confirmation have no session to insert with.
+    - `handle_user_email_change` keeps `users.email` and `user_accounts.email_verified` in step
+      with auth.users.
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can read their own profile and update its name, brand and last login
+    - Users can read their own account but only update `last_activity`; `account_status` is
+      managed by administrators and checked at login
+*/
+
+-- Create users table
+CREATE TABLE IF NOT EXISTS public.users (
+    id uuid NOT NULL,
+    email text NOT NULL,
+    first_name text DEFAULT '' NOT NULL,
+    last_name text DEFAULT '' NOT NULL,
+    brand_name text DEFAULT '' NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    last_login timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT users_pkey PRIMARY KEY (id),
+    CONSTRAINT users_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- Enable RLS on users
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for users
+CREATE POLICY "Enable read access for users based on id"
+ON public.users FOR SELECT
+USING (auth.uid() = id);
+
+CREATE POLICY "Enable update for users based on id"
+ON public.users FOR UPDATE
+USING (auth.uid() = id);
+
+-- The email follows auth.users through handle_user_email_change
+REVOKE UPDATE ON public.users FROM authenticated;
+GRANT UPDATE (first_name, last_name, brand_name, last_login) ON public.users TO authenticated;
+
+-- Create user_accounts table
+CREATE TABLE IF NOT EXISTS public.user_accounts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    account_status text DEFAULT 'active' NOT NULL,
+    registration_source text DEFAULT 'web' NOT NULL,
+    registration_ip text,
+    email_verified boolean DEFAULT false NOT NULL,
+    last_activity timestamp with time zone DEFAULT now() NOT NULL,
+    account_created_at timestamp with time zone DEFAULT now() NOT NULL,
+    account_updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT user_accounts_pkey PRIMARY KEY (id),
+    CONSTRAINT user_accounts_user_id_key UNIQUE (user_id),
+    CONSTRAINT user_accounts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT user_accounts_account_status_check CHECK (account_status IN ('active', 'suspended', 'deactivated'))
+);
+
+-- Enable RLS on user_accounts
+ALTER TABLE public.user_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for user_accounts
+CREATE POLICY "Enable read access for users based on user_id"
+ON public.user_accounts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for users based on user_id"
+ON public.user_accounts FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Only the activity timestamp is writable from the app
+REVOKE UPDATE ON public.user_accounts FROM authenticated;
+GRANT UPDATE (last_activity) ON public.user_accounts TO authenticated;
+
+-- Create both rows at signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    INSERT INTO public.users (id, email, first_name, last_name, brand_name)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.email, ''),
+        COALESCE(NEW.raw_user_meta_data->>'firstName', ''),
+        COALESCE(NEW.raw_user_meta_data->>'lastName', ''),
+        COALESCE(NEW.raw_user_meta_data->>'brandName', '')
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.user_accounts (user_id, registration_source, email_verified)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'registrationSource', 'web'),
+        NEW.email_confirmed_at IS NOT NULL
+    )
+    ON CONFLICT (user_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Follow email changes and confirmations
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    UPDATE public.users
+    SET email = COALESCE(NEW.email, '')
+    WHERE id = NEW.id;
+
+    UPDATE public.user_accounts
+    SET email_verified = NEW.email_confirmed_at IS NOT NULL,
+        account_updated_at = now()
+    WHERE user_id = NEW.id;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_changed
+AFTER UPDATE OF email, email_confirmed_at ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_user_email_change();
+
+-- Existing users keep the profile they had in user_metadata
+INSERT INTO public.users (id, email, first_name, last_name, brand_name, created_at)
+SELECT
+    id,
+    COALESCE(email, ''),
+    COALESCE(raw_user_meta_data->>'firstName', ''),
+    COALESCE(raw_user_meta_data->>'lastName', ''),
+    COALESCE(raw_user_meta_data->>'brandName', ''),
+    created_at
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.user_accounts (user_id, email_verified, account_created_at)
+SELECT id, email_confirmed_at IS NOT NULL, created_at
+FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
@@ -0,0 +1,147 @@
+/*
+  # Create brands table and scope brand data to a brand
+
+  1. New Tables
+    - `brands` (the client labels a user runs Brand Challenger for)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `brand_id` (uuid, not null) added to `chat_conversations`, `brand_journeys`,
+      `brand_deliverables`, `brand_documents` and `brand_competitors`. The foreign key is on
+      (`brand_id`, `user_id`) so a row can only point at a brand of the same user.
+    - One journey per brand instead of per user; deliverable versions count up per brand
+    - `users.brand_name` is removed; the brand lives in `brands`
+    - `handle_new_user` creates the first brand from the name given at signup
+
+  3. Data
+    - Every existing user gets one brand named after `users.brand_name`, and all their
+      conversations, journey, deliverables, documents and competitors are moved to it
+
+  4. Security
+    - Enable RLS on `brands`
+    - Add policies for users to access only their own brands
+*/
+
+-- Create brands table
+CREATE TABLE IF NOT EXISTS public.brands (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    name text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT brands_pkey PRIMARY KEY (id),
+    CONSTRAINT brands_id_user_id_key UNIQUE (id, user_id),
+    CONSTRAINT brands_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT brands_name_check CHECK (length(trim(name)) > 0)
+);
+
+-- Enable RLS on brands
+ALTER TABLE public.brands ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for brands
+CREATE POLICY "Enable read access for users based on user_id"
+ON public.brands FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable insert for users based on user_id"
+ON public.brands FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for users based on user_id"
+ON public.brands FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for users based on user_id"
+ON public.brands FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Move each user's brand into the new table
+INSERT INTO public.brands (user_id, name, created_at)
+SELECT id, COALESCE(NULLIF(trim(brand_name), ''), 'My Brand'), created_at
+FROM public.users;
+
+-- Scope the brand data: add the column, point existing rows at the user's brand, then require it
+ALTER TABLE public.chat_conversations ADD COLUMN IF NOT EXISTS brand_id uuid;
+ALTER TABLE public.brand_journeys ADD COLUMN IF NOT EXISTS brand_id uuid;
+ALTER TABLE public.brand_deliverables ADD COLUMN IF NOT EXISTS brand_id uuid;
+ALTER TABLE public.brand_documents ADD COLUMN IF NOT EXISTS brand_id uuid;
+ALTER TABLE public.brand_competitors ADD COLUMN IF NOT EXISTS brand_id uuid;
+
+UPDATE public.chat_conversations t SET brand_id = b.id FROM public.brands b WHERE b.user_id = t.user_id;
+UPDATE public.brand_journeys t SET brand_id = b.id FROM public.brands b WHERE b.user_id = t.user_id;
+UPDATE public.brand_deliverables t SET brand_id = b.id FROM public.brands b WHERE b.user_id = t.user_id;
+UPDATE public.brand_documents t SET brand_id = b.id FROM public.brands b WHERE b.user_id = t.user_id;
+UPDATE public.brand_competitors t SET brand_id = b.id FROM public.brands b WHERE b.user_id = t.user_id;
+
+ALTER TABLE public.chat_conversations
+  ALTER COLUMN brand_id SET NOT NULL,
+  ADD CONSTRAINT chat_conversations_brand_id_fkey FOREIGN KEY (brand_id, user_id) REFERENCES public.brands(id, user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.brand_journeys
+  ALTER COLUMN brand_id SET NOT NULL,
+  ADD CONSTRAINT brand_journeys_brand_id_fkey FOREIGN KEY (brand_id, user_id) REFERENCES public.brands(id, user_id) ON DELETE CASCADE,
+  DROP CONSTRAINT brand_journeys_user_id_key,
+  ADD CONSTRAINT brand_journeys_brand_id_key UNIQUE (brand_id);
+
+ALTER TABLE public.brand_deliverables
+  ALTER COLUMN brand_id SET NOT NULL,
+  ADD CONSTRAINT brand_deliverables_brand_id_fkey FOREIGN KEY (brand_id, user_id) REFERENCES public.brands(id, user_id) ON DELETE CASCADE,
+  DROP CONSTRAINT brand_deliverables_version_key,
+  ADD CONSTRAINT brand_deliverables_version_key UNIQUE (brand_id, deliverable_key, version);
+
+ALTER TABLE public.brand_documents
+  ALTER COLUMN brand_id SET NOT NULL,
+  ADD CONSTRAINT brand_documents_brand_id_fkey FOREIGN KEY (brand_id, user_id) REFERENCES public.brands(id, user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.brand_competitors
+  ALTER COLUMN brand_id SET NOT NULL,
+  ADD CONSTRAINT brand_competitors_brand_id_fkey FOREIGN KEY (brand_id, user_id) REFERENCES public.brands(id, user_id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS chat_conversations_brand_id_idx ON public.chat_conversations (brand_id);
+CREATE INDEX IF NOT EXISTS brand_deliverables_brand_id_idx ON public.brand_deliverables (brand_id);
+CREATE INDEX IF NOT EXISTS brand_documents_brand_id_idx ON public.brand_documents (brand_id);
+CREATE INDEX IF NOT EXISTS brand_competitors_brand_id_idx ON public.brand_competitors (brand_id);
+
+-- The brand name now lives in brands
+REVOKE UPDATE ON public.users FROM authenticated;
+ALTER TABLE public.users DROP COLUMN IF EXISTS brand_name;
+GRANT UPDATE (first_name, last_name, last_login) ON public.users TO authenticated;
+
+-- Create the profile, the account and the first brand at signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    INSERT INTO public.users (id, email, first_name, last_name)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.email, ''),
+        COALESCE(NEW.raw_user_meta_data->>'firstName', ''),
+        COALESCE(NEW.raw_user_meta_data->>'lastName', '')
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.user_accounts (user_id, registration_source, email_verified)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'registrationSource', 'web'),
+        NEW.email_confirmed_at IS NOT NULL
+    )
+    ON CONFLICT (user_id) DO NOTHING;
+
+    INSERT INTO public.brands (user_id, name)
+    VALUES (
+        NEW.id,
+        COALESCE(NULLIF(trim(NEW.raw_user_meta_data->>'brandName'), ''), 'My Brand')
+    );
+
+    RETURN NEW;
+END;
+$$;
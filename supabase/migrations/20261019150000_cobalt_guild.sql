@@ -0,0 +1,509 @@
+/*
+  # Team workspaces: brand members, invitations and membership-based RLS
+
+  Each brand is a workspace. Its members have one of three roles:
+    - `owner` manages the brand, its members and invitations
+    - `editor` chats with the agent and edits documents, competitors and deliverables
+    - `viewer` reads conversations, deliverables and documents
+
+  1. New Tables
+    - `brand_members`
+      - `id` (uuid, primary key)
+      - `brand_id` (uuid, foreign key to brands)
+      - `user_id` (uuid, foreign key to users, so member names can be embedded)
+      - `role` (text, `owner` | `editor` | `viewer`)
+      - `created_at` (timestamp)
+    - `brand_invitations`
+      - `id` (uuid, primary key)
+      - `brand_id` (uuid, foreign key to brands)
+      - `email` (text, the invited address)
+      - `role` (text, `editor` | `viewer`)
+      - `invited_by` (uuid, foreign key to auth.users)
+      - `status` (text, `pending` | `accepted` | `declined` | `revoked`)
+      - `created_at` (timestamp)
+      - `responded_at` (timestamp, nullable)
+
+  2. Changes
+    - `chat_messages.author_id` (uuid, nullable): who wrote a user message; null for agent replies
+    - `user_id` on conversations, documents, competitors, deliverables and journeys now records
+      who created the row; the brand foreign keys no longer tie it to the brand's creator
+    - Every brand gets its creator as owner, on insert and for existing brands
+
+  3. Functions
+    - `brand_role(brand_id)` returns the current user's role in a brand, or null
+    - `shares_brand(user_id)` tells whether the current user and another user share a brand
+    - `my_brand_invitations()` lists pending invitations for the current user's email
+    - `accept_brand_invitation(id)` / `decline_brand_invitation(id)` answer an invitation
+    - `handle_new_brand` makes the creator of a brand its owner
+    - `keep_brand_owner` stops the last owner from leaving or being demoted
+
+  4. Security
+    - All `auth.uid() = user_id` policies on brand data are replaced by policies on brand
+      membership: members read, owners and editors write
+    - Members can read each other's profile in `users`
+    - Files in `brand-documents` can be read by members of the brand they belong to
+*/
+
+-- Create brand_members table
+CREATE TABLE IF NOT EXISTS public.brand_members (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    brand_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    role text DEFAULT 'viewer' NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT brand_members_pkey PRIMARY KEY (id),
+    CONSTRAINT brand_members_brand_id_user_id_key UNIQUE (brand_id, user_id),
+    CONSTRAINT brand_members_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE,
+    CONSTRAINT brand_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+    CONSTRAINT brand_members_role_check CHECK (role IN ('owner', 'editor', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS brand_members_user_id_idx ON public.brand_members (user_id);
+
+-- Create brand_invitations table
+CREATE TABLE IF NOT EXISTS public.brand_invitations (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    brand_id uuid NOT NULL,
+    email text NOT NULL,
+    role text DEFAULT 'viewer' NOT NULL,
+    invited_by uuid NOT NULL,
+    status text DEFAULT 'pending' NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    responded_at timestamp with time zone,
+    CONSTRAINT brand_invitations_pkey PRIMARY KEY (id),
+    CONSTRAINT brand_invitations_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE,
+    CONSTRAINT brand_invitations_invited_by_fkey FOREIGN KEY (invited_by) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT brand_invitations_role_check CHECK (role IN ('editor', 'viewer')),
+    CONSTRAINT brand_invitations_status_check CHECK (status IN ('pending', 'accepted', 'declined', 'revoked'))
+);
+
+-- One open invitation per address and brand
+CREATE UNIQUE INDEX IF NOT EXISTS brand_invitations_pending_email_key
+ON public.brand_invitations (brand_id, lower(email))
+WHERE status = 'pending';
+
+-- Role helpers. SECURITY DEFINER so policies can use them without recursing into brand_members RLS
+CREATE OR REPLACE FUNCTION public.brand_role(p_brand_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT role FROM public.brand_members
+    WHERE brand_id = p_brand_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.shares_brand(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.brand_members me
+        JOIN public.brand_members them ON them.brand_id = me.brand_id
+        WHERE me.user_id = auth.uid() AND them.user_id = p_user_id
+    );
+$$;
+
+-- Make the creator of a brand its owner
+CREATE OR REPLACE FUNCTION public.handle_new_brand()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    INSERT INTO public.brand_members (brand_id, user_id, role)
+    VALUES (NEW.id, NEW.user_id, 'owner')
+    ON CONFLICT (brand_id, user_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_brand_created
+AFTER INSERT ON public.brands
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_brand();
+
+INSERT INTO public.brand_members (brand_id, user_id, role, created_at)
+SELECT id, user_id, 'owner', created_at
+FROM public.brands
+ON CONFLICT (brand_id, user_id) DO NOTHING;
+
+-- A brand always keeps an owner; deleting the brand itself is still allowed
+CREATE OR REPLACE FUNCTION public.keep_brand_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+    IF OLD.role = 'owner'
+        AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+        AND EXISTS (SELECT 1 FROM public.brands WHERE id = OLD.brand_id)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.brand_members
+            WHERE brand_id = OLD.brand_id AND role = 'owner' AND id <> OLD.id
+        )
+    THEN
+        RAISE EXCEPTION 'A brand needs at least one owner' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_brand_owner
+BEFORE UPDATE OF role OR DELETE ON public.brand_members
+FOR EACH ROW EXECUTE FUNCTION public.keep_brand_owner();
+
+-- Enable RLS on brand_members
+ALTER TABLE public.brand_members ENABLE ROW LEVEL SECURITY;
+
+-- Members are added by handle_new_brand and accept_brand_invitation only
+CREATE POLICY "Enable read access for brand members"
+ON public.brand_members FOR SELECT
+USING (public.brand_role(brand_id) IS NOT NULL);
+
+CREATE POLICY "Enable update for brand owners"
+ON public.brand_members FOR UPDATE
+USING (public.brand_role(brand_id) = 'owner');
+
+CREATE POLICY "Enable delete for brand owners and the member"
+ON public.brand_members FOR DELETE
+USING (public.brand_role(brand_id) = 'owner' OR auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE ON public.brand_members FROM authenticated;
+GRANT UPDATE (role) ON public.brand_members TO authenticated;
+
+-- Enable RLS on brand_invitations
+ALTER TABLE public.brand_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for brand owners and the invitee"
+ON public.brand_invitations FOR SELECT
+USING (public.brand_role(brand_id) = 'owner' OR lower(email) = lower(auth.jwt()->>'email'));
+
+CREATE POLICY "Enable insert for brand owners"
+ON public.brand_invitations FOR INSERT
+WITH CHECK (public.brand_role(brand_id) = 'owner' AND auth.uid() = invited_by AND status = 'pending');
+
+-- Owners revoke; invitees answer through accept_brand_invitation / decline_brand_invitation
+CREATE POLICY "Enable update for brand owners"
+ON public.brand_invitations FOR UPDATE
+USING (public.brand_role(brand_id) = 'owner')
+WITH CHECK (status = 'revoked');
+
+REVOKE UPDATE ON public.brand_invitations FROM authenticated;
+GRANT UPDATE (status, responded_at) ON public.brand_invitations TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.my_brand_invitations()
+RETURNS TABLE (
+    id uuid,
+    brand_id uuid,
+    brand_name text,
+    role text,
+    invited_by_name text,
+    created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT i.id, i.brand_id, b.name, i.role, trim(concat(u.first_name, ' ', u.last_name)), i.created_at
+    FROM public.brand_invitations i
+    JOIN public.brands b ON b.id = i.brand_id
+    LEFT JOIN public.users u ON u.id = i.invited_by
+    WHERE i.status = 'pending' AND lower(i.email) = lower(auth.jwt()->>'email')
+    ORDER BY i.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_brand_invitation(p_invitation_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_invitation public.brand_invitations;
+BEGIN
+    SELECT * INTO v_invitation
+    FROM public.brand_invitations
+    WHERE id = p_invitation_id AND status = 'pending' AND lower(email) = lower(auth.jwt()->>'email')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found or no longer open' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.brand_members (brand_id, user_id, role)
+    VALUES (v_invitation.brand_id, auth.uid(), v_invitation.role)
+    ON CONFLICT (brand_id, user_id) DO NOTHING;
+
+    UPDATE public.brand_invitations
+    SET status = 'accepted', responded_at = now()
+    WHERE id = v_invitation.id;
+
+    RETURN v_invitation.brand_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_brand_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    UPDATE public.brand_invitations
+    SET status = 'declined', responded_at = now()
+    WHERE id = p_invitation_id AND status = 'pending' AND lower(email) = lower(auth.jwt()->>'email');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found or no longer open' USING ERRCODE = 'P0002';
+    END IF;
+END;
+$$;
+
+-- Members see each other's names
+CREATE POLICY "Enable read access for members of a shared brand"
+ON public.users FOR SELECT
+USING (public.shares_brand(id));
+
+-- Who wrote each user message
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS author_id uuid,
+  ADD CONSTRAINT chat_messages_author_id_fkey FOREIGN KEY (author_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.chat_messages m
+SET author_id = c.user_id
+FROM public.chat_conversations c
+WHERE c.id = m.conversation_id AND m.sender = 'user' AND m.author_id IS NULL;
+
+-- Rows now belong to the brand; user_id is whoever created them
+ALTER TABLE public.chat_conversations
+  DROP CONSTRAINT chat_conversations_brand_id_fkey,
+  ADD CONSTRAINT chat_conversations_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE;
+
+ALTER TABLE public.brand_journeys
+  DROP CONSTRAINT brand_journeys_brand_id_fkey,
+  ADD CONSTRAINT brand_journeys_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE;
+
+ALTER TABLE public.brand_deliverables
+  DROP CONSTRAINT brand_deliverables_brand_id_fkey,
+  ADD CONSTRAINT brand_deliverables_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE;
+
+ALTER TABLE public.brand_documents
+  DROP CONSTRAINT brand_documents_brand_id_fkey,
+  ADD CONSTRAINT brand_documents_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE;
+
+ALTER TABLE public.brand_competitors
+  DROP CONSTRAINT brand_competitors_brand_id_fkey,
+  ADD CONSTRAINT brand_competitors_brand_id_fkey FOREIGN KEY (brand_id) REFERENCES public.brands(id) ON DELETE CASCADE;
+
+-- brands
+DROP POLICY "Enable read access for users based on user_id" ON public.brands;
+DROP POLICY "Enable update for users based on user_id" ON public.brands;
+DROP POLICY "Enable delete for users based on user_id" ON public.brands;
+
+-- The creator clause covers INSERT ... RETURNING, before handle_new_brand has added the owner
+CREATE POLICY "Enable read access for brand members"
+ON public.brands FOR SELECT
+USING (auth.uid() = user_id OR public.brand_role(id) IS NOT NULL);
+
+CREATE POLICY "Enable update for brand owners"
+ON public.brands FOR UPDATE
+USING (public.brand_role(id) = 'owner');
+
+CREATE POLICY "Enable delete for brand owners"
+ON public.brands FOR DELETE
+USING (public.brand_role(id) = 'owner');
+
+-- chat_conversations
+DROP POLICY "Enable read access for users based on user_id" ON public.chat_conversations;
+DROP POLICY "Enable insert for users based on user_id" ON public.chat_conversations;
+DROP POLICY "Enable update for users based on user_id" ON public.chat_conversations;
+DROP POLICY "Enable delete for users based on user_id" ON public.chat_conversations;
+
+CREATE POLICY "Enable read access for brand members"
+ON public.chat_conversations FOR SELECT
+USING (public.brand_role(brand_id) IS NOT NULL);
+
+CREATE POLICY "Enable insert for brand editors"
+ON public.chat_conversations FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable update for brand editors"
+ON public.chat_conversations FOR UPDATE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable delete for brand editors"
+ON public.chat_conversations FOR DELETE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+-- chat_messages
+DROP POLICY "Enable read access for messages in user's conversations" ON public.chat_messages;
+DROP POLICY "Enable insert for messages in user's conversations" ON public.chat_messages;
+DROP POLICY "Enable update for messages in user's conversations" ON public.chat_messages;
+DROP POLICY "Enable delete for messages in user's conversations" ON public.chat_messages;
+
+CREATE POLICY "Enable read access for messages in brand conversations"
+ON public.chat_messages FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.chat_conversations
+    WHERE chat_conversations.id = chat_messages.conversation_id AND public.brand_role(chat_conversations.brand_id) IS NOT NULL
+  )
+);
+
+CREATE POLICY "Enable insert for messages in brand conversations"
+ON public.chat_messages FOR INSERT
+WITH CHECK (
+  (author_id IS NULL OR author_id = auth.uid())
+  AND EXISTS (
+    SELECT 1
+    FROM public.chat_conversations
+    WHERE chat_conversations.id = chat_messages.conversation_id AND public.brand_role(chat_conversations.brand_id) IN ('owner', 'editor')
+  )
+);
+
+CREATE POLICY "Enable update for messages in brand conversations"
+ON public.chat_messages FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.chat_conversations
+    WHERE chat_conversations.id = chat_messages.conversation_id AND public.brand_role(chat_conversations.brand_id) IN ('owner', 'editor')
+  )
+);
+
+CREATE POLICY "Enable delete for messages in brand conversations"
+ON public.chat_messages FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.chat_conversations
+    WHERE chat_conversations.id = chat_messages.conversation_id AND public.brand_role(chat_conversations.brand_id) IN ('owner', 'editor')
+  )
+);
+
+-- brand_journeys
+DROP POLICY "Enable read access for users based on user_id" ON public.brand_journeys;
+DROP POLICY "Enable insert for users based on user_id" ON public.brand_journeys;
+DROP POLICY "Enable update for users based on user_id" ON public.brand_journeys;
+DROP POLICY "Enable delete for users based on user_id" ON public.brand_journeys;
+
+CREATE POLICY "Enable read access for brand members"
+ON public.brand_journeys FOR SELECT
+USING (public.brand_role(brand_id) IS NOT NULL);
+
+CREATE POLICY "Enable insert for brand editors"
+ON public.brand_journeys FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable update for brand editors"
+ON public.brand_journeys FOR UPDATE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable delete for brand owners"
+ON public.brand_journeys FOR DELETE
+USING (public.brand_role(brand_id) = 'owner');
+
+-- brand_deliverables (versions are never edited)
+DROP POLICY "Enable read access for users based on user_id" ON public.brand_deliverables;
+DROP POLICY "Enable insert for users based on user_id" ON public.brand_deliverables;
+DROP POLICY "Enable delete for users based on user_id" ON public.brand_deliverables;
+
+CREATE POLICY "Enable read access for brand members"
+ON public.brand_deliverables FOR SELECT
+USING (public.brand_role(brand_id) IS NOT NULL);
+
+CREATE POLICY "Enable insert for brand editors"
+ON public.brand_deliverables FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable delete for brand editors"
+ON public.brand_deliverables FOR DELETE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+-- brand_documents
+DROP POLICY "Enable read access for users based on user_id" ON public.brand_documents;
+DROP POLICY "Enable insert for users based on user_id" ON public.brand_documents;
+DROP POLICY "Enable update for users based on user_id" ON public.brand_documents;
+DROP POLICY "Enable delete for users based on user_id" ON public.brand_documents;
+
+CREATE POLICY "Enable read access for brand members"
+ON public.brand_documents FOR SELECT
+USING (public.brand_role(brand_id) IS NOT NULL);
+
+CREATE POLICY "Enable insert for brand editors"
+ON public.brand_documents FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable update for brand editors"
+ON public.brand_documents FOR UPDATE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable delete for brand editors"
+ON public.brand_documents FOR DELETE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+-- brand_competitors
+DROP POLICY "Enable read access for users based on user_id" ON public.brand_competitors;
+DROP POLICY "Enable insert for users based on user_id" ON public.brand_competitors;
+DROP POLICY "Enable update for users based on user_id" ON public.brand_competitors;
+DROP POLICY "Enable delete for users based on user_id" ON public.brand_competitors;
+
+CREATE POLICY "Enable read access for brand members"
+ON public.brand_competitors FOR SELECT
+USING (public.brand_role(brand_id) IS NOT NULL);
+
+CREATE POLICY "Enable insert for brand editors"
+ON public.brand_competitors FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable update for brand editors"
+ON public.brand_competitors FOR UPDATE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Enable delete for brand editors"
+ON public.brand_competitors FOR DELETE
+USING (public.brand_role(brand_id) IN ('owner', 'editor'));
+
+-- Storage: files stay under the uploader's folder; other members reach them through the brand
+CREATE POLICY "Enable read access for brand members based on brand files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'brand-documents' AND (
+    EXISTS (
+      SELECT 1 FROM public.brand_documents
+      WHERE brand_documents.storage_path = objects.name AND public.brand_role(brand_documents.brand_id) IS NOT NULL
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.brand_competitors, jsonb_array_elements(brand_competitors.assets) AS asset
+      WHERE asset->>'storagePath' = objects.name AND public.brand_role(brand_competitors.brand_id) IS NOT NULL
+    )
+  )
+);
+
+CREATE POLICY "Enable delete for brand editors based on brand files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'brand-documents' AND (
+    EXISTS (
+      SELECT 1 FROM public.brand_documents
+      WHERE brand_documents.storage_path = objects.name AND public.brand_role(brand_documents.brand_id) IN ('owner', 'editor')
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.brand_competitors, jsonb_array_elements(brand_competitors.assets) AS asset
+      WHERE asset->>'storagePath' = objects.name AND public.brand_role(brand_competitors.brand_id) IN ('owner', 'editor')
+    )
+  )
+);
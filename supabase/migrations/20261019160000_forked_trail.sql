@@ -0,0 +1,45 @@
+/*
+  # Branch conversations at edited and regenerated messages
+
+  1. Changes
+    - `chat_messages.parent_id` (uuid, nullable): the message this one answers or follows; null for
+      the first message of a branch. Editing a sent message or regenerating a reply adds a sibling
+      under the same parent instead of replacing it
+    - `chat_conversations.active_message_id` (uuid, nullable): the last message of the branch the
+      conversation is showing; the branch is the path from it back to the first message
+
+  2. Data
+    - Existing conversations become a single branch: every message points at the one before it,
+      and the last message is the active one
+
+  3. Security
+    - No policy changes; both columns are covered by the brand member policies on their tables
+*/
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS parent_id uuid,
+  ADD CONSTRAINT chat_messages_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS chat_messages_parent_id_idx ON public.chat_messages (parent_id);
+
+ALTER TABLE public.chat_conversations
+  ADD COLUMN IF NOT EXISTS active_message_id uuid,
+  ADD CONSTRAINT chat_conversations_active_message_id_fkey FOREIGN KEY (active_message_id) REFERENCES public.chat_messages(id) ON DELETE SET NULL;
+
+-- Chain existing messages in the order they were written
+UPDATE public.chat_messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY conversation_id ORDER BY timestamp, id) AS previous_id
+  FROM public.chat_messages
+) ordered
+WHERE ordered.id = m.id AND ordered.previous_id IS NOT NULL;
+
+UPDATE public.chat_conversations c
+SET active_message_id = (
+  SELECT m.id
+  FROM public.chat_messages m
+  WHERE m.conversation_id = c.id
+  ORDER BY m.timestamp DESC, m.id DESC
+  LIMIT 1
+);
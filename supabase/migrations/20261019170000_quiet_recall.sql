@@ -0,0 +1,37 @@
+/*
+  # Cancel a pending email change
+
+  1. Functions
+    - `cancel_email_change()` clears the current user's pending email change in auth.users:
+      the new address, both confirmation tokens and the confirmation progress. Supabase Auth
+      ignores an update to the address the account already has, so the pending change can't be
+      withdrawn through the client. The confirmation links already sent stop working.
+
+  2. Security
+    - SECURITY DEFINER, and only ever touches the row of `auth.uid()`
+    - Executable by signed-in users only
+*/
+
+CREATE OR REPLACE FUNCTION public.cancel_email_change()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE auth.users
+    SET email_change = '',
+        email_change_token_new = '',
+        email_change_token_current = '',
+        email_change_confirm_status = 0,
+        email_change_sent_at = NULL
+    WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_email_change() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_email_change() TO authenticated;
@@ -0,0 +1,32 @@
+export interface User {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  createdAt: Date;
+  lastLogin: Date;
+}
+
+export interface AuthState {
+  user: User | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface SignupData {
+  email: string;
+  password: string;
+}
+
+export interface UserSettings {
+  firstName: string;
+  lastName: string;
+  email: string;
+  currentPassword?: string;
+  newPassword?: string;
+}
@@ -7,7 +7,8 @@ export default defineConfig({
   server: {
     proxy: {
       '/api': {
-        target: 'https://iamfashion.app.n8n.cloud',
+        // N8N_PROXY_TARGET points the development profile elsewhere, e.g. http://localhost:5679 for the mock server
+        target: process.env.N8N_PROXY_TARGET || 'https://iamfashion.app.n8n.cloud',
         changeOrigin: true,
         secure: true,
         rewrite: (path) => path.replace(/^\/api/, ''),
@@ -23,6 +24,12 @@ export default defineConfig({
           });
         },
       },
+      // The mock profile (VITE_N8N_PROFILE=mock); see mock-n8n/server.js
+      '/mock-n8n': {
+        target: `http://localhost:${process.env.MOCK_N8N_PORT || 5679}`,
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/mock-n8n/, ''),
+      },
     },
   },
   optimizeDeps: {